@@ -0,0 +1,32 @@
+import { createAccountStore } from './accounts';
+
+const PASSWORD = 'correct horse';
+
+test('registers accounts with stable ids and case-insensitive names', () => {
+  const accounts = createAccountStore();
+  const alice = accounts.register('  Alice ', PASSWORD);
+  expect(alice).toEqual({ id: expect.stringMatching(/^user-[0-9a-f]{16}$/), username: 'Alice' });
+  expect(accounts.register('alice', PASSWORD)).toMatchObject({ code: 'USERNAME_TAKEN' });
+  expect(accounts.register('bob', 'short')).toMatchObject({ code: 'INVALID_PASSWORD' });
+  expect(accounts.register('   ', PASSWORD)).toMatchObject({ code: 'INVALID_USERNAME' });
+});
+
+test('checks passwords without keeping them', () => {
+  const accounts = createAccountStore();
+  const alice = accounts.register('Alice', PASSWORD);
+  expect(accounts.authenticate('ALICE', PASSWORD)).toEqual(alice);
+  expect(accounts.authenticate('Alice', 'correct horsE')).toBeNull();
+  expect(accounts.authenticate('nobody', PASSWORD)).toBeNull();
+});
+
+test('looks accounts up by auth token until it is revoked', () => {
+  const accounts = createAccountStore();
+  const alice = accounts.register('Alice', PASSWORD);
+  if ('message' in alice) throw new Error(alice.message);
+
+  const token = accounts.createAuthToken(alice.id);
+  expect(accounts.getByToken(token)).toEqual(alice);
+  expect(accounts.getByToken(42)).toBeNull();
+  accounts.revokeToken(token);
+  expect(accounts.getByToken(token)).toBeNull();
+});
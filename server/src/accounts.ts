@@ -0,0 +1,71 @@
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import { Account, PASSWORD_LIMITS, ProtocolError, USERNAME_MAX_LENGTH } from '../../src/protocol/events';
+
+interface StoredAccount extends Account {
+  salt: string;
+  passwordHash: string;
+}
+
+const HASH_LENGTH = 64;
+
+const hashPassword = (password: string, salt: string) => scryptSync(password, salt, HASH_LENGTH).toString('hex');
+
+// A local stand-in for a real identity provider: accounts and their auth tokens
+// live in memory, like ratings and leaderboards
+export const createAccountStore = () => {
+  const accounts = new Map<string, StoredAccount>();
+  const idByName = new Map<string, string>();
+  const accountIdByToken = new Map<string, string>();
+  const keyOf = (username: string) => username.trim().toLowerCase();
+  const toAccount = ({ id, username }: StoredAccount): Account => ({ id, username });
+
+  return {
+    // Returns the new account, or why it couldn't be made
+    register: (name: string, password: string): Account | ProtocolError => {
+      const username = name.trim();
+      if (!username || username.length > USERNAME_MAX_LENGTH) {
+        return { message: `Usernames must be 1 to ${USERNAME_MAX_LENGTH} characters.`, code: 'INVALID_USERNAME' };
+      }
+      if (password.length < PASSWORD_LIMITS.min || password.length > PASSWORD_LIMITS.max) {
+        return { message: `Passwords must be ${PASSWORD_LIMITS.min} to ${PASSWORD_LIMITS.max} characters.`, code: 'INVALID_PASSWORD' };
+      }
+      if (idByName.has(keyOf(username))) {
+        return { message: `The name ${username} is taken.`, code: 'USERNAME_TAKEN' };
+      }
+
+      const salt = randomBytes(16).toString('hex');
+      const account: StoredAccount = {
+        id: `user-${randomBytes(8).toString('hex')}`,
+        username,
+        salt,
+        passwordHash: hashPassword(password, salt)
+      };
+      accounts.set(account.id, account);
+      idByName.set(keyOf(username), account.id);
+      return toAccount(account);
+    },
+    authenticate: (name: string, password: string): Account | null => {
+      const id = idByName.get(keyOf(name));
+      const account = id ? accounts.get(id) : undefined;
+      if (!account) return null;
+      const expected = Buffer.from(account.passwordHash, 'hex');
+      const actual = Buffer.from(hashPassword(password, account.salt), 'hex');
+      return timingSafeEqual(expected, actual) ? toAccount(account) : null;
+    },
+    createAuthToken: (accountId: string) => {
+      const token = randomBytes(24).toString('base64url');
+      accountIdByToken.set(token, accountId);
+      return token;
+    },
+    getByToken: (token: unknown): Account | null => {
+      const id = typeof token === 'string' ? accountIdByToken.get(token) : undefined;
+      const account = id ? accounts.get(id) : undefined;
+      return account ? toAccount(account) : null;
+    },
+    revokeToken: (token: string) => {
+      accountIdByToken.delete(token);
+    }
+  };
+};
+
+export type AccountStore = ReturnType<typeof createAccountStore>;
@@ -0,0 +1,93 @@
+import { RaceKeystroke } from '../../src/protocol/events';
+import { PEAK_WINDOW, applyKeystrokes, createKeystrokeLog, getPeakWpm, hasPasteBurst, isProgressJump, reviewRace } from './antiCheat';
+
+const TEXT = 'hello world';
+const START = 1_000_000;
+
+const typed = (text: string, msPerKey: number, from = 0): RaceKeystroke[] =>
+  text.split('').map((key, i) => ({ key, isBackspace: false, time: from + (i + 1) * msPerKey }));
+
+const logOf = (strokes: RaceKeystroke[]) => {
+  const log = createKeystrokeLog();
+  expect(applyKeystrokes(log, strokes, TEXT, START, 60_000)).toBeNull();
+  return log;
+};
+
+test('rebuilds the typed text, backspaces included', () => {
+  const log = logOf([...typed('hex', 100), { key: 'Backspace', isBackspace: true, time: 350 }, ...typed('llo world', 100, 350)]);
+  expect(log.typed).toBe(TEXT);
+  expect(log.keystrokes[2]).toMatchObject({ key: 'x', expected: 'l', correct: false });
+  expect(log.keystrokes[3]).toMatchObject({ isBackspace: true, index: 2 });
+});
+
+test('recomputes stats from the keystrokes', () => {
+  // 11 characters in 1.1 seconds
+  const { stats, violation } = reviewRace(logOf(typed(TEXT, 100)), TEXT, START);
+  expect(violation).toBeNull();
+  expect(stats.wpm).toBe(120);
+  expect(stats.accuracy).toBe(100);
+  expect(stats.timeTaken).toBe(1.1);
+});
+
+test('flags out-of-order and future keystrokes', () => {
+  const log = createKeystrokeLog();
+  expect(applyKeystrokes(log, [{ key: 'h', isBackspace: false, time: 200 }, { key: 'e', isBackspace: false, time: 100 }], TEXT, START, 1000))
+    .toBe('INVALID_KEYSTROKES');
+  expect(applyKeystrokes(createKeystrokeLog(), typed('h', 5000), TEXT, START, 1000)).toBe('INVALID_KEYSTROKES');
+  expect(applyKeystrokes(createKeystrokeLog(), [{ key: 'hello', isBackspace: false, time: 10 }], TEXT, START, 1000))
+    .toBe('INVALID_KEYSTROKES');
+});
+
+test('spots paste-like bursts', () => {
+  expect(hasPasteBurst(logOf(typed(TEXT, 1)).keystrokes)).toBe(true);
+  expect(hasPasteBurst(logOf(typed(TEXT, 40)).keystrokes)).toBe(false);
+  expect(reviewRace(logOf(typed(TEXT, 1)), TEXT, START).violation).toBe('PASTE_BURST');
+});
+
+test('rejects impossible speeds that are not bursts', () => {
+  // 20ms a key is 600 wpm
+  expect(reviewRace(logOf(typed(TEXT, 20)), TEXT, START).violation).toBe('IMPOSSIBLE_SPEED');
+});
+
+test('rejects a fast stretch hidden behind an idle start', () => {
+  const text = 'the quick brown fox jumps over the lazy dog';
+  const log = createKeystrokeLog();
+  // Typed at 100 wpm, then the rest after half a minute at 6ms a key, just over the burst interval
+  const strokes = [...typed('the ', 120), ...typed(text.slice(4), 6, 30_000)];
+  expect(applyKeystrokes(log, strokes, text, START, 60_000)).toBeNull();
+
+  expect(hasPasteBurst(log.keystrokes)).toBe(false);
+  expect(reviewRace(log, text, START).stats.rawWpm).toBeLessThan(100);
+  expect(getPeakWpm(log.keystrokes)).toBe(2000);
+  expect(reviewRace(log, text, START).violation).toBe('IMPOSSIBLE_SPEED');
+});
+
+test('measures peak speed over a window of presses', () => {
+  const steady = logOf(typed(TEXT, 100)).keystrokes;
+  // Too short for a full window
+  expect(getPeakWpm(steady)).toBe(0);
+
+  const text = 'x'.repeat(PEAK_WINDOW);
+  const log = createKeystrokeLog();
+  expect(applyKeystrokes(log, typed(text, 100), text, START, 60_000)).toBeNull();
+  expect(getPeakWpm(log.keystrokes)).toBe(120);
+});
+
+test('only accepts finished texts, typos allowed', () => {
+  expect(reviewRace(logOf(typed('hello', 100)), TEXT, START).violation).toBe('INCOMPLETE_TEXT');
+  expect(reviewRace(logOf(typed('hellp world', 100)), TEXT, START).violation).toBeNull();
+});
+
+test('times timed tests by their limit and accepts them unfinished', () => {
+  // 5 characters in a one-minute test
+  const { stats, violation } = reviewRace(logOf(typed('hello', 100)), TEXT, START, 60_000);
+  expect(violation).toBeNull();
+  expect(stats.wpm).toBe(1);
+  expect(reviewRace(logOf(typed('hello', 100, 5000)), TEXT, START, 1000).violation).toBe('INVALID_KEYSTROKES');
+});
+
+test('flags progress beyond what was typed', () => {
+  expect(isProgressJump(5, 5)).toBe(false);
+  expect(isProgressJump(10, 5)).toBe(false);
+  expect(isProgressJump(11, 5)).toBe(true);
+});
@@ -0,0 +1,141 @@
+import { AntiCheatCode, RaceKeystroke } from '../../src/protocol/events';
+import { KeystrokeEvent, TypingStats } from '../../src/types/typing';
+import { calculateGrossWpm, calculateTypingStats } from '../../src/utils/stats';
+
+// Well above the fastest sustained speeds ever recorded
+export const MAX_WPM = 250;
+// A run of this many presses, each this close to the last, is a paste rather than typing
+export const BURST_LENGTH = 8;
+export const BURST_INTERVAL_MS = 5;
+// Characters, about five words, over which the fastest stretch of a race is held to MAX_WPM
+export const PEAK_WINDOW = 25;
+// Characters of room for a progress update racing the keystrokes that justify it
+export const PROGRESS_TOLERANCE = 5;
+// Keystrokes may not claim to be further into the race than the server has seen
+export const CLOCK_TOLERANCE_MS = 2000;
+// Longest thing a single keystroke can insert
+const MAX_KEY_LENGTH = 1;
+
+export interface KeystrokeLog {
+  typed: string;
+  keystrokes: KeystrokeEvent[];
+  lastTime: number;
+}
+
+export interface RaceReview {
+  stats: TypingStats;
+  violation: AntiCheatCode | null;
+}
+
+export const createKeystrokeLog = (): KeystrokeLog => ({ typed: '', keystrokes: [], lastTime: 0 });
+
+export const ANTI_CHEAT_MESSAGES: Record<AntiCheatCode, string> = {
+  IMPOSSIBLE_SPEED: `Result rejected: faster than ${MAX_WPM} wpm.`,
+  PASTE_BURST: 'Result rejected: text arrived faster than it can be typed.',
+  PROGRESS_JUMP: 'Result rejected: progress ran ahead of your keystrokes.',
+  INCOMPLETE_TEXT: 'Result rejected: your keystrokes do not reach the end of the race text.',
+  INVALID_KEYSTROKES: 'Result rejected: keystroke data was out of order or from the future.'
+};
+
+// Appends a batch to the log, rebuilding what the client typed against the race text.
+// Returns a violation instead if the batch is out of order or ahead of the server's clock.
+export const applyKeystrokes = (
+  log: KeystrokeLog,
+  batch: RaceKeystroke[],
+  text: string,
+  startTime: number,
+  serverElapsedMs: number
+): AntiCheatCode | null => {
+  for (const stroke of batch) {
+    if (
+      stroke.time < log.lastTime ||
+      stroke.time < 0 ||
+      stroke.time > serverElapsedMs + CLOCK_TOLERANCE_MS ||
+      (!stroke.isBackspace && stroke.key.length !== MAX_KEY_LENGTH)
+    ) {
+      return 'INVALID_KEYSTROKES';
+    }
+
+    log.lastTime = stroke.time;
+    if (stroke.isBackspace) {
+      const index = Math.max(0, log.typed.length - 1);
+      log.keystrokes.push({
+        key: 'Backspace',
+        expected: text[index] || '',
+        index,
+        timestamp: startTime + stroke.time,
+        correct: false,
+        isBackspace: true
+      });
+      log.typed = log.typed.slice(0, -1);
+    } else {
+      const index = log.typed.length;
+      log.keystrokes.push({
+        key: stroke.key,
+        expected: text[index] || '',
+        index,
+        timestamp: startTime + stroke.time,
+        correct: stroke.key === text[index],
+        isBackspace: false
+      });
+      log.typed += stroke.key;
+    }
+  }
+  return null;
+};
+
+export const hasPasteBurst = (keystrokes: KeystrokeEvent[]) => {
+  let run = 1;
+  for (let i = 1; i < keystrokes.length; i++) {
+    const current = keystrokes[i];
+    const previous = keystrokes[i - 1];
+    if (!current.isBackspace && !previous.isBackspace && current.timestamp - previous.timestamp <= BURST_INTERVAL_MS) {
+      run++;
+      if (run >= BURST_LENGTH) return true;
+    } else {
+      run = 1;
+    }
+  }
+  return false;
+};
+
+// Fastest speed over any PEAK_WINDOW presses in a row, so idling first cannot hide a
+// stretch typed faster than anyone can
+export const getPeakWpm = (keystrokes: KeystrokeEvent[]) => {
+  const presses = keystrokes.filter(k => !k.isBackspace);
+  let peak = 0;
+  for (let i = PEAK_WINDOW - 1; i < presses.length; i++) {
+    const elapsedMs = presses[i].timestamp - presses[i - PEAK_WINDOW + 1].timestamp;
+    // The first press of the window only marks when it started
+    peak = Math.max(peak, elapsedMs > 0 ? calculateGrossWpm(PEAK_WINDOW - 1, elapsedMs) : Infinity);
+  }
+  return peak;
+};
+
+// Progress is reported as the cursor's index in the race text
+export const isProgressJump = (claimedIndex: number, typedLength: number) =>
+  claimedIndex > typedLength + PROGRESS_TOLERANCE;
+
+// A time limit is for timed tests, which end with the clock rather than the text
+export const reviewRace = (log: KeystrokeLog, text: string, startTime: number, timeLimitMs?: number): RaceReview => {
+  const stats = calculateTypingStats({
+    target: text,
+    typed: log.typed,
+    keystrokes: log.keystrokes,
+    startTime,
+    endTime: startTime + (timeLimitMs ?? log.lastTime)
+  });
+
+  let violation: AntiCheatCode | null = null;
+  if (timeLimitMs !== undefined && log.lastTime > timeLimitMs + CLOCK_TOLERANCE_MS) {
+    violation = 'INVALID_KEYSTROKES';
+  } else if (timeLimitMs === undefined && log.typed.length < text.length) {
+    // Uncorrected typos only cost accuracy, as they do on the client
+    violation = 'INCOMPLETE_TEXT';
+  } else if (hasPasteBurst(log.keystrokes)) {
+    violation = 'PASTE_BURST';
+  } else if (stats.rawWpm > MAX_WPM || stats.wpm > MAX_WPM || getPeakWpm(log.keystrokes) > MAX_WPM) {
+    violation = 'IMPOSSIBLE_SPEED';
+  }
+  return { stats, violation };
+};
@@ -0,0 +1,33 @@
+import { cleanChatText, createRateBucket, filterProfanity, takeToken } from './chat';
+
+const LIMIT = { burst: 3, refillMs: 1000 };
+
+test('allows a burst, then one message per refill', () => {
+  const bucket = createRateBucket(LIMIT, 0);
+  expect([takeToken(bucket, LIMIT, 0), takeToken(bucket, LIMIT, 10), takeToken(bucket, LIMIT, 20)]).toEqual([true, true, true]);
+  expect(takeToken(bucket, LIMIT, 30)).toBe(false);
+  expect(takeToken(bucket, LIMIT, 1000)).toBe(true);
+  expect(takeToken(bucket, LIMIT, 1500)).toBe(false);
+});
+
+test('does not bank time while the bucket is full', () => {
+  const bucket = createRateBucket(LIMIT, 0);
+  [60_000, 60_001, 60_002].forEach(now => expect(takeToken(bucket, LIMIT, now)).toBe(true));
+  expect(takeToken(bucket, LIMIT, 60_003)).toBe(false);
+});
+
+test('masks blocked words and their usual endings', () => {
+  expect(filterProfanity('well SHIT, that was fast')).toEqual({ text: 'well ****, that was fast', filtered: true });
+  expect(filterProfanity('no f*cking way, sh1tty luck')).toEqual({ text: 'no f*cking way, ****** luck', filtered: true });
+  expect(filterProfanity('fucking')).toEqual({ text: '*******', filtered: true });
+});
+
+test('leaves innocent words that merely contain a blocked one', () => {
+  expect(filterProfanity('Dickens in Scunthorpe, classic')).toEqual({ text: 'Dickens in Scunthorpe, classic', filtered: false });
+});
+
+test('trims messages and refuses empty or long ones', () => {
+  expect(cleanChatText('  good   luck \n all ')).toBe('good luck all');
+  expect(cleanChatText('   ')).toBeNull();
+  expect(cleanChatText('a'.repeat(201))).toBeNull();
+});
@@ -0,0 +1,64 @@
+import { CHAT_MAX_LENGTH } from '../../src/protocol/events';
+
+// Token bucket: a burst of `burst` messages, then one more every `refillMs`
+export interface RateLimit {
+  burst: number;
+  refillMs: number;
+}
+
+export interface RateBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export const CHAT_RATE_LIMIT: RateLimit = { burst: 5, refillMs: 2000 };
+export const REACTION_RATE_LIMIT: RateLimit = { burst: 8, refillMs: 500 };
+
+// Spends a token if one is left; returns false when the sender should slow down
+export const takeToken = (bucket: RateBucket, limit: RateLimit, now: number) => {
+  const refilled = Math.floor((now - bucket.updatedAt) / limit.refillMs);
+  if (refilled > 0) {
+    bucket.tokens = Math.min(limit.burst, bucket.tokens + refilled);
+    bucket.updatedAt += refilled * limit.refillMs;
+  }
+  // A full bucket doesn't bank time towards the next burst
+  if (bucket.tokens >= limit.burst) {
+    bucket.updatedAt = now;
+  }
+  if (bucket.tokens <= 0) return false;
+  bucket.tokens--;
+  return true;
+};
+
+export const createRateBucket = (limit: RateLimit, now: number): RateBucket => ({ tokens: limit.burst, updatedAt: now });
+
+// Deliberately short: it catches the obvious, and the host can always leave
+const BLOCKED_WORDS = ['fuck', 'shit', 'bitch', 'cunt', 'asshole', 'bastard', 'dick', 'prick', 'slut', 'whore', 'fag', 'retard'];
+
+// Common letter swaps, so "sh1t" is caught along with "shit"
+const LOOKALIKES: Record<string, string> = { '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's' };
+
+const normalise = (word: string) =>
+  word.toLowerCase().split('').map(char => LOOKALIKES[char] || char).join('');
+
+// Whole words and their usual endings only, so "Dickens" and "scunthorpe" get through
+const BLOCKED_PATTERN = new RegExp(`^(${BLOCKED_WORDS.join('|')})(s|es|ing|in|er|ers|ed|y|ty)?$`);
+
+const isBlocked = (word: string) => BLOCKED_PATTERN.test(normalise(word));
+
+// Masks blocked words with asterisks, keeping the rest of the message as sent
+export const filterProfanity = (text: string) => {
+  let filtered = false;
+  const clean = text.replace(/[\w@$]+/g, word => {
+    if (!isBlocked(word)) return word;
+    filtered = true;
+    return '*'.repeat(word.length);
+  });
+  return { text: clean, filtered };
+};
+
+// Returns the message ready to send, or null if there's nothing worth sending
+export const cleanChatText = (text: string) => {
+  const trimmed = text.replace(/\s+/g, ' ').trim();
+  return trimmed && trimmed.length <= CHAT_MAX_LENGTH ? trimmed : null;
+};
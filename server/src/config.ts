@@ -0,0 +1,40 @@
+import { DEFAULT_ROOM_SETTINGS, RaceTextSource, RoomSettings } from '../../src/protocol/events';
+import { createQuoteSource } from '../../src/textSources/quoteSource';
+
+export interface RaceServerConfig {
+  // Settings for public lobbies; private rooms pick their own
+  publicSettings: RoomSettings;
+  // Players needed before a public lobby's countdown starts on its own
+  minPlayers: number;
+  // Hard limit on a race; unfinished players are listed in raceTimeout
+  raceTimeLimitMs: number;
+  // Length of one countdown step; only shortened by tests
+  tickMs: number;
+  // How long a disconnected player keeps their place before they are dropped
+  reconnectGraceMs: number;
+  // Only put players of the same rating band in a public lobby
+  matchByRating: boolean;
+  // Leaderboards rank players on the average of this many of their best results
+  leaderboardBestOf: number;
+  pickText: (source: RaceTextSource) => string;
+}
+
+const QUOTE_SOURCES: Record<RaceTextSource, ReturnType<typeof createQuoteSource>> = {
+  quotes: createQuoteSource('quotes', 'quotes', 'Quotes of any length'),
+  'quotes-short': createQuoteSource('quotes-short', 'short quotes', 'Short quotes', 'short'),
+  'quotes-medium': createQuoteSource('quotes-medium', 'medium quotes', 'Medium quotes', 'medium'),
+  'quotes-long': createQuoteSource('quotes-long', 'long quotes', 'Long quotes', 'long')
+};
+
+export const pickRandomQuote = (source: RaceTextSource) => QUOTE_SOURCES[source].generate({ type: 'passage' }).text;
+
+export const DEFAULT_CONFIG: RaceServerConfig = {
+  publicSettings: DEFAULT_ROOM_SETTINGS,
+  minPlayers: 2,
+  raceTimeLimitMs: 3 * 60 * 1000,
+  tickMs: 1000,
+  reconnectGraceMs: 30 * 1000,
+  matchByRating: true,
+  leaderboardBestOf: 3,
+  pickText: pickRandomQuote
+};
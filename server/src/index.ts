@@ -0,0 +1,18 @@
+import { createServer } from 'http';
+import { Server } from 'socket.io';
+import { attachRaceServer, RaceIO } from './raceServer';
+
+const port = Number(process.env.PORT) || 5000;
+const clientOrigin = process.env.CLIENT_ORIGIN || '*';
+
+const httpServer = createServer((req, res) => {
+  res.writeHead(req.url === '/health' ? 200 : 404, { 'Content-Type': 'text/plain' });
+  res.end(req.url === '/health' ? 'ok' : 'not found');
+});
+
+const io: RaceIO = new Server(httpServer, { cors: { origin: clientOrigin } });
+attachRaceServer(io);
+
+httpServer.listen(port, () => {
+  console.log(`Race server listening on port ${port}`);
+});
@@ -0,0 +1,65 @@
+import { createLeaderboardStore, getPeriodStart, isLeaderboardText, rankResults } from './leaderboard';
+
+// Wednesday 2024-05-15, 15:30 UTC
+const NOW = Date.UTC(2024, 4, 15, 15, 30);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const result = (username: string, wpm: number, time = NOW, group: string | null = null) =>
+  ({ userId: `user-${username.toLowerCase()}`, username, group, wpm, accuracy: 95, time });
+
+test('starts days at midnight UTC and weeks on Monday', () => {
+  expect(getPeriodStart('daily', NOW)).toBe(Date.UTC(2024, 4, 15));
+  expect(getPeriodStart('weekly', NOW)).toBe(Date.UTC(2024, 4, 13));
+  // A Sunday still belongs to the week that started six days before
+  expect(getPeriodStart('weekly', Date.UTC(2024, 4, 19, 23))).toBe(Date.UTC(2024, 4, 13));
+  expect(getPeriodStart('all-time', NOW)).toBe(0);
+});
+
+test('ranks players on the average of their best results', () => {
+  const entries = rankResults([
+    result('alice', 120),
+    result('alice', 60),
+    result('alice', 70),
+    result('alice', 80),
+    result('bob', 100),
+    result('bob', 95)
+  ], 3);
+
+  expect(entries).toEqual([
+    { rank: 1, userId: 'user-bob', username: 'bob', group: null, score: 97.5, bestWpm: 100, accuracy: 95, results: 2 },
+    { rank: 2, userId: 'user-alice', username: 'alice', group: null, score: 90, bestWpm: 120, accuracy: 95, results: 4 }
+  ]);
+});
+
+test('filters boards by period and team', () => {
+  const store = createLeaderboardStore(1);
+  store.record('quote', result('alice', 90, NOW - 2 * DAY_MS, 'Acme'));
+  store.record('quote', result('bob', 80, NOW, 'Globex'));
+  store.record('quote', result('carol', 70, NOW, 'acme'));
+
+  const names = (period: 'daily' | 'weekly' | 'all-time', group: string | null) =>
+    store.get('quote', period, group, NOW).entries.map(entry => entry.username);
+  expect(names('daily', null)).toEqual(['bob', 'carol']);
+  expect(names('weekly', null)).toEqual(['alice', 'bob', 'carol']);
+  expect(names('all-time', 'ACME')).toEqual(['alice', 'carol']);
+  expect(store.get('time-15', 'all-time', null, NOW).entries).toEqual([]);
+});
+
+test('forgets old results that are not among a player\'s best', () => {
+  const store = createLeaderboardStore(1);
+  store.record('time-60', result('alice', 100, NOW - 30 * DAY_MS));
+  store.record('time-60', result('alice', 50, NOW - 20 * DAY_MS));
+  store.record('time-60', result('alice', 60, NOW));
+
+  expect(store.get('time-60', 'all-time', null, NOW).entries[0]).toMatchObject({ score: 100, results: 2 });
+  expect(store.get('time-60', 'weekly', null, NOW).entries[0]).toMatchObject({ score: 60, results: 1 });
+});
+
+test('only ranks the standard texts for each mode', () => {
+  const words = (count: number) => Array(count).fill('the').join(' ');
+  expect(isLeaderboardText('quote', 'Brevity is the soul of wit.')).toBe(true);
+  expect(isLeaderboardText('quote', 'Brevity is the soul of wit')).toBe(false);
+  expect(isLeaderboardText('words-25', words(25))).toBe(true);
+  expect(isLeaderboardText('words-25', words(10))).toBe(false);
+  expect(isLeaderboardText('time-15', `${words(40)} antidisestablishmentarianism`)).toBe(false);
+});
@@ -0,0 +1,107 @@
+import { Leaderboard, LeaderboardEntry, LeaderboardMode, LeaderboardPeriod } from '../../src/protocol/events';
+import { QUOTES } from '../../src/textSources/quoteSource';
+import english200 from '../../src/data/english_200.json';
+
+export interface LeaderboardResult {
+  // Account id; only signed-in players are ranked
+  userId: string;
+  username: string;
+  group: string | null;
+  wpm: number;
+  accuracy: number;
+  time: number;
+}
+
+// Entries sent per board
+export const LEADERBOARD_SIZE = 50;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const getPeriodStart = (period: LeaderboardPeriod, now: number) => {
+  if (period === 'all-time') return 0;
+  const day = new Date(now);
+  day.setUTCHours(0, 0, 0, 0);
+  if (period === 'daily') return day.getTime();
+  // getUTCDay counts from Sunday; weeks start on Monday
+  return day.getTime() - ((day.getUTCDay() + 6) % 7) * DAY_MS;
+};
+
+const keyOf = (name: string) => name.trim().toLowerCase();
+
+// A trimmed team name, or null for no team
+export const cleanGroup = (group?: string) => group?.trim() || null;
+
+// Ranked on the average of each player's best bestOf results, so a single
+// lucky run isn't enough to top a board
+export const rankResults = (results: LeaderboardResult[], bestOf: number): LeaderboardEntry[] => {
+  const byPlayer = new Map<string, LeaderboardResult[]>();
+  results.forEach(result => {
+    byPlayer.set(result.userId, [...(byPlayer.get(result.userId) || []), result]);
+  });
+
+  return Array.from(byPlayer.values())
+    .map(playerResults => {
+      const best = [...playerResults].sort((a, b) => b.wpm - a.wpm || a.time - b.time).slice(0, bestOf);
+      const latest = playerResults.reduce((a, b) => (b.time > a.time ? b : a));
+      const average = best.reduce((sum, result) => sum + result.wpm, 0) / best.length;
+      return {
+        userId: latest.userId,
+        // Shows the name as of the player's latest result
+        username: latest.username,
+        group: latest.group,
+        score: Math.round(average * 10) / 10,
+        bestWpm: best[0].wpm,
+        accuracy: best[0].accuracy,
+        results: playerResults.length
+      };
+    })
+    .sort((a, b) => b.score - a.score || b.bestWpm - a.bestWpm)
+    .slice(0, LEADERBOARD_SIZE)
+    .map((entry, index) => ({ rank: index + 1, ...entry }));
+};
+
+// Results are kept in memory by account and team, like ratings
+export const createLeaderboardStore = (bestOf: number) => {
+  const results = new Map<LeaderboardMode, LeaderboardResult[]>();
+  const ownerOf = (result: LeaderboardResult) => `${result.userId}|${keyOf(result.group || '')}`;
+
+  return {
+    bestOf,
+    record: (mode: LeaderboardMode, result: LeaderboardResult) => {
+      const owner = ownerOf(result);
+      const all = results.get(mode) || [];
+      const mine = [...all.filter(other => ownerOf(other) === owner), result];
+      // Anything older than this week only matters if it is one of the player's all-time best
+      const allTimeBest = [...mine].sort((a, b) => b.wpm - a.wpm).slice(0, bestOf);
+      const weekStart = getPeriodStart('weekly', result.time);
+      results.set(mode, [
+        ...all.filter(other => ownerOf(other) !== owner),
+        ...mine.filter(other => other.time >= weekStart || allTimeBest.includes(other))
+      ]);
+    },
+    get: (mode: LeaderboardMode, period: LeaderboardPeriod, group: string | null, now = Date.now()): Leaderboard => {
+      const start = getPeriodStart(period, now);
+      const matching = (results.get(mode) || []).filter(result =>
+        result.time >= start && (!group || (result.group !== null && keyOf(result.group) === keyOf(group))));
+      return { mode, period, group, bestOf, entries: rankResults(matching, bestOf) };
+    }
+  };
+};
+
+export type LeaderboardStore = ReturnType<typeof createLeaderboardStore>;
+
+const QUOTE_TEXTS = new Set(QUOTES.map(quote => quote.text));
+const COMMON_WORDS = new Set<string>(english200);
+
+// Solo texts come from the client, so check they could have come from the
+// source the mode is ranked on: the quotes, or the 200 most common words
+export const isLeaderboardText = (mode: LeaderboardMode, text: string) => {
+  if (mode === 'quote') return QUOTE_TEXTS.has(text);
+  const words = text.split(' ');
+  if (!words.every(word => COMMON_WORDS.has(word))) return false;
+  return mode !== 'words-25' || words.length === 25;
+};
+
+// Seconds a timed mode runs for; null for modes that end with the text
+export const getModeDuration = (mode: LeaderboardMode) =>
+  mode === 'time-15' ? 15 : mode === 'time-60' ? 60 : null;
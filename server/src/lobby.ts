@@ -0,0 +1,209 @@
+import {
+  AntiCheatCode,
+  LobbyMatch,
+  LobbyState,
+  LobbyStatus,
+  ROOM_LIMITS,
+  RaceStats,
+  RaceUser,
+  RoomSettings,
+  Standing
+} from '../../src/protocol/events';
+import { calculateTypingStats } from '../../src/utils/stats';
+import { KeystrokeLog, createKeystrokeLog } from './antiCheat';
+
+export interface Player {
+  id: string;
+  // Null for guests, who race unrated and off the leaderboards
+  accountId: string | null;
+  username: string;
+  // Percent of the race text, kept alongside the cursor index it comes from
+  progress: number;
+  index: number;
+  joinedAt: number;
+  finishedAt?: number;
+  rank?: number;
+  stats?: RaceStats;
+  // Everything typed this race, rebuilt from the streamed keystrokes
+  log: KeystrokeLog;
+  disqualified?: AntiCheatCode;
+  // Disconnected but still inside the reconnect grace period
+  offline?: boolean;
+  // Net WPM as of the last progress update
+  wpm?: number;
+  rating?: number;
+  // Team their results count toward on the leaderboards
+  group: string | null;
+}
+
+export interface Lobby {
+  id: string;
+  // Invite code of a private room; null for public lobbies
+  code: string | null;
+  // Rating band a public lobby matches players from
+  ratingBand: string | null;
+  // The tournament match a room's heats count toward
+  match: { tournamentId: string; matchId: string } | null;
+  hostId: string | null;
+  settings: RoomSettings;
+  status: LobbyStatus;
+  countdown: number;
+  players: Map<string, Player>;
+  // Signed-in players as the race started, kept so leaving cannot dodge the rating
+  ratedPlayers: Player[];
+  // Player ids of everyone watching
+  spectators: Set<string>;
+  raceText: string;
+  startTime: number | null;
+  timers: {
+    countdown?: ReturnType<typeof setInterval>;
+    timeLimit?: ReturnType<typeof setTimeout>;
+  };
+}
+
+export const createLobby = (
+  id: string,
+  settings: RoomSettings,
+  code: string | null = null,
+  ratingBand: string | null = null,
+  match: Lobby['match'] = null
+): Lobby => ({
+  id,
+  code,
+  ratingBand,
+  match,
+  hostId: null,
+  settings,
+  status: 'waiting',
+  countdown: 0,
+  players: new Map(),
+  ratedPlayers: [],
+  spectators: new Set(),
+  raceText: '',
+  startTime: null,
+  timers: {}
+});
+
+// No 0/O or 1/I so codes can be read out loud
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const ROOM_CODE_LENGTH = 6;
+
+export const generateRoomCode = (random: () => number = Math.random) => {
+  let code = '';
+  for (let i = 0; i < ROOM_CODE_LENGTH; i++) {
+    code += ROOM_CODE_ALPHABET[Math.floor(random() * ROOM_CODE_ALPHABET.length)];
+  }
+  return code;
+};
+
+export const checkRoomSettings = (settings: RoomSettings, playerCount = 0) => {
+  const { maxPlayers, countdownSeconds } = settings;
+  if (!Number.isInteger(maxPlayers) || maxPlayers < ROOM_LIMITS.minPlayers || maxPlayers > ROOM_LIMITS.maxPlayers) {
+    return `Rooms hold ${ROOM_LIMITS.minPlayers} to ${ROOM_LIMITS.maxPlayers} players.`;
+  }
+  if (maxPlayers < playerCount) {
+    return `There are already ${playerCount} players in this room.`;
+  }
+  if (!Number.isInteger(countdownSeconds) || countdownSeconds < ROOM_LIMITS.minCountdown || countdownSeconds > ROOM_LIMITS.maxCountdown) {
+    return `The countdown must be ${ROOM_LIMITS.minCountdown} to ${ROOM_LIMITS.maxCountdown} seconds.`;
+  }
+  return null;
+};
+
+// Only lobbies that haven't started racing take new players
+export const isJoinable = (lobby: Lobby) =>
+  (lobby.status === 'waiting' || lobby.status === 'countdown') && lobby.players.size < lobby.settings.maxPlayers;
+
+// The longest-standing player takes over when the host leaves
+export const getEarliestPlayer = (lobby: Lobby) =>
+  Array.from(lobby.players.values()).sort((a, b) => a.joinedAt - b.joinedAt)[0];
+
+export const clearLobbyTimers = (lobby: Lobby) => {
+  if (lobby.timers.countdown) clearInterval(lobby.timers.countdown);
+  if (lobby.timers.timeLimit) clearTimeout(lobby.timers.timeLimit);
+  lobby.timers = {};
+};
+
+export const toRaceUser = (player: Player): RaceUser => ({
+  id: player.id,
+  username: player.username,
+  progress: player.progress,
+  index: player.index,
+  finished: player.rank !== undefined,
+  rank: player.rank,
+  stats: player.stats,
+  disqualified: player.disqualified !== undefined,
+  offline: player.offline,
+  wpm: player.wpm,
+  rating: player.rating
+});
+
+export const toLobbyState = (lobby: Lobby, match: LobbyMatch | null = null): LobbyState => ({
+  users: Array.from(lobby.players.values())
+    .sort((a, b) => a.joinedAt - b.joinedAt)
+    .map(toRaceUser),
+  countdown: lobby.countdown,
+  status: lobby.status,
+  code: lobby.code,
+  hostId: lobby.hostId,
+  settings: lobby.settings,
+  spectators: lobby.spectators.size,
+  ratingBand: lobby.ratingBand,
+  match
+});
+
+// Private rooms stay open between races so the same group can go again
+export const resetLobby = (lobby: Lobby) => {
+  lobby.status = 'waiting';
+  lobby.countdown = 0;
+  lobby.raceText = '';
+  lobby.startTime = null;
+  lobby.ratedPlayers = [];
+  lobby.players.forEach(player => {
+    player.progress = 0;
+    player.index = 0;
+    player.finishedAt = undefined;
+    player.rank = undefined;
+    player.stats = undefined;
+    player.log = createKeystrokeLog();
+    player.disqualified = undefined;
+    player.wpm = undefined;
+  });
+};
+
+// Timed from the start signal, like the final result. Client clocks can run a
+// little ahead of ours, so the latest keystroke counts as now if it is later.
+export const getLiveWpm = (player: Player, raceText: string, startTime: number, now = Date.now()) => {
+  const { keystrokes } = player.log;
+  const lastTimestamp = keystrokes.length > 0 ? keystrokes[keystrokes.length - 1].timestamp : 0;
+  return calculateTypingStats({
+    target: raceText,
+    typed: player.log.typed,
+    keystrokes,
+    startTime,
+    endTime: Math.max(now, lastTimestamp)
+  }).wpm;
+};
+
+// Higher is further along; -1 for a finished race, which can't be watched
+export const getWatchablePriority = (lobby: Lobby) =>
+  ['waiting', 'countdown', 'racing'].indexOf(lobby.status);
+
+export const getFinishedPlayers = (lobby: Lobby) =>
+  Array.from(lobby.players.values()).filter(player => player.rank !== undefined);
+
+// Disqualified players are out of the race, so they don't hold up its end
+export const getUnfinishedPlayers = (lobby: Lobby) =>
+  Array.from(lobby.players.values()).filter(player => player.rank === undefined && player.disqualified === undefined);
+
+export const getStandings = (lobby: Lobby): Standing[] =>
+  getFinishedPlayers(lobby)
+    .sort((a, b) => (a.rank || 0) - (b.rank || 0))
+    .map(player => ({
+      rank: player.rank || 0,
+      userId: player.id,
+      username: player.username,
+      wpm: player.stats?.wpm || 0,
+      accuracy: player.stats?.accuracy || 0,
+      timeTaken: player.stats?.timeTaken || 0
+    }));
@@ -0,0 +1,812 @@
+import { createServer, Server as HttpServer } from 'http';
+import { AddressInfo } from 'net';
+import { Server } from 'socket.io';
+import { io as connect, Socket } from 'socket.io-client';
+import { ClientToServerEvents, PROTOCOL_VERSION, ServerToClientEvents, SessionInfo } from '../../src/protocol/events';
+import { RaceIO, attachRaceServer } from './raceServer';
+
+type ClientSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+const RACE_TEXT = 'the quick brown fox';
+
+let httpServer: HttpServer;
+let io: RaceIO;
+let url: string;
+let race: ReturnType<typeof attachRaceServer>;
+let clients: ClientSocket[] = [];
+const sessions = new Map<ClientSocket, SessionInfo>();
+
+const setup = (overrides = {}) =>
+  new Promise<ReturnType<typeof attachRaceServer>>(resolve => {
+    httpServer = createServer();
+    io = new Server(httpServer);
+    race = attachRaceServer(io, {
+      publicSettings: { textSource: 'quotes', maxPlayers: 6, countdownSeconds: 1, chatWhileRacing: true },
+      tickMs: 20,
+      raceTimeLimitMs: 2000,
+      reconnectGraceMs: 1000,
+      pickText: () => RACE_TEXT,
+      ...overrides
+    });
+    httpServer.listen(0, () => {
+      url = `http://localhost:${(httpServer.address() as AddressInfo).port}`;
+      resolve(race);
+    });
+  });
+
+// Resolves once the server has bound the connection to a session
+const connectClient = async (sessionToken?: string, authToken?: string) => {
+  const client: ClientSocket = connect(url, {
+    transports: ['websocket'],
+    forceNew: true,
+    auth: { protocolVersion: PROTOCOL_VERSION, sessionToken, authToken }
+  });
+  clients.push(client);
+  sessions.set(client, await new Promise<SessionInfo>(resolve => client.once('session', resolve)));
+  return client;
+};
+
+const playerIdOf = (client: ClientSocket) => sessions.get(client)!.playerId;
+
+const join = async (username: string, roomCode?: string) => {
+  const client = await connectClient();
+  client.emit('joinLobby', { username, roomCode });
+  return client;
+};
+
+const PASSWORD = 'correct horse';
+
+// Registers an account on a fresh connection, which signs that connection in
+const signUp = async (username: string) => {
+  const client = await connectClient();
+  const signedIn = next(client, 'signedIn');
+  client.emit('register', { username, password: PASSWORD });
+  return { client, ...(await signedIn) };
+};
+
+// Streams the whole race text with a steady gap between keys
+const typeRace = (client: ClientSocket, msPerKey: number) => {
+  client.emit('keystrokes', {
+    keystrokes: RACE_TEXT.split('').map((key, i) => ({ key, isBackspace: false, time: (i + 1) * msPerKey }))
+  });
+};
+
+const ROOM_SETTINGS = { textSource: 'quotes-short' as const, maxPlayers: 2, countdownSeconds: 3, chatWhileRacing: true };
+
+const createRoom = async (username: string) => {
+  const client = await connectClient();
+  const state = next(client, 'lobbyState');
+  client.emit('createRoom', { username, settings: ROOM_SETTINGS });
+  return { host: client, state: await state };
+};
+
+type Payload<E extends keyof ServerToClientEvents> = Parameters<ServerToClientEvents[E]>[0];
+
+// Listening under the name widened to every server event lets a listener typed
+// for one event through, where the socket's own overloads cannot tell which one E is
+const next = <E extends keyof ServerToClientEvents>(client: ClientSocket, event: E) =>
+  new Promise<Payload<E>>(resolve => {
+    const name: keyof ServerToClientEvents = event;
+    client.once(name, (data: Payload<E>) => resolve(data));
+  });
+
+const waitFor = <E extends keyof ServerToClientEvents>(
+  client: ClientSocket,
+  event: E,
+  predicate: (data: Payload<E>) => boolean
+) =>
+  new Promise<Payload<E>>(resolve => {
+    const name: keyof ServerToClientEvents = event;
+    const listener = (data: Payload<E>) => {
+      if (predicate(data)) {
+        client.off(name, listener);
+        resolve(data);
+      }
+    };
+    client.on(name, listener);
+  });
+
+afterEach(async () => {
+  clients.forEach(client => client.close());
+  clients = [];
+  sessions.clear();
+  race.close();
+  io.close();
+  await new Promise(resolve => httpServer.close(resolve));
+});
+
+test('starts a countdown once two players join, then sends the race text', async () => {
+  await setup();
+  const alice = await join('alice');
+  const started = next(alice, 'raceStart');
+  await join('bob');
+
+  const start = await started;
+  expect(start.raceText).toBe(RACE_TEXT);
+  expect(typeof start.startTime).toBe('number');
+});
+
+test('relays progress and ranks players in finishing order', async () => {
+  await setup();
+  const alice = await join('alice');
+  const aliceStarted = next(alice, 'raceStart');
+  const bob = await join('bob');
+  await aliceStarted;
+
+  typeRace(alice, 60);
+  const progress = next(bob, 'opponentProgress');
+  alice.emit('progressUpdate', { index: 40 });
+  expect(await progress).toEqual({ userId: playerIdOf(alice), index: RACE_TEXT.length, wpm: 200 });
+
+  const aliceFinished = next(alice, 'userFinished');
+  const bobSawAlice = next(bob, 'opponentFinished');
+  alice.emit('raceFinished', { finalWPM: 999, finalAccuracy: 100, timeTaken: 1 });
+  expect((await aliceFinished).rank).toBe(1);
+  expect((await bobSawAlice).username).toBe('alice');
+
+  const results = next(alice, 'raceResults');
+  typeRace(bob, 100);
+  bob.emit('raceFinished', { finalWPM: 60, finalAccuracy: 92, timeTaken: 15 });
+  const { results: standings, finished } = await results;
+  expect(finished).toBe(true);
+  // Stats come from the keystrokes: 19 characters in 1.14s and 1.9s
+  expect(standings.map(s => [s.rank, s.username, s.wpm, s.timeTaken])).toEqual([[1, 'alice', 200, 1.14], [2, 'bob', 120, 1.9]]);
+});
+
+test('ends the race at the time limit and lists unfinished players', async () => {
+  await setup({ raceTimeLimitMs: 100 });
+  const alice = await join('alice');
+  const started = next(alice, 'raceStart');
+  await join('bob');
+  await started;
+
+  const timeout = next(alice, 'raceTimeout');
+  const results = next(alice, 'raceResults');
+  typeRace(alice, 5);
+  alice.emit('raceFinished', { finalWPM: 50, finalAccuracy: 100, timeTaken: 0.05 });
+
+  expect((await timeout).unfinishedUsers).toEqual(['bob']);
+  expect((await results).finished).toBe(false);
+});
+
+test('puts the seventh player in a new lobby', async () => {
+  await setup({ minPlayers: 10 });
+  for (let i = 0; i < 7; i++) {
+    const client = await join(`player${i}`);
+    await next(client, 'lobbyState');
+  }
+  expect(race.getLobbies().map(lobby => lobby.players.size)).toEqual([6, 1]);
+});
+
+test('returns to waiting when the countdown loses its second player', async () => {
+  await setup({ publicSettings: { textSource: 'quotes', maxPlayers: 6, countdownSeconds: 100, chatWhileRacing: true } });
+  await join('alice');
+  const bob = await join('bob');
+  await next(bob, 'lobbyState');
+
+  bob.emit('leaveLobby');
+  await new Promise(resolve => setTimeout(resolve, 50));
+  expect(race.getLobbies()[0].status).toBe('waiting');
+});
+
+test('rejects invalid usernames and out-of-race messages', async () => {
+  await setup();
+  const client = await join('   ');
+  expect((await next(client, 'lobbyError')).code).toBe('INVALID_USERNAME');
+
+  const error = next(client, 'raceError');
+  client.emit('progressUpdate', { index: 10 });
+  expect((await error).code).toBe('NOT_RACING');
+});
+
+test('rejects malformed payloads with a clear code', async () => {
+  await setup();
+  const client = await join('alice');
+  await next(client, 'lobbyState');
+
+  const error = next(client, 'raceError');
+  client.emit('progressUpdate', { index: 'lots' as unknown as number });
+  expect(await error).toEqual({ message: 'progressUpdate.index should be a finite number, got string', code: 'INVALID_PAYLOAD' });
+});
+
+test('refuses clients on another protocol version', async () => {
+  await setup();
+  const client: ClientSocket = connect(url, { transports: ['websocket'], forceNew: true, auth: { protocolVersion: 0 } });
+  clients.push(client);
+
+  const error = await new Promise<Error & { data?: { code: string } }>(resolve => client.on('connect_error', resolve));
+  expect(error.data?.code).toBe('PROTOCOL_MISMATCH');
+});
+
+test('creates a private room that others join by code', async () => {
+  await setup();
+  const { host, state } = await createRoom('alice');
+  expect(state.code).toMatch(/^[A-Z2-9]{6}$/);
+  expect(state.hostId).toBe(playerIdOf(host));
+  expect(state.settings).toEqual(ROOM_SETTINGS);
+
+  const hostSees = next(host, 'lobbyState');
+  await join('bob', state.code!.toLowerCase());
+  const updated = await hostSees;
+  expect(updated.users.map(user => user.username)).toEqual(['alice', 'bob']);
+  // Private rooms don't start on their own
+  expect(updated.status).toBe('waiting');
+
+  const full = await join('carol', state.code!);
+  expect((await next(full, 'lobbyError')).code).toBe('ROOM_FULL');
+});
+
+test('lets only the host change settings and start the race', async () => {
+  let picked = '';
+  await setup({ pickText: (source: string) => { picked = source; return RACE_TEXT; } });
+  const { host, state } = await createRoom('alice');
+  const guest = await join('bob', state.code!);
+  await next(guest, 'lobbyState');
+
+  const refused = next(guest, 'lobbyError');
+  guest.emit('startRace');
+  expect((await refused).code).toBe('NOT_HOST');
+
+  const invalid = next(host, 'lobbyError');
+  host.emit('updateRoomSettings', { ...ROOM_SETTINGS, maxPlayers: 1 });
+  expect((await invalid).code).toBe('INVALID_SETTINGS');
+
+  const changed = next(guest, 'lobbyState');
+  host.emit('updateRoomSettings', { ...ROOM_SETTINGS, textSource: 'quotes-long', countdownSeconds: 3 });
+  expect((await changed).settings.textSource).toBe('quotes-long');
+
+  const started = next(guest, 'raceStart');
+  host.emit('startRace');
+  await started;
+  expect(picked).toBe('quotes-long');
+});
+
+test('hands the room to the next player when the host leaves', async () => {
+  await setup();
+  const { host, state } = await createRoom('alice');
+  const guest = await join('bob', state.code!);
+  await next(guest, 'lobbyState');
+
+  const handedOver = next(guest, 'lobbyState');
+  host.emit('leaveLobby');
+  expect((await handedOver).hostId).toBe(playerIdOf(guest));
+});
+
+test('reports unknown room codes', async () => {
+  await setup();
+  const client = await join('alice', 'NOPE42');
+  expect((await next(client, 'lobbyError')).code).toBe('ROOM_NOT_FOUND');
+});
+
+describe('spectators', () => {
+  test('watch a full room without taking a place or typing', async () => {
+    await setup();
+    const { host, state } = await createRoom('alice');
+    const guest = await join('bob', state.code!);
+    await next(guest, 'lobbyState');
+
+    const watcher = await connectClient();
+    const watching = next(watcher, 'lobbyState');
+    watcher.emit('spectate', { roomCode: state.code! });
+    const seen = await watching;
+    expect(seen.users.map(user => user.username)).toEqual(['alice', 'bob']);
+    expect(seen.spectators).toBe(1);
+
+    const started = next(watcher, 'raceStart');
+    host.emit('startRace');
+    await started;
+
+    watcher.emit('progressUpdate', { index: 5 });
+    const progress = next(watcher, 'opponentProgress');
+    typeRace(host, 60);
+    host.emit('progressUpdate', { index: RACE_TEXT.length });
+    expect(await progress).toMatchObject({ userId: playerIdOf(host), index: RACE_TEXT.length });
+
+    const results = next(watcher, 'raceResults');
+    host.emit('raceFinished', { finalWPM: 200, finalAccuracy: 100, timeTaken: 1.14 });
+    typeRace(guest, 100);
+    guest.emit('raceFinished', { finalWPM: 120, finalAccuracy: 100, timeTaken: 1.9 });
+    expect((await results).results.map(standing => standing.username)).toEqual(['alice', 'bob']);
+  });
+
+  test('are told when there is nothing public to watch', async () => {
+    await setup();
+    const watcher = await connectClient();
+    const error = next(watcher, 'lobbyError');
+    watcher.emit('spectate', {});
+    expect((await error).code).toBe('NO_PUBLIC_RACE');
+  });
+});
+
+describe('chat', () => {
+  const joinRoom = async () => {
+    const { host, state } = await createRoom('alice');
+    const guest = await join('bob', state.code!);
+    await next(guest, 'lobbyState');
+    return { host, guest };
+  };
+
+  test('relays messages with blocked words masked', async () => {
+    await setup();
+    const { host, guest } = await joinRoom();
+
+    const received = next(guest, 'chatMessage');
+    const notice = next(host, 'lobbyError');
+    host.emit('chatMessage', { text: '  gl hf, no sh1t talk ' });
+    expect(await received).toMatchObject({ userId: playerIdOf(host), username: 'alice', text: 'gl hf, no **** talk' });
+    expect((await notice).code).toBe('CHAT_FILTERED');
+  });
+
+  test('slows down anyone sending too much', async () => {
+    await setup();
+    const { host } = await joinRoom();
+
+    const limited = next(host, 'lobbyError');
+    for (let i = 0; i < 6; i++) {
+      host.emit('chatMessage', { text: `message ${i}` });
+    }
+    expect((await limited).code).toBe('CHAT_RATE_LIMITED');
+  });
+
+  test('keeps quiet during the race when the room turns chat off', async () => {
+    await setup();
+    const { host, guest } = await joinRoom();
+    host.emit('updateRoomSettings', { ...ROOM_SETTINGS, chatWhileRacing: false });
+    await waitFor(guest, 'lobbyState', state => !state.settings.chatWhileRacing);
+
+    const started = next(guest, 'raceStart');
+    host.emit('startRace');
+    await started;
+
+    const refused = next(guest, 'lobbyError');
+    guest.emit('reaction', { emoji: '🔥' });
+    expect((await refused).code).toBe('CHAT_DISABLED');
+  });
+
+  test('relays reactions during the race', async () => {
+    await setup();
+    const alice = await join('alice');
+    const started = next(alice, 'raceStart');
+    const bob = await join('bob');
+    await started;
+
+    const reaction = next(alice, 'reaction');
+    bob.emit('reaction', { emoji: '👏' });
+    expect(await reaction).toEqual({ userId: playerIdOf(bob), username: 'bob', emoji: '👏' });
+  });
+
+  test('leaves spectators out of the conversation', async () => {
+    await setup();
+    const { state } = await createRoom('alice');
+    const watcher = await connectClient();
+    watcher.emit('spectate', { roomCode: state.code! });
+    await next(watcher, 'lobbyState');
+
+    const refused = next(watcher, 'lobbyError');
+    watcher.emit('chatMessage', { text: 'hello' });
+    expect((await refused).code).toBe('CHAT_NOT_IN_LOBBY');
+  });
+});
+
+describe('reconnect', () => {
+  // Attaches listeners before connecting, since the server resumes straight away
+  const reconnect = (token: string) => {
+    const client: ClientSocket = connect(url, {
+      transports: ['websocket'],
+      forceNew: true,
+      auth: { protocolVersion: PROTOCOL_VERSION, sessionToken: token }
+    });
+    clients.push(client);
+    return { session: next(client, 'session'), resumed: next(client, 'resumeRace') };
+  };
+
+  test('resumes a race where the player left off', async () => {
+    await setup();
+    const alice = await join('alice');
+    const started = next(alice, 'raceStart');
+    const bob = await join('bob');
+    await started;
+
+    const seen = next(bob, 'opponentProgress');
+    alice.emit('keystrokes', { keystrokes: 'the q'.split('').map((key, i) => ({ key, isBackspace: false, time: (i + 1) * 50 })) });
+    alice.emit('progressUpdate', { index: 5 });
+    await seen;
+
+    const offline = waitFor(bob, 'lobbyState', state => state.users.some(user => user.offline));
+    const { token, playerId } = sessions.get(alice)!;
+    alice.close();
+    expect((await offline).users.find(user => user.id === playerId)?.username).toBe('alice');
+
+    const back = waitFor(bob, 'lobbyState', state => state.users.every(user => !user.offline));
+    const { session, resumed } = reconnect(token);
+    expect((await session).playerId).toBe(playerId);
+    const resume = await resumed;
+    expect(resume.raceText).toBe(RACE_TEXT);
+    expect(resume.keystrokes.map(k => k.key).join('')).toBe('the q');
+    expect(resume.keystrokes[4].time).toBe(250);
+    expect(resume.elapsed).toBeGreaterThan(0);
+    expect(resume.rank).toBeNull();
+    expect(resume.lobby.users.find(user => user.id === playerId)?.index).toBe(5);
+    await back;
+  });
+
+  test('drops a player who does not come back in time', async () => {
+    await setup({ reconnectGraceMs: 100 });
+    const { host, state } = await createRoom('alice');
+    const guest = await join('bob', state.code!);
+    await next(guest, 'lobbyState');
+
+    const offline = next(host, 'lobbyState');
+    const gone = waitFor(host, 'lobbyState', update => update.users.length === 1);
+    guest.close();
+    expect((await offline).users.map(user => [user.username, user.offline])).toEqual([['alice', undefined], ['bob', true]]);
+    expect((await gone).users[0].username).toBe('alice');
+
+    // The expired token no longer leads back to the room
+    const { session } = reconnect(sessions.get(guest)!.token);
+    expect((await session).playerId).not.toBe(playerIdOf(guest));
+  });
+
+  test('removes players straight away without a grace period', async () => {
+    await setup({ reconnectGraceMs: 0 });
+    const { host, state } = await createRoom('alice');
+    const guest = await join('bob', state.code!);
+    await next(guest, 'lobbyState');
+
+    const left = next(host, 'lobbyState');
+    guest.close();
+    expect((await left).users.map(user => user.username)).toEqual(['alice']);
+  });
+});
+
+describe('anti-cheat', () => {
+  const startRace = async () => {
+    await setup();
+    const alice = await join('alice');
+    const started = next(alice, 'raceStart');
+    const bob = await join('bob');
+    await started;
+    return { alice, bob };
+  };
+
+  test('rejects pasted text and drops the player from the standings', async () => {
+    const { alice, bob } = await startRace();
+
+    const error = next(alice, 'raceError');
+    alice.emit('keystrokes', { keystrokes: RACE_TEXT.split('').map(key => ({ key, isBackspace: false, time: 500 })) });
+    alice.emit('raceFinished', { finalWPM: 80, finalAccuracy: 100, timeTaken: 0.5 });
+    expect((await error).code).toBe('PASTE_BURST');
+
+    const results = next(bob, 'raceResults');
+    typeRace(bob, 100);
+    bob.emit('raceFinished', { finalWPM: 120, finalAccuracy: 100, timeTaken: 1.9 });
+    expect((await results).results.map(s => s.username)).toEqual(['bob']);
+  });
+
+  test('rejects progress that runs ahead of the keystrokes', async () => {
+    const { alice, bob } = await startRace();
+
+    const error = next(alice, 'raceError');
+    const disqualified = waitFor(bob, 'lobbyState', state => state.users.some(user => user.disqualified));
+    alice.emit('keystrokes', { keystrokes: [{ key: 't', isBackspace: false, time: 100 }] });
+    alice.emit('progressUpdate', { index: 12 });
+    expect((await error).code).toBe('PROGRESS_JUMP');
+    expect((await disqualified).users.filter(user => user.disqualified).map(user => user.username)).toEqual(['alice']);
+  });
+
+  test('rejects a finish before the end of the text', async () => {
+    const { alice } = await startRace();
+
+    const error = next(alice, 'raceError');
+    alice.emit('keystrokes', { keystrokes: [{ key: 't', isBackspace: false, time: 100 }] });
+    alice.emit('raceFinished', { finalWPM: 80, finalAccuracy: 100, timeTaken: 1 });
+    expect((await error).code).toBe('INCOMPLETE_TEXT');
+  });
+});
+
+describe('ratings', () => {
+  test('rate a public race and carry over to the next lobby', async () => {
+    await setup({ raceTimeLimitMs: 1500 });
+    const alice = await signUp('Alice');
+    alice.client.emit('joinLobby', {});
+    const started = next(alice.client, 'raceStart');
+    const bob = await signUp('bob');
+    bob.client.emit('joinLobby', {});
+    await started;
+
+    const results = next(alice.client, 'raceResults');
+    typeRace(alice.client, 60);
+    alice.client.emit('raceFinished', { finalWPM: 200, finalAccuracy: 100, timeTaken: 1.14 });
+    // Bob runs out of time, which counts as finishing behind alice
+    expect((await results).ratingChanges).toEqual([
+      { userId: playerIdOf(alice.client), username: 'Alice', before: 1200, after: 1220 },
+      { userId: playerIdOf(bob.client), username: 'bob', before: 1200, after: 1180 }
+    ]);
+    expect(race.ratings.get(alice.account.id)).toEqual({ rating: 1220, games: 1 });
+
+    const state = waitFor(alice.client, 'lobbyState', lobby => lobby.status === 'waiting');
+    alice.client.emit('joinLobby', {});
+    expect((await state).users.map(user => user.rating)).toEqual([1220]);
+  });
+
+  test('rate a player who leaves mid-race as placing last', async () => {
+    await setup({ raceTimeLimitMs: 1500 });
+    const alice = await signUp('Alice');
+    alice.client.emit('joinLobby', {});
+    const started = next(alice.client, 'raceStart');
+    const bob = await signUp('bob');
+    bob.client.emit('joinLobby', {});
+    await started;
+
+    const results = next(alice.client, 'raceResults');
+    const left = waitFor(alice.client, 'lobbyState', lobby => lobby.users.length === 1);
+    bob.client.emit('leaveLobby');
+    await left;
+    typeRace(alice.client, 60);
+    alice.client.emit('raceFinished', { finalWPM: 200, finalAccuracy: 100, timeTaken: 1.14 });
+    expect((await results).ratingChanges).toEqual([
+      { userId: playerIdOf(alice.client), username: 'Alice', before: 1200, after: 1220 },
+      { userId: playerIdOf(bob.client), username: 'bob', before: 1200, after: 1180 }
+    ]);
+    expect(race.ratings.get(bob.account.id)).toEqual({ rating: 1180, games: 1 });
+  });
+
+  test('leave guests unrated', async () => {
+    await setup({ raceTimeLimitMs: 1500 });
+    const alice = await signUp('alice');
+    alice.client.emit('joinLobby', {});
+    const started = next(alice.client, 'raceStart');
+    const guest = await join('bob');
+    await started;
+
+    const results = next(alice.client, 'raceResults');
+    typeRace(alice.client, 60);
+    alice.client.emit('raceFinished', { finalWPM: 200, finalAccuracy: 100, timeTaken: 1.14 });
+    expect((await results).ratingChanges).toBeUndefined();
+    expect(race.ratings.get(alice.account.id).games).toBe(0);
+    expect(guest.connected).toBe(true);
+  });
+
+  test('match players within their rating band', async () => {
+    await setup();
+    const pro = await signUp('pro');
+    race.ratings.set(pro.account.id, { rating: 1600, games: 40 });
+    pro.client.emit('joinLobby', {});
+    const proState = await next(pro.client, 'lobbyState');
+    const alice = await join('alice');
+    const aliceState = await next(alice, 'lobbyState');
+
+    expect([proState.ratingBand, aliceState.ratingBand]).toEqual(['Platinum', 'Silver']);
+    expect(race.getLobbies().map(lobby => lobby.players.size)).toEqual([1, 1]);
+  });
+
+  test('leave private rooms unrated', async () => {
+    await setup();
+    const alice = await signUp('alice');
+    const hostState = next(alice.client, 'lobbyState');
+    alice.client.emit('createRoom', { settings: ROOM_SETTINGS });
+    const state = await hostState;
+    expect(state.ratingBand).toBeNull();
+    const bob = await signUp('bob');
+    bob.client.emit('joinLobby', { roomCode: state.code! });
+    await next(bob.client, 'lobbyState');
+
+    const host = alice.client;
+    const started = next(host, 'raceStart');
+    host.emit('startRace');
+    await started;
+    const results = next(host, 'raceResults');
+    typeRace(host, 60);
+    host.emit('raceFinished', { finalWPM: 200, finalAccuracy: 100, timeTaken: 1.14 });
+    typeRace(bob.client, 100);
+    bob.client.emit('raceFinished', { finalWPM: 120, finalAccuracy: 100, timeTaken: 1.9 });
+    expect((await results).ratingChanges).toBeUndefined();
+  });
+});
+
+describe('leaderboards', () => {
+  const QUOTE = 'Brevity is the soul of wit.';
+
+  const getLeaderboard = async (client: ClientSocket, group?: string) => {
+    const board = next(client, 'leaderboard');
+    client.emit('getLeaderboard', { mode: 'quote', period: 'daily', group });
+    return board;
+  };
+
+  const quoteKeystrokes = (text: string, msPerKey: number) =>
+    text.split('').map((key, i) => ({ key, isBackspace: false, time: i * msPerKey }));
+
+  test('rank signed-in race finishers and checked solo results per team', async () => {
+    await setup();
+    const alice = await signUp('alice');
+    alice.client.emit('joinLobby', { group: 'Acme' });
+    const started = next(alice.client, 'raceStart');
+    const bob = await connectClient();
+    bob.emit('joinLobby', { username: 'bob', group: 'Acme' });
+    await started;
+    const finished = next(alice.client, 'userFinished');
+    typeRace(alice.client, 60);
+    alice.client.emit('raceFinished', { finalWPM: 200, finalAccuracy: 100, timeTaken: 1.14 });
+    await finished;
+    const bobFinished = next(bob, 'userFinished');
+    typeRace(bob, 100);
+    bob.emit('raceFinished', { finalWPM: 120, finalAccuracy: 100, timeTaken: 1.9 });
+    await bobFinished;
+
+    const carol = await signUp('carol');
+    const recorded = next(carol.client, 'resultRecorded');
+    carol.client.emit('submitResult', { group: 'acme', mode: 'quote', text: QUOTE, keystrokes: quoteKeystrokes(QUOTE, 100) });
+    // 27 characters in 2.6 seconds
+    expect(await recorded).toEqual({ mode: 'quote', wpm: 125, accuracy: 100 });
+
+    // Bob raced as a guest, so he isn't ranked
+    const board = await getLeaderboard(carol.client, 'ACME');
+    expect(board.entries.map(entry => [entry.rank, entry.userId, entry.username, entry.group, entry.score])).toEqual([
+      [1, alice.account.id, 'alice', 'Acme', 200],
+      [2, carol.account.id, 'carol', 'acme', 125]
+    ]);
+    expect(board.bestOf).toBe(3);
+  });
+
+  test('ask guests to sign in before submitting', async () => {
+    await setup();
+    const guest = await connectClient();
+    const error = next(guest, 'accountError');
+    guest.emit('submitResult', { mode: 'quote', text: QUOTE, keystrokes: quoteKeystrokes(QUOTE, 100) });
+    expect((await error).code).toBe('NOT_SIGNED_IN');
+  });
+
+  test('refuse solo results on other texts or with pasted keystrokes', async () => {
+    await setup();
+    const { client } = await signUp('mallory');
+    const submit = (text: string, msPerKey: number) => {
+      const error = next(client, 'raceError');
+      client.emit('submitResult', { mode: 'quote', text, keystrokes: quoteKeystrokes(text, msPerKey) });
+      return error;
+    };
+
+    expect((await submit('brevity', 100)).code).toBe('UNRANKED_TEXT');
+    expect((await submit(QUOTE, 1)).code).toBe('PASTE_BURST');
+    expect((await getLeaderboard(client)).entries).toEqual([]);
+  });
+});
+
+describe('accounts', () => {
+  test('sign in on another connection and refuse wrong passwords or taken names', async () => {
+    await setup();
+    const { account } = await signUp('alice');
+
+    const client = await connectClient();
+    const wrong = next(client, 'accountError');
+    client.emit('signIn', { username: 'alice', password: 'wrong password' });
+    expect(await wrong).toEqual({ message: 'Wrong username or password.', code: 'INVALID_CREDENTIALS' });
+
+    const taken = next(client, 'accountError');
+    client.emit('register', { username: 'ALICE', password: PASSWORD });
+    expect((await taken).code).toBe('USERNAME_TAKEN');
+
+    const signedIn = next(client, 'signedIn');
+    client.emit('signIn', { username: 'Alice', password: PASSWORD });
+    expect((await signedIn).account).toEqual(account);
+  });
+
+  test('race under the account name, including after reconnecting with its token', async () => {
+    await setup();
+    const { authToken } = await signUp('alice');
+
+    const client = await connectClient(undefined, authToken);
+    const state = next(client, 'lobbyState');
+    client.emit('joinLobby', { username: 'mallory' });
+    expect((await state).users.map(user => user.username)).toEqual(['alice']);
+  });
+
+  test('sign out, and forget tokens the server no longer knows', async () => {
+    await setup();
+    const { client, authToken } = await signUp('alice');
+    const signedOut = next(client, 'signedOut');
+    client.emit('signOut');
+    await signedOut;
+
+    const stale: ClientSocket = connect(url, {
+      transports: ['websocket'],
+      forceNew: true,
+      auth: { protocolVersion: PROTOCOL_VERSION, authToken }
+    });
+    clients.push(stale);
+    await next(stale, 'signedOut');
+    const error = next(stale, 'accountError');
+    stale.emit('submitResult', { mode: 'quote', text: 'Brevity is the soul of wit.', keystrokes: [] });
+    expect((await error).code).toBe('NOT_SIGNED_IN');
+  });
+
+  test('tell apart players who share a name', async () => {
+    await setup();
+    const first = await join('alice');
+    const started = next(first, 'raceStart');
+    const second = await join('alice');
+    await started;
+
+    const results = next(first, 'raceResults');
+    typeRace(first, 60);
+    first.emit('raceFinished', { finalWPM: 200, finalAccuracy: 100, timeTaken: 1.14 });
+    typeRace(second, 100);
+    second.emit('raceFinished', { finalWPM: 120, finalAccuracy: 100, timeTaken: 1.9 });
+    expect((await results).results.map(standing => [standing.userId, standing.username])).toEqual([
+      [playerIdOf(first), 'alice'],
+      [playerIdOf(second), 'alice']
+    ]);
+  });
+});
+
+describe('tournaments', () => {
+  // alice runs a two-player cup and enters it along with bob
+  const runTournament = async (bestOf: number) => {
+    await setup();
+    const alice = await signUp('alice');
+    const bob = await signUp('bob');
+    const created = next(alice.client, 'tournamentState');
+    alice.client.emit('createTournament', { name: 'Spring Cup', format: 'single-elimination', bestOf, textSource: 'quotes' });
+    const { id } = await created;
+
+    const entered = waitFor(alice.client, 'tournamentState', tournament => tournament.entrants.length === 2);
+    alice.client.emit('joinTournament', { tournamentId: id });
+    bob.client.emit('joinTournament', { tournamentId: id });
+    await entered;
+
+    const started = waitFor(bob.client, 'tournamentState', tournament => tournament.status === 'running');
+    alice.client.emit('startTournament', { tournamentId: id });
+    return { alice, bob, tournament: await started };
+  };
+
+  test('seed entrants and open a room for each ready match', async () => {
+    const { alice, tournament } = await runTournament(1);
+    expect(tournament).toMatchObject({ name: 'Spring Cup', adminId: alice.account.id, rounds: 1 });
+    expect(tournament.matches).toHaveLength(1);
+    expect(tournament.matches[0].roomCode).toMatch(/^[A-Z0-9]{6}$/);
+
+    const outsider = await signUp('carol');
+    const refused = next(outsider.client, 'lobbyError');
+    outsider.client.emit('joinLobby', { roomCode: tournament.matches[0].roomCode! });
+    expect((await refused).code).toBe('ROOM_NOT_FOUND');
+    const late = next(outsider.client, 'tournamentError');
+    outsider.client.emit('joinTournament', { tournamentId: tournament.id });
+    expect((await late).code).toBe('TOURNAMENT_STARTED');
+  });
+
+  test('advance the winner of each heat from the race results', async () => {
+    const { alice, bob, tournament } = await runTournament(1);
+    const roomCode = tournament.matches[0].roomCode!;
+    const inRoom = waitFor(alice.client, 'lobbyState', state => state.users.length === 2);
+    alice.client.emit('joinLobby', { roomCode });
+    await next(alice.client, 'lobbyState');
+    bob.client.emit('joinLobby', { roomCode });
+    const state = await inRoom;
+    expect(state.match).toMatchObject({ tournamentName: 'Spring Cup', label: 'Final', bestOf: 1 });
+
+    const started = next(bob.client, 'raceStart');
+    alice.client.emit('startRace');
+    await started;
+    const finished = waitFor(alice.client, 'tournamentState', updated => updated.status === 'finished');
+    typeRace(bob.client, 60);
+    bob.client.emit('raceFinished', { finalWPM: 200, finalAccuracy: 100, timeTaken: 1.14 });
+    typeRace(alice.client, 100);
+    alice.client.emit('raceFinished', { finalWPM: 120, finalAccuracy: 100, timeTaken: 1.9 });
+
+    const result = await finished;
+    expect(result.championId).toBe(bob.account.id);
+    expect(result.matches[0]).toMatchObject({ wins: [0, 1], winnerId: bob.account.id, overridden: false });
+  });
+
+  test('let only the admin override a result', async () => {
+    const { alice, bob, tournament } = await runTournament(3);
+    const match = tournament.matches[0];
+
+    const refused = next(bob.client, 'tournamentError');
+    bob.client.emit('overrideMatch', { tournamentId: tournament.id, matchId: match.id, winnerId: bob.account.id });
+    expect((await refused).code).toBe('NOT_TOURNAMENT_ADMIN');
+
+    const overridden = waitFor(bob.client, 'tournamentState', updated => updated.status === 'finished');
+    alice.client.emit('overrideMatch', { tournamentId: tournament.id, matchId: match.id, winnerId: alice.account.id });
+    expect((await overridden).matches[0]).toMatchObject({ winnerId: alice.account.id, overridden: true });
+  });
+});
@@ -0,0 +1,1033 @@
+import { Server, Socket } from 'socket.io';
+import {
+  Account,
+  AccountRequest,
+  AntiCheatCode,
+  CHAT_MAX_LENGTH,
+  ChatRequest,
+  ClientToServerEvents,
+  CreateRoomRequest,
+  CreateTournamentRequest,
+  GROUP_MAX_LENGTH,
+  HandshakeErrorData,
+  KeystrokeBatch,
+  JoinLobbyRequest,
+  LeaderboardRequest,
+  MatchOverride,
+  SpectateRequest,
+  PROTOCOL_VERSION,
+  ProgressUpdate,
+  RaceFinishedReport,
+  ReactionRequest,
+  RatingUpdate,
+  ResultSubmission,
+  RoomSettings,
+  ServerToClientEvents,
+  TOURNAMENT_BEST_OF,
+  TOURNAMENT_LIMITS,
+  Tournament,
+  TournamentRequest,
+  USERNAME_MAX_LENGTH
+} from '../../src/protocol/events';
+import { validateClientEvent } from '../../src/protocol/validators';
+import { DEFAULT_RATING, calculateRatingChanges, getRatingBand } from '../../src/utils/rating';
+import { beginTournament, overrideMatch, recordHeat } from '../../src/utils/tournament';
+import { createAccountStore } from './accounts';
+import { ANTI_CHEAT_MESSAGES, applyKeystrokes, createKeystrokeLog, isProgressJump, reviewRace } from './antiCheat';
+import { CHAT_RATE_LIMIT, REACTION_RATE_LIMIT, cleanChatText, filterProfanity, takeToken } from './chat';
+import { DEFAULT_CONFIG, RaceServerConfig } from './config';
+import { cleanGroup, createLeaderboardStore, getModeDuration, isLeaderboardText } from './leaderboard';
+import { createRatingStore, getRatedEntries } from './ratings';
+import { Session, clearSessionExpiry, createSession, toRaceKeystrokes } from './sessions';
+import { createTournamentStore, getMatchRoomSettings, toLobbyMatch } from './tournaments';
+import {
+  Lobby,
+  Player,
+  checkRoomSettings,
+  clearLobbyTimers,
+  createLobby,
+  generateRoomCode,
+  getEarliestPlayer,
+  getFinishedPlayers,
+  getLiveWpm,
+  getStandings,
+  getUnfinishedPlayers,
+  getWatchablePriority,
+  isJoinable,
+  resetLobby,
+  toLobbyState
+} from './lobby';
+
+export type RaceIO = Server<ClientToServerEvents, ServerToClientEvents>;
+export type RaceSocket = Socket<ClientToServerEvents, ServerToClientEvents>;
+
+export const attachRaceServer = (io: RaceIO, overrides: Partial<RaceServerConfig> = {}) => {
+  const config: RaceServerConfig = { ...DEFAULT_CONFIG, ...overrides };
+  const lobbies = new Map<string, Lobby>();
+  const sessions = new Map<string, Session>();
+  const sessionBySocket = new Map<string, Session>();
+  const accounts = createAccountStore();
+  const ratings = createRatingStore();
+  const leaderboards = createLeaderboardStore(config.leaderboardBestOf);
+  const tournaments = createTournamentStore();
+  let nextLobbyId = 1;
+  let nextChatId = 1;
+
+  // Every connected socket is bound to a session as soon as it connects
+  const getSession = (socket: RaceSocket) => sessionBySocket.get(socket.id) as Session;
+
+  const getCurrentLobby = (socket: RaceSocket) => {
+    const { lobbyId } = getSession(socket);
+    return lobbyId ? lobbies.get(lobbyId) : undefined;
+  };
+
+  const getCurrentPlayer = (socket: RaceSocket, lobby: Lobby | null | undefined) =>
+    lobby?.players.get(getSession(socket).playerId);
+
+  const endSession = (session: Session) => {
+    clearSessionExpiry(session);
+    sessions.delete(session.token);
+  };
+
+  const getLobbyState = (lobby: Lobby) => {
+    const tournament = lobby.match && tournaments.get(lobby.match.tournamentId);
+    return toLobbyState(lobby, tournament && lobby.match ? toLobbyMatch(tournament, lobby.match.matchId) : null);
+  };
+
+  const broadcastState = (lobby: Lobby) => {
+    io.to(lobby.id).emit('lobbyState', getLobbyState(lobby));
+  };
+
+  const closeLobby = (lobby: Lobby) => {
+    clearLobbyTimers(lobby);
+    sessions.forEach(session => {
+      if (session.lobbyId !== lobby.id) return;
+      session.lobbyId = null;
+      // Nobody is coming back to a lobby that no longer exists
+      if (!session.socketId) endSession(session);
+    });
+    io.in(lobby.id).socketsLeave(lobby.id);
+    lobbies.delete(lobby.id);
+  };
+
+  // Public races count once somebody has finished them and two signed-in
+  // players took part; private rooms are unrated
+  const rateRace = (lobby: Lobby): RatingUpdate[] | undefined => {
+    if (lobby.code || getFinishedPlayers(lobby).length === 0) return undefined;
+    const entries = getRatedEntries(lobby, ratings);
+    if (entries.length < 2) return undefined;
+
+    return calculateRatingChanges(entries).map(change => {
+      const player = lobby.ratedPlayers.find(racer => racer.id === change.id) as Player;
+      const accountId = player.accountId as string;
+      ratings.set(accountId, { rating: change.after, games: ratings.get(accountId).games + 1 });
+      player.rating = change.after;
+      return { userId: player.id, username: player.username, before: change.before, after: change.after };
+    });
+  };
+
+  const isRoomCodeTaken = (code: string) => Array.from(lobbies.values()).some(lobby => lobby.code === code);
+
+  // Shares the new state with everyone following the tournament and the rooms of its matches
+  const saveTournament = (tournament: Tournament) => {
+    const saved = tournaments.save(tournament, isRoomCodeTaken);
+    io.to(`tournament-${saved.id}`).emit('tournamentState', saved);
+    lobbies.forEach(lobby => {
+      if (lobby.match?.tournamentId === saved.id && lobby.status !== 'racing') broadcastState(lobby);
+    });
+    return saved;
+  };
+
+  // A tournament room's heat goes to whichever of the match's players finished first
+  const recordTournamentHeat = (lobby: Lobby) => {
+    const tournament = lobby.match && tournaments.get(lobby.match.tournamentId);
+    if (!tournament || !lobby.match) return;
+    const finishOrder = getStandings(lobby).flatMap(standing => lobby.players.get(standing.userId)?.accountId || []);
+    saveTournament(recordHeat(tournament, lobby.match.matchId, finishOrder));
+  };
+
+  const finishRace = (lobby: Lobby, completed: boolean) => {
+    if (lobby.status !== 'racing') return;
+    clearLobbyTimers(lobby);
+    lobby.status = 'finished';
+
+    if (!completed) {
+      const unfinishedUsers = getUnfinishedPlayers(lobby).map(player => player.username);
+      io.to(lobby.id).emit('raceTimeout', { message: 'Race time limit reached', unfinishedUsers });
+    }
+    const ratingChanges = rateRace(lobby);
+    recordTournamentHeat(lobby);
+    broadcastState(lobby);
+    io.to(lobby.id).emit('raceResults', { results: getStandings(lobby), finished: completed, ratingChanges });
+
+    if (lobby.code) {
+      resetLobby(lobby);
+      broadcastState(lobby);
+    }
+    // Public lobbies stay open for chat on the results screen, and close once
+    // everyone has moved on to a fresh lobby
+  };
+
+  const startRace = (lobby: Lobby) => {
+    clearLobbyTimers(lobby);
+    lobby.status = 'racing';
+    lobby.countdown = 0;
+    lobby.raceText = config.pickText(lobby.settings.textSource);
+    lobby.startTime = Date.now();
+    lobby.players.forEach(player => {
+      player.progress = 0;
+      player.index = 0;
+      player.log = createKeystrokeLog();
+    });
+    lobby.ratedPlayers = Array.from(lobby.players.values()).filter(player => player.accountId);
+
+    broadcastState(lobby);
+    io.to(lobby.id).emit('raceStart', { raceText: lobby.raceText, startTime: lobby.startTime });
+    lobby.timers.timeLimit = setTimeout(() => finishRace(lobby, false), config.raceTimeLimitMs);
+  };
+
+  const startCountdown = (lobby: Lobby) => {
+    lobby.status = 'countdown';
+    lobby.countdown = lobby.settings.countdownSeconds;
+    broadcastState(lobby);
+
+    lobby.timers.countdown = setInterval(() => {
+      lobby.countdown--;
+      if (lobby.countdown <= 0) {
+        startRace(lobby);
+      } else {
+        broadcastState(lobby);
+      }
+    }, config.tickMs);
+  };
+
+  // Called whenever the player list changes
+  const updateLobby = (lobby: Lobby) => {
+    if (lobby.players.size === 0) {
+      if (lobby.spectators.size > 0 && lobby.status !== 'finished') {
+        io.to(lobby.id).emit('lobbyError', { message: 'Everyone has left the race you were watching.', code: 'LOBBY_CLOSED' });
+      }
+      closeLobby(lobby);
+      return;
+    }
+
+    if (lobby.hostId && !lobby.players.has(lobby.hostId)) {
+      lobby.hostId = getEarliestPlayer(lobby).id;
+    }
+
+    // Private rooms wait for their host to start
+    const isPublic = lobby.code === null;
+    if (isPublic && lobby.status === 'waiting' && lobby.players.size >= config.minPlayers) {
+      startCountdown(lobby);
+      return;
+    }
+
+    if (isPublic && lobby.status === 'countdown' && lobby.players.size < config.minPlayers) {
+      clearLobbyTimers(lobby);
+      lobby.status = 'waiting';
+      lobby.countdown = 0;
+    }
+
+    broadcastState(lobby);
+
+    if (lobby.status === 'racing' && getUnfinishedPlayers(lobby).length === 0) {
+      finishRace(lobby, true);
+    }
+  };
+
+  const removeFromLobby = (session: Session) => {
+    const lobby = session.lobbyId ? lobbies.get(session.lobbyId) : undefined;
+    session.lobbyId = null;
+    if (!lobby) return;
+
+    lobby.players.delete(session.playerId);
+    lobby.spectators.delete(session.playerId);
+    const socket = session.socketId ? io.sockets.sockets.get(session.socketId) : undefined;
+    socket?.leave(lobby.id);
+    updateLobby(lobby);
+  };
+
+  const leaveCurrentLobby = (socket: RaceSocket) => removeFromLobby(getSession(socket));
+
+  // Guests are matched as if they had the starting rating
+  const findOrCreateLobby = ({ account }: Session) => {
+    const rating = account ? ratings.get(account.id).rating : DEFAULT_RATING.rating;
+    const ratingBand = config.matchByRating ? getRatingBand(rating).name : null;
+    const open = Array.from(lobbies.values())
+      .find(lobby => lobby.code === null && lobby.ratingBand === ratingBand && isJoinable(lobby));
+    if (open) return open;
+
+    const lobby = createLobby(`lobby-${nextLobbyId++}`, { ...config.publicSettings }, null, ratingBand);
+    lobbies.set(lobby.id, lobby);
+    return lobby;
+  };
+
+  const createRoom = (settings: RoomSettings) => {
+    const taken = new Set(Array.from(lobbies.values()).map(lobby => lobby.code));
+    let code = generateRoomCode();
+    while (taken.has(code)) {
+      code = generateRoomCode();
+    }
+
+    const lobby = createLobby(`room-${code}`, { ...settings }, code);
+    lobbies.set(lobby.id, lobby);
+    return lobby;
+  };
+
+  const findPublicRace = () =>
+    Array.from(lobbies.values())
+      .filter(lobby => lobby.code === null && getWatchablePriority(lobby) >= 0)
+      .sort((a, b) => getWatchablePriority(b) - getWatchablePriority(a))[0];
+
+  const findRoom = (code: string) =>
+    Array.from(lobbies.values()).find(lobby => lobby.code === code.trim().toUpperCase());
+
+  const isMatchPlayer = (socket: RaceSocket, lobby: Lobby) => {
+    const tournament = lobby.match && tournaments.get(lobby.match.tournamentId);
+    const match = tournament?.matches.find(other => other.id === lobby.match?.matchId);
+    const { account } = getSession(socket);
+    return !!account && !!match?.slots.includes(account.id);
+  };
+
+  // A tournament match's room opens when the first of its players comes to race
+  const openMatchRoom = (socket: RaceSocket, code: string) => {
+    const found = tournaments.findByRoomCode(code);
+    const { account } = getSession(socket);
+    if (!found || !account || !found.match.slots.includes(account.id)) return undefined;
+
+    const { tournament, match } = found;
+    const lobby = createLobby(`room-${match.roomCode}`, getMatchRoomSettings(tournament), match.roomCode, null,
+      { tournamentId: tournament.id, matchId: match.id });
+    lobbies.set(lobby.id, lobby);
+    return lobby;
+  };
+
+  const getHostedRoom = (socket: RaceSocket) => {
+    const lobby = getCurrentLobby(socket);
+    if (!lobby || !lobby.code || lobby.hostId !== getSession(socket).playerId) {
+      socket.emit('lobbyError', { message: 'Only the room host can do that.', code: 'NOT_HOST' });
+      return null;
+    }
+    if (lobby.status !== 'waiting') {
+      socket.emit('lobbyError', { message: 'The race has already started.', code: 'ROOM_IN_PROGRESS' });
+      return null;
+    }
+    return lobby;
+  };
+
+  const addPlayer = (socket: RaceSocket, lobby: Lobby, username: string, group: string | null) => {
+    const session = getSession(socket);
+    const id = session.playerId;
+    const accountId = session.account?.id ?? null;
+    lobby.players.set(id, {
+      id,
+      accountId,
+      username,
+      progress: 0,
+      index: 0,
+      joinedAt: Date.now(),
+      log: createKeystrokeLog(),
+      rating: accountId ? ratings.get(accountId).rating : undefined,
+      group
+    });
+    if (lobby.code && !lobby.hostId) {
+      lobby.hostId = id;
+    }
+    session.lobbyId = lobby.id;
+    socket.join(lobby.id);
+    updateLobby(lobby);
+  };
+
+  // Signed-in players race under their account name and guests under the one
+  // they sent. Returns null after telling a guest what's wrong with theirs.
+  const getRaceName = (socket: RaceSocket, name?: string) => {
+    const { account } = getSession(socket);
+    if (account) return account.username;
+
+    const username = (name || '').trim();
+    if (!username || username.length > USERNAME_MAX_LENGTH) {
+      socket.emit('lobbyError', {
+        message: `Usernames must be 1 to ${USERNAME_MAX_LENGTH} characters.`,
+        code: 'INVALID_USERNAME'
+      });
+      return null;
+    }
+    return username;
+  };
+
+  const checkGroup = (socket: RaceSocket, group?: string) => {
+    if (group && group.trim().length > GROUP_MAX_LENGTH) {
+      socket.emit('lobbyError', { message: `Team names are at most ${GROUP_MAX_LENGTH} characters.`, code: 'INVALID_GROUP' });
+      return false;
+    }
+    return true;
+  };
+
+  const getRacingLobby = (socket: RaceSocket) => {
+    const lobby = getCurrentLobby(socket);
+    if (!lobby || lobby.status !== 'racing') {
+      socket.emit('raceError', { message: 'You are not in a running race.', code: 'NOT_RACING' });
+      return null;
+    }
+    return lobby;
+  };
+
+  const handleJoin = (socket: RaceSocket, data: JoinLobbyRequest) => {
+    const invalid = validateClientEvent('joinLobby', data);
+    if (invalid) {
+      socket.emit('lobbyError', { message: invalid, code: 'INVALID_PAYLOAD' });
+      return;
+    }
+
+    const username = getRaceName(socket, data.username);
+    if (!username || !checkGroup(socket, data.group)) return;
+    const group = cleanGroup(data.group);
+
+    if (data.roomCode === undefined) {
+      leaveCurrentLobby(socket);
+      addPlayer(socket, findOrCreateLobby(getSession(socket)), username, group);
+      return;
+    }
+
+    const room = findRoom(data.roomCode) ?? openMatchRoom(socket, data.roomCode);
+    if (!room) {
+      socket.emit('lobbyError', { message: `No room found with code ${data.roomCode}.`, code: 'ROOM_NOT_FOUND' });
+      return;
+    }
+    if (room.players.has(getSession(socket).playerId)) return;
+    if (room.match && !isMatchPlayer(socket, room)) {
+      socket.emit('lobbyError', { message: 'Only the players in this match can race in its room.', code: 'NOT_IN_MATCH' });
+      return;
+    }
+    if (room.status === 'racing' || room.status === 'finished') {
+      socket.emit('lobbyError', { message: 'That room is in the middle of a race.', code: 'ROOM_IN_PROGRESS' });
+      return;
+    }
+    if (!isJoinable(room)) {
+      socket.emit('lobbyError', { message: 'That room is full.', code: 'ROOM_FULL' });
+      return;
+    }
+    leaveCurrentLobby(socket);
+    addPlayer(socket, room, username, group);
+  };
+
+  // Spectators get every broadcast to the lobby but aren't players, so anything they send about the race is ignored
+  const handleSpectate = (socket: RaceSocket, data: SpectateRequest) => {
+    const invalid = validateClientEvent('spectate', data);
+    if (invalid) {
+      socket.emit('lobbyError', { message: invalid, code: 'INVALID_PAYLOAD' });
+      return;
+    }
+
+    const lobby = data.roomCode === undefined ? findPublicRace() : findRoom(data.roomCode);
+    if (!lobby) {
+      socket.emit('lobbyError', data.roomCode === undefined
+        ? { message: 'There are no public races to watch right now.', code: 'NO_PUBLIC_RACE' }
+        : { message: `No room found with code ${data.roomCode}.`, code: 'ROOM_NOT_FOUND' });
+      return;
+    }
+
+    const session = getSession(socket);
+    if (session.lobbyId === lobby.id && lobby.spectators.has(session.playerId)) return;
+    leaveCurrentLobby(socket);
+    lobby.spectators.add(session.playerId);
+    session.lobbyId = lobby.id;
+    socket.join(lobby.id);
+    broadcastState(lobby);
+  };
+
+  const handleCreateRoom = (socket: RaceSocket, data: CreateRoomRequest) => {
+    const invalid = validateClientEvent('createRoom', data);
+    if (invalid) {
+      socket.emit('lobbyError', { message: invalid, code: 'INVALID_PAYLOAD' });
+      return;
+    }
+    const username = getRaceName(socket, data.username);
+    if (!username || !checkGroup(socket, data.group)) return;
+    const settingsError = checkRoomSettings(data.settings);
+    if (settingsError) {
+      socket.emit('lobbyError', { message: settingsError, code: 'INVALID_SETTINGS' });
+      return;
+    }
+
+    leaveCurrentLobby(socket);
+    addPlayer(socket, createRoom(data.settings), username, cleanGroup(data.group));
+  };
+
+  const handleUpdateSettings = (socket: RaceSocket, settings: RoomSettings) => {
+    const invalid = validateClientEvent('updateRoomSettings', settings);
+    if (invalid) {
+      socket.emit('lobbyError', { message: invalid, code: 'INVALID_PAYLOAD' });
+      return;
+    }
+    const room = getHostedRoom(socket);
+    if (!room) return;
+    if (room.match) {
+      socket.emit('lobbyError', { message: 'Tournament rooms race on the tournament\'s settings.', code: 'INVALID_SETTINGS' });
+      return;
+    }
+    const settingsError = checkRoomSettings(settings, room.players.size);
+    if (settingsError) {
+      socket.emit('lobbyError', { message: settingsError, code: 'INVALID_SETTINGS' });
+      return;
+    }
+
+    room.settings = { ...settings };
+    broadcastState(room);
+  };
+
+  // Tournament heats need both players in the room and a match still to decide
+  const checkMatchRoom = (socket: RaceSocket, room: Lobby) => {
+    const tournament = room.match && tournaments.get(room.match.tournamentId);
+    const match = tournament?.matches.find(other => other.id === room.match?.matchId);
+    if (!match || match.winnerId !== null) {
+      socket.emit('lobbyError', { message: 'This match has already been decided.', code: 'MATCH_OVER' });
+      return false;
+    }
+    const present = Array.from(room.players.values()).map(player => player.accountId);
+    if (!match.slots.every(id => present.includes(id))) {
+      socket.emit('lobbyError', { message: 'Wait for your opponent to join before starting.', code: 'WAITING_FOR_OPPONENT' });
+      return false;
+    }
+    return true;
+  };
+
+  const handleStartRace = (socket: RaceSocket) => {
+    const room = getHostedRoom(socket);
+    if (room && (!room.match || checkMatchRoom(socket, room))) {
+      startCountdown(room);
+    }
+  };
+
+  const handleProgress = (socket: RaceSocket, data: ProgressUpdate) => {
+    const invalid = validateClientEvent('progressUpdate', data);
+    if (invalid) {
+      socket.emit('raceError', { message: invalid, code: 'INVALID_PAYLOAD' });
+      return;
+    }
+
+    const lobby = getRacingLobby(socket);
+    const player = getCurrentPlayer(socket, lobby);
+    if (!lobby || !player || player.rank !== undefined || player.disqualified) return;
+    const textLength = lobby.raceText.length;
+    const index = Math.max(0, Math.min(textLength, Math.round(data.index)));
+    if (isProgressJump(index, player.log.typed.length)) {
+      disqualify(socket, lobby, player, 'PROGRESS_JUMP');
+      return;
+    }
+
+    player.index = index;
+    player.progress = textLength > 0 ? (index / textLength) * 100 : 0;
+    player.wpm = getLiveWpm(player, lobby.raceText, lobby.startTime || 0);
+    io.to(lobby.id).emit('opponentProgress', { userId: player.id, index, wpm: player.wpm });
+  };
+
+  const disqualify = (socket: RaceSocket, lobby: Lobby, player: Player, code: AntiCheatCode) => {
+    player.disqualified = code;
+    socket.emit('raceError', { message: ANTI_CHEAT_MESSAGES[code], code });
+    updateLobby(lobby);
+  };
+
+  const handleKeystrokes = (socket: RaceSocket, data: KeystrokeBatch) => {
+    const invalid = validateClientEvent('keystrokes', data);
+    if (invalid) {
+      socket.emit('raceError', { message: invalid, code: 'INVALID_PAYLOAD' });
+      return;
+    }
+
+    const lobby = getRacingLobby(socket);
+    const player = getCurrentPlayer(socket, lobby);
+    if (!lobby || !player || player.rank !== undefined || player.disqualified) return;
+
+    const startTime = lobby.startTime || 0;
+    const violation = applyKeystrokes(player.log, data.keystrokes, lobby.raceText, startTime, Date.now() - startTime);
+    if (violation) {
+      disqualify(socket, lobby, player, violation);
+    }
+  };
+
+  const handleFinish = (socket: RaceSocket, data: RaceFinishedReport) => {
+    const invalid = validateClientEvent('raceFinished', data);
+    if (invalid) {
+      socket.emit('raceError', { message: invalid, code: 'INVALID_PAYLOAD' });
+      return;
+    }
+
+    const lobby = getRacingLobby(socket);
+    const player = getCurrentPlayer(socket, lobby);
+    if (!lobby || !player || player.disqualified) return;
+    if (player.rank !== undefined) {
+      socket.emit('raceError', { message: 'You have already finished this race.', code: 'ALREADY_FINISHED' });
+      return;
+    }
+
+    // Rank on what the keystrokes show, not on what the client reports
+    const review = reviewRace(player.log, lobby.raceText, lobby.startTime || 0);
+    if (review.violation) {
+      disqualify(socket, lobby, player, review.violation);
+      return;
+    }
+
+    player.progress = 100;
+    player.index = lobby.raceText.length;
+    player.finishedAt = Date.now();
+    player.rank = getFinishedPlayers(lobby).length + 1;
+    player.stats = {
+      wpm: review.stats.wpm,
+      accuracy: review.stats.accuracy,
+      timeTaken: review.stats.timeTaken
+    };
+
+    // Race texts are quotes, so races count toward the quote leaderboards
+    if (player.accountId) {
+      leaderboards.record('quote', {
+        userId: player.accountId,
+        username: player.username,
+        group: player.group,
+        wpm: player.stats.wpm,
+        accuracy: player.stats.accuracy,
+        time: player.finishedAt
+      });
+    }
+
+    socket.emit('userFinished', { rank: player.rank, stats: player.stats, currentStandings: getStandings(lobby) });
+    socket.to(lobby.id).emit('opponentFinished', {
+      userId: player.id,
+      username: player.username,
+      rank: player.rank,
+      stats: player.stats
+    });
+    updateLobby(lobby);
+  };
+
+  // Only players talk; spectators just watch
+  const getChatSender = (socket: RaceSocket) => {
+    const lobby = getCurrentLobby(socket);
+    const player = getCurrentPlayer(socket, lobby);
+    if (!lobby || !player) {
+      socket.emit('lobbyError', { message: 'Join a lobby to chat.', code: 'CHAT_NOT_IN_LOBBY' });
+      return null;
+    }
+    const isRunning = lobby.status === 'countdown' || lobby.status === 'racing';
+    if (isRunning && !lobby.settings.chatWhileRacing) {
+      socket.emit('lobbyError', { message: 'Chat is off until the race is over.', code: 'CHAT_DISABLED' });
+      return null;
+    }
+    return { lobby, player };
+  };
+
+  const handleChat = (socket: RaceSocket, data: ChatRequest) => {
+    const invalid = validateClientEvent('chatMessage', data);
+    if (invalid) {
+      socket.emit('lobbyError', { message: invalid, code: 'INVALID_PAYLOAD' });
+      return;
+    }
+    const sender = getChatSender(socket);
+    if (!sender) return;
+
+    const text = cleanChatText(data.text);
+    if (!text) {
+      socket.emit('lobbyError', { message: `Messages must be 1 to ${CHAT_MAX_LENGTH} characters.`, code: 'CHAT_INVALID' });
+      return;
+    }
+    if (!takeToken(getSession(socket).chatBucket, CHAT_RATE_LIMIT, Date.now())) {
+      socket.emit('lobbyError', { message: 'You are sending messages too quickly. Wait a moment.', code: 'CHAT_RATE_LIMITED' });
+      return;
+    }
+
+    const filtered = filterProfanity(text);
+    if (filtered.filtered) {
+      socket.emit('lobbyError', { message: 'Some words in your message were hidden.', code: 'CHAT_FILTERED' });
+    }
+    io.to(sender.lobby.id).emit('chatMessage', {
+      id: `chat-${nextChatId++}`,
+      userId: sender.player.id,
+      username: sender.player.username,
+      text: filtered.text,
+      time: Date.now()
+    });
+  };
+
+  const handleReaction = (socket: RaceSocket, data: ReactionRequest) => {
+    const invalid = validateClientEvent('reaction', data);
+    if (invalid) {
+      socket.emit('lobbyError', { message: invalid, code: 'INVALID_PAYLOAD' });
+      return;
+    }
+    const sender = getChatSender(socket);
+    if (!sender) return;
+    if (!takeToken(getSession(socket).reactionBucket, REACTION_RATE_LIMIT, Date.now())) {
+      socket.emit('lobbyError', { message: 'You are sending reactions too quickly. Wait a moment.', code: 'CHAT_RATE_LIMITED' });
+      return;
+    }
+
+    io.to(sender.lobby.id).emit('reaction', { userId: sender.player.id, username: sender.player.username, emoji: data.emoji });
+  };
+
+  const handleGetLeaderboard = (socket: RaceSocket, data: LeaderboardRequest) => {
+    const invalid = validateClientEvent('getLeaderboard', data);
+    if (invalid) {
+      socket.emit('lobbyError', { message: invalid, code: 'INVALID_PAYLOAD' });
+      return;
+    }
+    socket.emit('leaderboard', leaderboards.get(data.mode, data.period, cleanGroup(data.group)));
+  };
+
+  // Solo tests go through the same keystroke checks as races before they are ranked
+  const handleSubmitResult = (socket: RaceSocket, data: ResultSubmission) => {
+    const invalid = validateClientEvent('submitResult', data);
+    if (invalid) {
+      socket.emit('raceError', { message: invalid, code: 'INVALID_PAYLOAD' });
+      return;
+    }
+    const { account } = getSession(socket);
+    if (!account) {
+      socket.emit('accountError', { message: 'Sign in to go on the leaderboards.', code: 'NOT_SIGNED_IN' });
+      return;
+    }
+    if (!checkGroup(socket, data.group)) return;
+    if (!isLeaderboardText(data.mode, data.text)) {
+      socket.emit('raceError', { message: 'Only the standard texts for a mode count toward its leaderboard.', code: 'UNRANKED_TEXT' });
+      return;
+    }
+
+    const log = createKeystrokeLog();
+    const duration = getModeDuration(data.mode);
+    const keystrokeViolation = applyKeystrokes(log, data.keystrokes, data.text, 0, Infinity);
+    const review = reviewRace(log, data.text, 0, duration === null ? undefined : duration * 1000);
+    const violation = keystrokeViolation || review.violation;
+    if (violation) {
+      socket.emit('raceError', { message: ANTI_CHEAT_MESSAGES[violation], code: violation });
+      return;
+    }
+
+    const { wpm, accuracy } = review.stats;
+    leaderboards.record(data.mode, {
+      userId: account.id,
+      username: account.username,
+      group: cleanGroup(data.group),
+      wpm,
+      accuracy,
+      time: Date.now()
+    });
+    socket.emit('resultRecorded', { mode: data.mode, wpm, accuracy });
+  };
+
+  const signIn = (socket: RaceSocket, account: Account) => {
+    const session = getSession(socket);
+    session.account = account;
+    session.authToken = accounts.createAuthToken(account.id);
+    socket.emit('signedIn', { account, authToken: session.authToken });
+  };
+
+  const handleRegister = (socket: RaceSocket, data: AccountRequest) => {
+    const invalid = validateClientEvent('register', data);
+    if (invalid) {
+      socket.emit('accountError', { message: invalid, code: 'INVALID_PAYLOAD' });
+      return;
+    }
+    const result = accounts.register(data.username, data.password);
+    if ('message' in result) {
+      socket.emit('accountError', result);
+      return;
+    }
+    signIn(socket, result);
+  };
+
+  const handleSignIn = (socket: RaceSocket, data: AccountRequest) => {
+    const invalid = validateClientEvent('signIn', data);
+    if (invalid) {
+      socket.emit('accountError', { message: invalid, code: 'INVALID_PAYLOAD' });
+      return;
+    }
+    const account = accounts.authenticate(data.username, data.password);
+    if (!account) {
+      socket.emit('accountError', { message: 'Wrong username or password.', code: 'INVALID_CREDENTIALS' });
+      return;
+    }
+    signIn(socket, account);
+  };
+
+  // Lobbies already joined keep the player as they joined
+  const handleSignOut = (socket: RaceSocket) => {
+    const session = getSession(socket);
+    if (session.authToken) accounts.revokeToken(session.authToken);
+    session.account = null;
+    session.authToken = null;
+    socket.emit('signedOut');
+  };
+
+  // The handshake's auth token signs the session in, or out again if the
+  // server no longer knows it
+  const restoreAccount = (socket: RaceSocket, session: Session) => {
+    const authToken = socket.handshake.auth?.authToken;
+    session.account = accounts.getByToken(authToken);
+    session.authToken = session.account ? authToken : null;
+    if (authToken !== undefined && !session.account) {
+      socket.emit('signedOut');
+    }
+  };
+
+  const getTournamentAccount = (socket: RaceSocket) => {
+    const { account } = getSession(socket);
+    if (!account) {
+      socket.emit('tournamentError', { message: 'Sign in to take part in tournaments.', code: 'NOT_SIGNED_IN' });
+    }
+    return account;
+  };
+
+  const findTournament = (socket: RaceSocket, id: string) => {
+    const tournament = tournaments.get(id);
+    if (!tournament) {
+      socket.emit('tournamentError', { message: `No tournament found with code ${id}.`, code: 'TOURNAMENT_NOT_FOUND' });
+    }
+    return tournament;
+  };
+
+  const getAdminTournament = (socket: RaceSocket, id: string) => {
+    const account = getTournamentAccount(socket);
+    const tournament = account && findTournament(socket, id);
+    if (!account || !tournament) return undefined;
+    if (tournament.adminId !== account.id) {
+      socket.emit('tournamentError', { message: 'Only the tournament admin can do that.', code: 'NOT_TOURNAMENT_ADMIN' });
+      return undefined;
+    }
+    return tournament;
+  };
+
+  const watchTournament = (socket: RaceSocket, tournament: Tournament) => {
+    socket.join(`tournament-${tournament.id}`);
+    socket.emit('tournamentState', tournament);
+  };
+
+  const handleCreateTournament = (socket: RaceSocket, data: CreateTournamentRequest) => {
+    const invalid = validateClientEvent('createTournament', data);
+    if (invalid) {
+      socket.emit('tournamentError', { message: invalid, code: 'INVALID_PAYLOAD' });
+      return;
+    }
+    const account = getTournamentAccount(socket);
+    if (!account) return;
+    const name = data.name.trim();
+    if (!name || name.length > TOURNAMENT_LIMITS.nameMaxLength) {
+      socket.emit('tournamentError', {
+        message: `Tournament names must be 1-${TOURNAMENT_LIMITS.nameMaxLength} characters.`,
+        code: 'INVALID_TOURNAMENT'
+      });
+      return;
+    }
+    if (!(TOURNAMENT_BEST_OF as readonly number[]).includes(data.bestOf)) {
+      socket.emit('tournamentError', {
+        message: `Matches can be best of ${TOURNAMENT_BEST_OF.join(', ')}.`,
+        code: 'INVALID_TOURNAMENT'
+      });
+      return;
+    }
+
+    watchTournament(socket, tournaments.create(data, account, isRoomCodeTaken));
+  };
+
+  const handleJoinTournament = (socket: RaceSocket, data: TournamentRequest) => {
+    const invalid = validateClientEvent('joinTournament', data);
+    if (invalid) {
+      socket.emit('tournamentError', { message: invalid, code: 'INVALID_PAYLOAD' });
+      return;
+    }
+    const account = getTournamentAccount(socket);
+    const tournament = account && findTournament(socket, data.tournamentId);
+    if (!account || !tournament) return;
+    if (tournament.entrants.some(entrant => entrant.id === account.id)) {
+      watchTournament(socket, tournament);
+      return;
+    }
+    if (tournament.status !== 'registering') {
+      socket.emit('tournamentError', { message: 'That tournament has already started.', code: 'TOURNAMENT_STARTED' });
+      return;
+    }
+    if (tournament.entrants.length >= TOURNAMENT_LIMITS.maxPlayers) {
+      socket.emit('tournamentError', { message: 'That tournament is full.', code: 'TOURNAMENT_FULL' });
+      return;
+    }
+
+    const entrant = { id: account.id, username: account.username, seed: 0 };
+    watchTournament(socket, saveTournament({ ...tournament, entrants: [...tournament.entrants, entrant] }));
+  };
+
+  const handleWatchTournament = (socket: RaceSocket, data: TournamentRequest) => {
+    const invalid = validateClientEvent('watchTournament', data);
+    if (invalid) {
+      socket.emit('tournamentError', { message: invalid, code: 'INVALID_PAYLOAD' });
+      return;
+    }
+    const tournament = findTournament(socket, data.tournamentId);
+    if (tournament) {
+      watchTournament(socket, tournament);
+    }
+  };
+
+  // Seeds on each entrant's rating as it stands when the admin starts
+  const handleStartTournament = (socket: RaceSocket, data: TournamentRequest) => {
+    const invalid = validateClientEvent('startTournament', data);
+    if (invalid) {
+      socket.emit('tournamentError', { message: invalid, code: 'INVALID_PAYLOAD' });
+      return;
+    }
+    const tournament = getAdminTournament(socket, data.tournamentId);
+    if (!tournament) return;
+    if (tournament.status !== 'registering') {
+      socket.emit('tournamentError', { message: 'The tournament has already started.', code: 'TOURNAMENT_STARTED' });
+      return;
+    }
+    if (tournament.entrants.length < TOURNAMENT_LIMITS.minPlayers) {
+      socket.emit('tournamentError', {
+        message: `A tournament needs at least ${TOURNAMENT_LIMITS.minPlayers} players.`,
+        code: 'TOO_FEW_PLAYERS'
+      });
+      return;
+    }
+
+    saveTournament(beginTournament(tournament, id => ratings.get(id).rating));
+  };
+
+  const handleOverrideMatch = (socket: RaceSocket, data: MatchOverride) => {
+    const invalid = validateClientEvent('overrideMatch', data);
+    if (invalid) {
+      socket.emit('tournamentError', { message: invalid, code: 'INVALID_PAYLOAD' });
+      return;
+    }
+    const tournament = getAdminTournament(socket, data.tournamentId);
+    if (!tournament) return;
+
+    const result = overrideMatch(tournament, data.matchId, data.winnerId);
+    if ('message' in result) {
+      socket.emit('tournamentError', result);
+      return;
+    }
+    saveTournament(result);
+  };
+
+  // A reconnecting client presents its token and takes its session back,
+  // even from a connection the server still thinks is open
+  const bindSession = (socket: RaceSocket) => {
+    const token = socket.handshake.auth?.sessionToken;
+    const session = (typeof token === 'string' && sessions.get(token)) || createSession();
+    sessions.set(session.token, session);
+    clearSessionExpiry(session);
+
+    const previous = session.socketId ? io.sockets.sockets.get(session.socketId) : undefined;
+    session.socketId = socket.id;
+    sessionBySocket.set(socket.id, session);
+    previous?.disconnect(true);
+    return session;
+  };
+
+  // Puts a returning player back in their lobby, with the race so far if one is running
+  const resumeSession = (socket: RaceSocket, session: Session) => {
+    socket.emit('session', { token: session.token, playerId: session.playerId });
+
+    const lobby = session.lobbyId ? lobbies.get(session.lobbyId) : undefined;
+    const player = lobby?.players.get(session.playerId);
+    if (lobby?.spectators.has(session.playerId)) {
+      socket.join(lobby.id);
+      socket.emit('lobbyState', getLobbyState(lobby));
+      return;
+    }
+    if (!lobby || !player) {
+      session.lobbyId = null;
+      return;
+    }
+
+    player.offline = undefined;
+    socket.join(lobby.id);
+    if (lobby.status === 'racing') {
+      const startTime = lobby.startTime || 0;
+      socket.emit('resumeRace', {
+        lobby: getLobbyState(lobby),
+        raceText: lobby.raceText,
+        elapsed: Date.now() - startTime,
+        keystrokes: toRaceKeystrokes(player.log.keystrokes, startTime),
+        rank: player.rank ?? null,
+        standings: getStandings(lobby)
+      });
+    }
+    broadcastState(lobby);
+  };
+
+  const handleDisconnect = (socket: RaceSocket) => {
+    const session = getSession(socket);
+    sessionBySocket.delete(socket.id);
+    // Taken over by a newer connection, which now owns the session
+    if (!session || session.socketId !== socket.id) return;
+    session.socketId = null;
+
+    const lobby = session.lobbyId ? lobbies.get(session.lobbyId) : undefined;
+    const player = lobby?.players.get(session.playerId);
+    const isSpectator = !!lobby?.spectators.has(session.playerId);
+    if (!lobby || (!player && !isSpectator) || config.reconnectGraceMs <= 0) {
+      removeFromLobby(session);
+      endSession(session);
+      return;
+    }
+
+    if (player) {
+      player.offline = true;
+      broadcastState(lobby);
+    }
+    session.expiry = setTimeout(() => {
+      removeFromLobby(session);
+      endSession(session);
+    }, config.reconnectGraceMs);
+  };
+
+  // Refuse clients built against another protocol version before they join anything
+  io.use((socket, next) => {
+    const version = socket.handshake.auth?.protocolVersion;
+    if (version === PROTOCOL_VERSION) {
+      next();
+      return;
+    }
+    const error = new Error(`Protocol version ${version ?? 'missing'} is not supported; the server speaks ${PROTOCOL_VERSION}`);
+    const data: HandshakeErrorData = { code: 'PROTOCOL_MISMATCH', serverVersion: PROTOCOL_VERSION };
+    Object.assign(error, { data });
+    next(error);
+  });
+
+  io.on('connection', (socket: RaceSocket) => {
+    const session = bindSession(socket);
+    restoreAccount(socket, session);
+    resumeSession(socket, session);
+
+    socket.on('joinLobby', data => handleJoin(socket, data));
+    socket.on('createRoom', data => handleCreateRoom(socket, data));
+    socket.on('spectate', data => handleSpectate(socket, data));
+    socket.on('updateRoomSettings', settings => handleUpdateSettings(socket, settings));
+    socket.on('startRace', () => handleStartRace(socket));
+    socket.on('progressUpdate', data => handleProgress(socket, data));
+    socket.on('keystrokes', data => handleKeystrokes(socket, data));
+    socket.on('raceFinished', data => handleFinish(socket, data));
+    socket.on('leaveLobby', () => leaveCurrentLobby(socket));
+    socket.on('chatMessage', data => handleChat(socket, data));
+    socket.on('reaction', data => handleReaction(socket, data));
+    socket.on('getLeaderboard', data => handleGetLeaderboard(socket, data));
+    socket.on('submitResult', data => handleSubmitResult(socket, data));
+    socket.on('register', data => handleRegister(socket, data));
+    socket.on('signIn', data => handleSignIn(socket, data));
+    socket.on('signOut', () => handleSignOut(socket));
+    socket.on('createTournament', data => handleCreateTournament(socket, data));
+    socket.on('joinTournament', data => handleJoinTournament(socket, data));
+    socket.on('watchTournament', data => handleWatchTournament(socket, data));
+    socket.on('startTournament', data => handleStartTournament(socket, data));
+    socket.on('overrideMatch', data => handleOverrideMatch(socket, data));
+    socket.on('disconnect', () => handleDisconnect(socket));
+  });
+
+  return {
+    config,
+    getLobbies: () => Array.from(lobbies.values()),
+    ratings,
+    close: () => {
+      Array.from(lobbies.values()).forEach(closeLobby);
+      sessions.forEach(clearSessionExpiry);
+    }
+  };
+};
@@ -0,0 +1,26 @@
+import { DEFAULT_RATING, PlayerRating, RatedEntry } from '../../src/utils/rating';
+import { Lobby, getFinishedPlayers } from './lobby';
+
+// Ratings are kept by account id, and last as long as the server process does
+export const createRatingStore = () => {
+  const ratings = new Map<string, PlayerRating>();
+
+  return {
+    get: (accountId: string): PlayerRating => ratings.get(accountId) || { ...DEFAULT_RATING },
+    set: (accountId: string, rating: PlayerRating) => {
+      ratings.set(accountId, rating);
+    }
+  };
+};
+
+export type RatingStore = ReturnType<typeof createRatingStore>;
+
+// Only players signed in when the race started are rated, whether or not they stayed.
+// Finishers place in finishing order; everyone else, disqualified players and those
+// who left included, shares the place after the last finisher.
+export const getRatedEntries = (lobby: Lobby, ratings: RatingStore): RatedEntry[] => {
+  const lastPlace = Math.max(getFinishedPlayers(lobby).length, ...lobby.ratedPlayers.map(player => player.rank ?? 0)) + 1;
+  return lobby.ratedPlayers.flatMap(player => player.accountId
+    ? [{ id: player.id, ...ratings.get(player.accountId), place: player.rank ?? lastPlace }]
+    : []);
+};
@@ -0,0 +1,45 @@
+import { randomBytes } from 'crypto';
+import { Account, RaceKeystroke } from '../../src/protocol/events';
+import { KeystrokeEvent } from '../../src/types/typing';
+import { CHAT_RATE_LIMIT, REACTION_RATE_LIMIT, RateBucket, createRateBucket } from './chat';
+
+// One per browser tab. A session outlives the socket it was created on, so a
+// client that reconnects with its token gets its player, lobby and race back.
+export interface Session {
+  token: string;
+  playerId: string;
+  socketId: string | null;
+  lobbyId: string | null;
+  // Signed-in account, from the handshake's auth token or a later signIn
+  account: Account | null;
+  authToken: string | null;
+  // Drops the player once a disconnected client has had long enough to come back
+  expiry?: ReturnType<typeof setTimeout>;
+  // Rate limits follow the session, so reconnecting doesn't reset them
+  chatBucket: RateBucket;
+  reactionBucket: RateBucket;
+}
+
+export const createSession = (now = Date.now()): Session => ({
+  token: randomBytes(24).toString('base64url'),
+  playerId: `player-${randomBytes(6).toString('hex')}`,
+  socketId: null,
+  lobbyId: null,
+  account: null,
+  authToken: null,
+  chatBucket: createRateBucket(CHAT_RATE_LIMIT, now),
+  reactionBucket: createRateBucket(REACTION_RATE_LIMIT, now)
+});
+
+export const clearSessionExpiry = (session: Session) => {
+  if (session.expiry) clearTimeout(session.expiry);
+  session.expiry = undefined;
+};
+
+// Turns the server's copy of a player's keystrokes back into what the client sent
+export const toRaceKeystrokes = (keystrokes: KeystrokeEvent[], startTime: number): RaceKeystroke[] =>
+  keystrokes.map(event => ({
+    key: event.key,
+    isBackspace: event.isBackspace,
+    time: event.timestamp - startTime
+  }));
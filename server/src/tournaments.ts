@@ -0,0 +1,84 @@
+import {
+  Account,
+  CreateTournamentRequest,
+  DEFAULT_ROOM_SETTINGS,
+  LobbyMatch,
+  RoomSettings,
+  Tournament
+} from '../../src/protocol/events';
+import { getEntrantName, getMatchLabel, getReadyMatches } from '../../src/utils/tournament';
+import { generateRoomCode } from './lobby';
+
+// Tournaments are kept in memory, like ratings and leaderboards. Each match is
+// raced in a private room of its own, given a code once both players are known.
+export const createTournamentStore = () => {
+  const tournaments = new Map<string, Tournament>();
+  const isTaken = (code: string) => Array.from(tournaments.values())
+    .some(tournament => tournament.id === code || tournament.matches.some(match => match.roomCode === code));
+  const newCode = (isRoomTaken: (code: string) => boolean) => {
+    let code = generateRoomCode();
+    while (isTaken(code) || isRoomTaken(code)) {
+      code = generateRoomCode();
+    }
+    return code;
+  };
+
+  return {
+    get: (id: string) => tournaments.get(id.trim().toUpperCase()),
+    create: (request: CreateTournamentRequest, admin: Account, isRoomTaken: (code: string) => boolean): Tournament => {
+      const tournament: Tournament = {
+        id: newCode(isRoomTaken),
+        name: request.name.trim(),
+        format: request.format,
+        bestOf: request.bestOf,
+        textSource: request.textSource,
+        adminId: admin.id,
+        status: 'registering',
+        entrants: [],
+        matches: [],
+        rounds: 0,
+        championId: null
+      };
+      tournaments.set(tournament.id, tournament);
+      return tournament;
+    },
+    // Stores the new state, opening rooms for any matches it made ready
+    save: (tournament: Tournament, isRoomTaken: (code: string) => boolean) => {
+      const ready = new Set(getReadyMatches(tournament).map(match => match.id));
+      const saved = {
+        ...tournament,
+        matches: tournament.matches.map(match => (ready.has(match.id) && !match.roomCode
+          ? { ...match, roomCode: newCode(isRoomTaken) }
+          : match))
+      };
+      tournaments.set(saved.id, saved);
+      return saved;
+    },
+    // The undecided match a room code belongs to
+    findByRoomCode: (code: string) => {
+      for (const tournament of Array.from(tournaments.values())) {
+        const match = tournament.matches.find(other => other.roomCode === code.trim().toUpperCase() && other.winnerId === null);
+        if (match) return { tournament, match };
+      }
+      return undefined;
+    }
+  };
+};
+
+export type TournamentStore = ReturnType<typeof createTournamentStore>;
+
+export const getMatchRoomSettings = (tournament: Tournament): RoomSettings =>
+  ({ ...DEFAULT_ROOM_SETTINGS, textSource: tournament.textSource, maxPlayers: 2 });
+
+export const toLobbyMatch = (tournament: Tournament, matchId: string): LobbyMatch | null => {
+  const match = tournament.matches.find(other => other.id === matchId);
+  if (!match) return null;
+  return {
+    tournamentId: tournament.id,
+    tournamentName: tournament.name,
+    label: getMatchLabel(tournament, match),
+    bestOf: tournament.bestOf,
+    players: match.slots.map((id, slot) => ({ username: getEntrantName(tournament, id), wins: match.wins[slot] })),
+    winner: match.winnerId ? getEntrantName(tournament, match.winnerId) : null
+  };
+};
@@ -1,50 +1,172 @@
-import React, { useState } from 'react';
+import React, { useState, useCallback } from 'react';
 import TypingInterface from './components/TypingInterface';
 import ResultsScreen from './components/ResultsScreen';
 import MultiplayerRace from './components/MultiplayerRace';
+import HistoryView from './components/HistoryView';
+import KeyStatsView from './components/KeyStatsView';
+import CustomTextImport from './components/CustomTextImport';
+import RaceReplayView from './components/RaceReplayView';
+import GhostPicker from './components/GhostPicker';
+import GhostRace from './components/GhostRace';
+import LeaderboardView from './components/LeaderboardView';
+import AccountView from './components/AccountView';
+import TournamentView from './components/TournamentView';
+import { TestRecord, saveTestResult } from './storage/history';
+import { Ghost, GhostOutcome, createGhost, getGhostOutcome } from './utils/ghost';
+import { CodeOptions, KeystrokeEvent, StatsSample, TestMode, TypingStats } from './types/typing';
+import {
+  TIME_OPTIONS,
+  WORD_OPTIONS,
+  TIME_MODE_EXTRA_WORDS,
+  isSameMode
+} from './utils/testModes';
+import {
+  DEFAULT_SOURCE_IDS,
+  TextMeta,
+  TextSourceKind,
+  getSourcesOfKind,
+  getTextSource
+} from './textSources';
+import { getPracticeSetText, loadCustomText, saveCustomText } from './textSources/customSource';
+import { PROGRESSIVE_SOURCE_ID, updateAdaptiveProgress } from './textSources/adaptiveSource';
+import { PracticeSet, loadPracticeSets } from './storage/practiceSets';
+import { loadLeaderboardProfile } from './storage/leaderboardProfile';
+import { loadAccount } from './storage/account';
+import { submitLeaderboardResult } from './protocol/client';
+import { LEADERBOARD_MODE_LABELS, getLeaderboardMode, toSubmittedKeystrokes } from './utils/leaderboard';
 
-interface TypingStats {
-  wpm: number;
-  accuracy: number;
-  timeTaken: number;
-  correctChars: number;
-  incorrectChars: number;
-  totalChars: number;
-}
-
-type AppState = 'home' | 'typing' | 'results' | 'multiplayer';
+type AppState = 'home' | 'typing' | 'results' | 'multiplayer' | 'history' | 'import' | 'stats' | 'replay' | 'ghosts' | 'leaderboard' | 'account' | 'tournament';
 
 const App: React.FC = () => {
-  const [appState, setAppState] = useState<AppState>('home');
+  // A shared invite link (?room=CODE) opens straight into that race room
+  const [inviteCode, setInviteCode] = useState(() => new URLSearchParams(window.location.search).get('room'));
+  const [appState, setAppState] = useState<AppState>(inviteCode ? 'multiplayer' : 'home');
+  // The tournament whose match is being raced, to go back to afterwards
+  const [tournamentId, setTournamentId] = useState<string | null>(null);
   const [testText, setTestText] = useState('');
   const [results, setResults] = useState<TypingStats | null>(null);
+  const [keystrokes, setKeystrokes] = useState<KeystrokeEvent[]>([]);
+  const [timeline, setTimeline] = useState<StatsSample[]>([]);
+  const [testMode, setTestMode] = useState<TestMode>({ type: 'passage' });
+  const [isPersonalBest, setIsPersonalBest] = useState(false);
+  const [unlockedLetter, setUnlockedLetter] = useState<string | null>(null);
+  const [ghost, setGhost] = useState<Ghost | null>(null);
+  const [ghostOutcome, setGhostOutcome] = useState<GhostOutcome | null>(null);
+  const [leaderboardNote, setLeaderboardNote] = useState<string | null>(null);
+
+  const [sourceIds, setSourceIds] = useState<Record<TextSourceKind, string>>(DEFAULT_SOURCE_IDS);
+  const [textMeta, setTextMeta] = useState<TextMeta | null>(null);
+  const [customText, setCustomText] = useState(() => loadCustomText());
+  const [practiceSet, setPracticeSet] = useState<{ set: PracticeSet; chunkIndex: number } | null>(null);
+
+  const [codeOptions, setCodeOptions] = useState({ autoIndent: true, highlight: true });
 
-  // Sample text passages for solo practice
-  const sampleTexts = [
-    "The quick brown fox jumps over the lazy dog. This sentence contains every letter of the alphabet and is commonly used for typing practice.",
-    "To be or not to be, that is the question. Whether 'tis nobler in the mind to suffer the slings and arrows of outrageous fortune.",
-    "It was the best of times, it was the worst of times, it was the age of wisdom, it was the age of foolishness.",
-    "The only way to do great work is to love what you do. If you haven't found it yet, keep looking. Don't settle.",
-    "In the beginning was the Word, and the Word was with God, and the Word was God. He was with God in the beginning.",
-    "The future belongs to those who believe in the beauty of their dreams. Never give up on what you really want to do.",
-    "Success is not final, failure is not fatal: it is the courage to continue that counts. Keep pushing forward.",
-    "The way to get started is to quit talking and begin doing. Action is the foundational key to all success."
-  ];
+  const sourceKind: TextSourceKind =
+    testMode.type === 'passage' ? 'passage' : testMode.type === 'code' ? 'code' : 'words';
+  const textSource = getTextSource(sourceIds[sourceKind]);
 
   const startSoloTest = () => {
-    const randomText = sampleTexts[Math.floor(Math.random() * sampleTexts.length)];
-    setTestText(randomText);
+    const { text, meta } = textSource.generate(testMode);
+    setTestText(text);
+    setTextMeta(meta);
+    setAppState('typing');
+  };
+
+  // Saved practice sets play their chunks in order, one per test
+  const startPracticeSet = (set: PracticeSet, chunkIndex = 0) => {
+    const { text, meta } = getPracticeSetText(set, chunkIndex);
+    setTestMode({ type: 'passage' });
+    setPracticeSet({ set, chunkIndex });
+    setTestText(text);
+    setTextMeta(meta);
     setAppState('typing');
   };
 
-  const handleTestComplete = (stats: TypingStats) => {
+  // Ghost races replay a stored run's text and mode exactly
+  const startGhostRace = (record: TestRecord) => {
+    const nextGhost = createGhost(record);
+    if (!nextGhost) return;
+    setTestMode(record.mode);
+    setPracticeSet(null);
+    setGhost(nextGhost);
+    setTestText(nextGhost.text);
+    setTextMeta(record.source);
+    setAppState('typing');
+  };
+
+  const goHome = () => {
+    setPracticeSet(null);
+    setGhost(null);
+    setAppState('home');
+  };
+
+  // Timed tests keep growing until the clock runs out
+  const handleNeedMoreText = useCallback(() => {
+    if (!textSource.extend) return;
+    const moreText = textSource.extend(TIME_MODE_EXTRA_WORDS);
+    setTestText(prev => `${prev} ${moreText}`);
+  }, [textSource]);
+
+  const handleCustomTextChange = (text: string) => {
+    setCustomText(text);
+    saveCustomText(text);
+  };
+
+  // Plain solo tests in a ranked mode count once the player is signed in
+  const submitToLeaderboard = (stats: TypingStats, keystrokeLog: KeystrokeEvent[]) => {
+    setLeaderboardNote(null);
+    const profile = loadLeaderboardProfile();
+    const mode = getLeaderboardMode(testMode, textMeta?.sourceId || textSource.id);
+    if (!mode || !loadAccount() || ghost || practiceSet || stats.wpm === 0) return;
+
+    submitLeaderboardResult({
+      group: profile.group.trim() || undefined,
+      mode,
+      text: testText,
+      keystrokes: toSubmittedKeystrokes(keystrokeLog)
+    })
+      .then(() => setLeaderboardNote(`🏆 Counted toward the ${LEADERBOARD_MODE_LABELS[mode]} leaderboard`))
+      .catch(error => {
+        console.error('Leaderboard submission failed:', error);
+        setLeaderboardNote(`Not counted toward the leaderboard: ${error.message}`);
+      });
+  };
+
+  const handleTestComplete = (stats: TypingStats, keystrokeLog: KeystrokeEvent[], samples: StatsSample[]) => {
+    const saved = saveTestResult({
+      kind: 'solo',
+      mode: testMode,
+      source: textMeta || { sourceId: textSource.id, textId: '' },
+      stats,
+      timestamp: Date.now(),
+      text: testText,
+      keystrokes: keystrokeLog
+    });
+    setIsPersonalBest(saved.isPersonalBest);
+    submitToLeaderboard(stats, keystrokeLog);
+    setGhostOutcome(ghost ? getGhostOutcome(ghost, stats) : null);
+    setUnlockedLetter(textMeta?.sourceId === PROGRESSIVE_SOURCE_ID ? updateAdaptiveProgress() : null);
     setResults(stats);
+    setKeystrokes(keystrokeLog);
+    setTimeline(samples);
     setAppState('results');
   };
 
   const handleRestart = () => {
     setResults(null);
-    startSoloTest();
+    setKeystrokes([]);
+    setTimeline([]);
+    setIsPersonalBest(false);
+    setUnlockedLetter(null);
+    setGhostOutcome(null);
+    setLeaderboardNote(null);
+    if (ghost) {
+      setAppState('typing');
+    } else if (practiceSet) {
+      startPracticeSet(practiceSet.set, practiceSet.chunkIndex + 1);
+    } else {
+      startSoloTest();
+    }
   };
 
   const handleJoinRace = () => {
@@ -52,9 +174,54 @@ const App: React.FC = () => {
   };
 
   const handleExitMultiplayer = () => {
-    setAppState('home');
+    if (inviteCode) {
+      setInviteCode(null);
+      window.history.replaceState(null, '', window.location.pathname);
+    }
+    setAppState(tournamentId ? 'tournament' : 'home');
+  };
+
+  const raceTournamentMatch = (roomCode: string, id: string) => {
+    setTournamentId(id);
+    setInviteCode(roomCode);
+    setAppState('multiplayer');
   };
 
+  const renderModeButton = (mode: TestMode, label: string) => (
+    <button
+      key={label}
+      onClick={() => setTestMode(mode)}
+      className={`px-3 py-1 rounded font-mono transition-colors ${
+        isSameMode(mode, testMode) ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  const renderSourceButton = (id: string, label: string) => (
+    <button
+      key={id}
+      onClick={() => setSourceIds(prev => ({ ...prev, [sourceKind]: id }))}
+      className={`px-3 py-1 rounded font-mono transition-colors ${
+        id === textSource.id ? 'bg-gray-600 text-white' : 'text-gray-400 hover:text-white'
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  const renderCodeToggle = (option: keyof typeof codeOptions, label: string) => (
+    <button
+      onClick={() => setCodeOptions(prev => ({ ...prev, [option]: !prev[option] }))}
+      className={`px-3 py-1 rounded font-mono transition-colors ${
+        codeOptions[option] ? 'text-green-400' : 'text-gray-500 line-through'
+      }`}
+    >
+      {label}
+    </button>
+  );
+
   const renderHome = () => (
     <div className="min-h-screen bg-gray-900 flex items-center justify-center">
       <div className="w-full max-w-2xl mx-auto p-6">
@@ -67,6 +234,59 @@ const App: React.FC = () => {
           </p>
         </div>
 
+        {/* Mode Picker */}
+        <div className="flex flex-wrap justify-center items-center gap-2 mb-8 p-3 bg-gray-800 rounded-lg text-sm">
+          {renderModeButton({ type: 'passage' }, 'passage')}
+          {renderModeButton({ type: 'code' }, 'code')}
+          <span className="text-gray-600 mx-2">|</span>
+          <span className="text-gray-500">time</span>
+          {TIME_OPTIONS.map(duration => renderModeButton({ type: 'time', duration }, `${duration}`))}
+          <span className="text-gray-600 mx-2">|</span>
+          <span className="text-gray-500">words</span>
+          {WORD_OPTIONS.map(count => renderModeButton({ type: 'words', count }, `${count}`))}
+        </div>
+
+        {/* Text Source Picker */}
+        <div className="flex flex-wrap justify-center items-center gap-2 -mt-6 mb-8 p-3 bg-gray-800/60 rounded-lg text-sm">
+          {getSourcesOfKind(sourceKind).map(source => renderSourceButton(source.id, source.name))}
+          {testMode.type === 'code' && (
+            <>
+              <span className="text-gray-600 mx-2">|</span>
+              {renderCodeToggle('autoIndent', 'auto-indent')}
+              {renderCodeToggle('highlight', 'highlight')}
+            </>
+          )}
+        </div>
+
+        {textSource.id === 'custom' && (
+          <div className="-mt-4 mb-8">
+            <textarea
+              value={customText}
+              onChange={(e) => handleCustomTextChange(e.target.value)}
+              placeholder="Paste the text you want to practise on"
+              rows={4}
+              className="w-full px-4 py-3 bg-gray-800 border border-gray-600 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-blue-500"
+            />
+            <div className="flex flex-wrap items-center gap-2 mt-2 text-sm">
+              {loadPracticeSets().map(set => (
+                <button
+                  key={set.id}
+                  onClick={() => startPracticeSet(set)}
+                  className="px-3 py-1 rounded bg-gray-800 text-gray-300 hover:text-white hover:bg-gray-700 transition-colors"
+                >
+                  ▶ {set.name}
+                </button>
+              ))}
+              <button
+                onClick={() => setAppState('import')}
+                className="px-3 py-1 rounded text-blue-400 hover:text-blue-300"
+              >
+                Import text / manage sets →
+              </button>
+            </div>
+          </div>
+        )}
+
         <div className="grid md:grid-cols-2 gap-6">
           {/* Solo Practice */}
           <div className="bg-gray-800 rounded-lg p-8 text-center hover:bg-gray-700 transition-colors cursor-pointer"
@@ -95,6 +315,51 @@ const App: React.FC = () => {
           </div>
         </div>
 
+        <div className="mt-6 flex flex-wrap gap-3 justify-center">
+          <button
+            onClick={() => setAppState('history')}
+            className="btn-secondary px-6 py-2 rounded-lg text-white font-semibold"
+          >
+            📜 History &amp; Personal Bests
+          </button>
+          <button
+            onClick={() => setAppState('stats')}
+            className="btn-secondary px-6 py-2 rounded-lg text-white font-semibold"
+          >
+            📊 Key Stats
+          </button>
+          <button
+            onClick={() => setAppState('replay')}
+            className="btn-secondary px-6 py-2 rounded-lg text-white font-semibold"
+          >
+            📼 Race Replays
+          </button>
+          <button
+            onClick={() => setAppState('ghosts')}
+            className="btn-secondary px-6 py-2 rounded-lg text-white font-semibold"
+          >
+            👻 Ghost Race
+          </button>
+          <button
+            onClick={() => setAppState('leaderboard')}
+            className="btn-secondary px-6 py-2 rounded-lg text-white font-semibold"
+          >
+            🏆 Leaderboards
+          </button>
+          <button
+            onClick={() => setAppState('tournament')}
+            className="btn-secondary px-6 py-2 rounded-lg text-white font-semibold"
+          >
+            🏟️ Tournaments
+          </button>
+          <button
+            onClick={() => setAppState('account')}
+            className="btn-secondary px-6 py-2 rounded-lg text-white font-semibold"
+          >
+            👤 {loadAccount()?.account.username ?? 'Sign In'}
+          </button>
+        </div>
+
         {/* Features */}
         <div className="mt-16 grid md:grid-cols-3 gap-6">
           <div className="text-center">
@@ -125,21 +390,39 @@ const App: React.FC = () => {
     </div>
   );
 
+  const testCode: CodeOptions | undefined = testMode.type === 'code'
+    ? { ...codeOptions, language: textMeta?.language }
+    : undefined;
+
   const renderTyping = () => (
     <div className="min-h-screen bg-gray-900 py-8">
       <div className="mb-6 text-center">
         <button
-          onClick={() => setAppState('home')}
+          onClick={goHome}
           className="btn-secondary px-4 py-2 rounded-lg text-white font-semibold"
         >
           ← Back to Home
         </button>
       </div>
-      <TypingInterface
-        text={testText}
-        onComplete={handleTestComplete}
-        isActive={true}
-      />
+      {ghost ? (
+        <GhostRace
+          ghost={ghost}
+          onComplete={handleTestComplete}
+          mode={testMode}
+          code={testCode}
+          meta={textMeta || undefined}
+        />
+      ) : (
+        <TypingInterface
+          text={testText}
+          onComplete={handleTestComplete}
+          isActive={true}
+          mode={testMode}
+          code={testCode}
+          meta={textMeta || undefined}
+          onNeedMoreText={testMode.type === 'time' ? handleNeedMoreText : undefined}
+        />
+      )}
     </div>
   );
 
@@ -147,15 +430,30 @@ const App: React.FC = () => {
     <div className="min-h-screen bg-gray-900 py-8">
       <div className="mb-6 text-center">
         <button
-          onClick={() => setAppState('home')}
+          onClick={goHome}
           className="btn-secondary px-4 py-2 rounded-lg text-white font-semibold"
         >
           ← Back to Home
         </button>
       </div>
+      {unlockedLetter && (
+        <div className="max-w-2xl mx-auto mb-4 px-4 py-3 rounded-lg bg-green-900/30 border border-green-600 text-green-300 text-center font-semibold">
+          🔓 New letter unlocked: <span className="font-mono">{unlockedLetter}</span>
+        </div>
+      )}
+      {leaderboardNote && (
+        <div className="max-w-2xl mx-auto mb-4 px-4 py-3 rounded-lg bg-gray-800 text-gray-300 text-center">
+          {leaderboardNote}
+        </div>
+      )}
       {results && (
         <ResultsScreen
           stats={results}
+          keystrokes={keystrokes}
+          timeline={timeline}
+          isPersonalBest={isPersonalBest}
+          ghostOutcome={ghostOutcome || undefined}
+          restartLabel={practiceSet && practiceSet.set.chunks.length > 1 ? 'Next Chunk' : undefined}
           onRestart={handleRestart}
           onJoinRace={handleJoinRace}
         />
@@ -173,7 +471,62 @@ const App: React.FC = () => {
           ← Back to Home
         </button>
       </div>
-      <MultiplayerRace onExit={handleExitMultiplayer} />
+      <MultiplayerRace onExit={handleExitMultiplayer} initialRoomCode={inviteCode || undefined} />
+    </div>
+  );
+
+  const renderHistory = () => (
+    <div className="min-h-screen bg-gray-900 py-8">
+      <HistoryView onBack={() => setAppState('home')} />
+    </div>
+  );
+
+  const renderStats = () => (
+    <div className="min-h-screen bg-gray-900 py-8">
+      <KeyStatsView onBack={() => setAppState('home')} />
+    </div>
+  );
+
+  const renderReplay = () => (
+    <div className="min-h-screen bg-gray-900 py-8">
+      <RaceReplayView onBack={() => setAppState('home')} />
+    </div>
+  );
+
+  const renderGhosts = () => (
+    <div className="min-h-screen bg-gray-900 py-8">
+      <GhostPicker onRace={startGhostRace} onBack={() => setAppState('home')} />
+    </div>
+  );
+
+  const renderLeaderboard = () => (
+    <div className="min-h-screen bg-gray-900 py-8">
+      <LeaderboardView onBack={() => setAppState('home')} />
+    </div>
+  );
+
+  const renderAccount = () => (
+    <div className="min-h-screen bg-gray-900 py-8">
+      <AccountView onBack={() => setAppState('home')} />
+    </div>
+  );
+
+  const renderTournament = () => (
+    <div className="min-h-screen bg-gray-900 py-8">
+      <TournamentView
+        initialTournamentId={tournamentId}
+        onRace={raceTournamentMatch}
+        onBack={() => {
+          setTournamentId(null);
+          setAppState('home');
+        }}
+      />
+    </div>
+  );
+
+  const renderImport = () => (
+    <div className="min-h-screen bg-gray-900 py-8">
+      <CustomTextImport onPractice={(set) => startPracticeSet(set)} onBack={() => setAppState('home')} />
     </div>
   );
 
@@ -186,6 +539,22 @@ const App: React.FC = () => {
       return renderResults();
     case 'multiplayer':
       return renderMultiplayer();
+    case 'history':
+      return renderHistory();
+    case 'import':
+      return renderImport();
+    case 'replay':
+      return renderReplay();
+    case 'ghosts':
+      return renderGhosts();
+    case 'stats':
+      return renderStats();
+    case 'leaderboard':
+      return renderLeaderboard();
+    case 'account':
+      return renderAccount();
+    case 'tournament':
+      return renderTournament();
     default:
       return renderHome();
   }
@@ -0,0 +1,21 @@
+import { KeystrokeEvent } from '../types/typing';
+
+// Keystroke builders shared by the tests that replay typing logs
+
+export const press = (key: string, expected: string, index: number, timestamp: number): KeystrokeEvent => ({
+  key,
+  expected,
+  index,
+  timestamp,
+  correct: key === expected,
+  isBackspace: false
+});
+
+export const backspace = (index: number, timestamp: number, expected = ''): KeystrokeEvent => ({
+  key: 'Backspace',
+  expected,
+  index,
+  timestamp,
+  correct: false,
+  isBackspace: true
+});
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { Account, PASSWORD_LIMITS, USERNAME_MAX_LENGTH } from '../protocol/events';
+import { requestAccount, signOutAccount } from '../protocol/client';
+import { loadAccount } from '../storage/account';
+
+interface AccountViewProps {
+  onBack: () => void;
+}
+
+type AccountAction = 'signIn' | 'register';
+
+const AccountView: React.FC<AccountViewProps> = ({ onBack }) => {
+  const [account, setAccount] = useState<Account | null>(() => loadAccount()?.account ?? null);
+  const [action, setAction] = useState<AccountAction>('signIn');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsBusy(true);
+    requestAccount(action, { username: username.trim(), password })
+      .then(signedIn => {
+        setAccount(signedIn.account);
+        setPassword('');
+      })
+      .catch(problem => setError(problem.message))
+      .finally(() => setIsBusy(false));
+  };
+
+  const signOut = () => {
+    setIsBusy(true);
+    signOutAccount().then(() => {
+      setAccount(null);
+      setIsBusy(false);
+    });
+  };
+
+  const inputClassName = 'w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-blue-500';
+
+  return (
+    <div className="w-full max-w-md mx-auto p-6">
+      <div className="bg-gray-800 rounded-lg p-8">
+        <h2 className="text-3xl font-bold text-white mb-6 text-center">👤 Account</h2>
+
+        {account ? (
+          <div className="text-center">
+            <p className="text-gray-300 mb-2">
+              Signed in as <span className="text-white font-semibold">{account.username}</span>
+            </p>
+            <p className="text-sm text-gray-400 mb-6">
+              Your races are rated, your results go on the leaderboards and your history is kept under this account.
+            </p>
+            <button
+              onClick={signOut}
+              disabled={isBusy}
+              className="bg-red-600 hover:bg-red-700 disabled:opacity-50 px-6 py-2 rounded-lg text-white font-semibold transition-colors"
+            >
+              Sign Out
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={submit} className="space-y-4">
+            {/* Sign In / Register */}
+            <div className="flex justify-center gap-2 text-sm">
+              {(['signIn', 'register'] as const).map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setAction(option)}
+                  className={`px-3 py-1 rounded font-mono transition-colors ${
+                    option === action ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'
+                  }`}
+                >
+                  {option === 'signIn' ? 'Sign in' : 'Create account'}
+                </button>
+              ))}
+            </div>
+            <input
+              type="text"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              maxLength={USERNAME_MAX_LENGTH}
+              placeholder="Username"
+              aria-label="Username"
+              autoComplete="username"
+              className={inputClassName}
+            />
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              maxLength={PASSWORD_LIMITS.max}
+              placeholder={action === 'register' ? `Password (at least ${PASSWORD_LIMITS.min} characters)` : 'Password'}
+              aria-label="Password"
+              autoComplete={action === 'register' ? 'new-password' : 'current-password'}
+              className={inputClassName}
+            />
+            {error && <p className="text-red-300 text-sm">{error}</p>}
+            <button
+              type="submit"
+              disabled={isBusy || !username.trim() || !password}
+              className="w-full bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed px-6 py-3 rounded-lg text-white font-semibold transition-colors"
+            >
+              {action === 'signIn' ? 'Sign In' : 'Create Account'}
+            </button>
+            <p className="text-xs text-gray-500 text-center">
+              Accounts live on the race server. Without one you can still practise and race as a guest.
+            </p>
+          </form>
+        )}
+
+        <div className="flex justify-center mt-8">
+          <button
+            onClick={onBack}
+            className="bg-gray-600 hover:bg-gray-700 px-6 py-2 rounded-lg text-white font-semibold transition-colors"
+          >
+            ← Back to Home
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AccountView;
@@ -0,0 +1,37 @@
+import React from 'react';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import BotRace from './BotRace';
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+test('bots race along the track after the countdown', () => {
+  render(<BotRace username="alice" onExit={jest.fn()} seed={7} />);
+
+  fireEvent.click(screen.getByRole('button', { name: '🏁 Start Race' }));
+  expect(screen.getByText('⏱️ Starting in 3...')).toBeInTheDocument();
+
+  // Each second of the countdown is scheduled after the previous one renders
+  for (let second = 0; second < 3; second++) {
+    act(() => {
+      jest.advanceTimersByTime(1000);
+    });
+  }
+  expect(screen.getByText('🏁 Race in Progress')).toBeInTheDocument();
+  // On the track and as a caret in the race text
+  expect(screen.getAllByText('🤖 Speed Bot')).toHaveLength(2);
+  expect(screen.getAllByText('0%', { selector: 'span' })).toHaveLength(4);
+
+  // Long enough for even the slowest preset to finish any quote
+  act(() => {
+    jest.advanceTimersByTime(5 * 60 * 1000);
+  });
+  expect(screen.getAllByText('100%', { selector: 'span' })).toHaveLength(3);
+  expect(screen.getAllByText('🤖 Speed Bot')).toHaveLength(1);
+  expect(screen.getByText('alice (You)')).toBeInTheDocument();
+});
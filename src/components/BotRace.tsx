@@ -0,0 +1,307 @@
+import React, { useEffect, useRef, useState } from 'react';
+import TypingInterface from './TypingInterface';
+import RaceTrack from './RaceTrack';
+import RaceStandings from './RaceStandings';
+import { KeystrokeEvent, TypingStats } from '../types/typing';
+import { RaceResults, RaceUser } from '../protocol/events';
+import { TextMeta, getTextSource } from '../textSources';
+import { calculateTypingStats, replayKeystrokes } from '../utils/stats';
+import { createSeededRandom } from '../utils/adaptivePractice';
+import { OpponentCursor, getCursorColor } from '../utils/opponentCursors';
+import { saveTestResult } from '../storage/history';
+import {
+  BOT_LIMITS,
+  BOT_PRESETS,
+  BotProfile,
+  BotRun,
+  getBotIndex,
+  getBotRaceResults,
+  hasBotFinished,
+  simulateBotRace
+} from '../utils/bots';
+
+interface BotRaceProps {
+  username: string;
+  onExit: () => void;
+  // Fixes the race text and every bot's run, e.g. for tests
+  seed?: number;
+}
+
+type Phase = 'setup' | 'countdown' | 'racing' | 'finished';
+
+const COUNTDOWN_SECONDS = 3;
+const TICK_MS = 100;
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, Number.isFinite(value) ? value : min));
+
+const BotRace: React.FC<BotRaceProps> = ({ username, onExit, seed }) => {
+  const [profiles, setProfiles] = useState<BotProfile[]>(BOT_PRESETS);
+  const [phase, setPhase] = useState<Phase>('setup');
+  const [countdown, setCountdown] = useState(COUNTDOWN_SECONDS);
+  const [raceText, setRaceText] = useState('');
+  const [raceMeta, setRaceMeta] = useState<TextMeta | null>(null);
+  const [runs, setRuns] = useState<BotRun[]>([]);
+  const [raceStartTime, setRaceStartTime] = useState<number | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const [progress, setProgress] = useState(0);
+  const [raceResults, setRaceResults] = useState<RaceResults | null>(null);
+  const raceCountRef = useRef(0);
+
+  const name = username.trim() || 'You';
+
+  useEffect(() => {
+    if (phase !== 'countdown') return;
+    if (countdown <= 0) {
+      setRaceStartTime(Date.now());
+      setPhase('racing');
+      return;
+    }
+    const timeout = setTimeout(() => setCountdown(prev => prev - 1), 1000);
+    return () => clearTimeout(timeout);
+  }, [phase, countdown]);
+
+  useEffect(() => {
+    if (phase !== 'racing' || !raceStartTime) return;
+    const interval = setInterval(() => setElapsed(Date.now() - raceStartTime), TICK_MS);
+    return () => clearInterval(interval);
+  }, [phase, raceStartTime]);
+
+  const startRace = () => {
+    const raceSeed = (seed ?? Date.now()) + raceCountRef.current++;
+    const { text, meta } = getTextSource('quotes').generate({ type: 'passage' }, createSeededRandom(raceSeed));
+    setRaceText(text);
+    setRaceMeta(meta);
+    setRuns(simulateBotRace(profiles, text, raceSeed));
+    setRaceStartTime(null);
+    setElapsed(0);
+    setProgress(0);
+    setRaceResults(null);
+    setCountdown(COUNTDOWN_SECONDS);
+    setPhase('countdown');
+  };
+
+  const updateProfile = (index: number, changes: Partial<BotProfile>) => {
+    setProfiles(prev => prev.map((profile, idx) => (idx === index ? { ...profile, ...changes } : profile)));
+  };
+
+  const addBot = () => {
+    setProfiles(prev => [...prev, { ...BOT_PRESETS[1], name: `Bot ${prev.length + 1}` }]);
+  };
+
+  // Bots already know when they finish, so the standings are final as soon as we are
+  const handleRaceComplete = (_localStats: TypingStats, keystrokes: KeystrokeEvent[]) => {
+    if (!raceStartTime) return;
+    const stats = calculateTypingStats({
+      target: raceText,
+      typed: replayKeystrokes(keystrokes),
+      keystrokes,
+      startTime: raceStartTime,
+      endTime: Date.now()
+    });
+
+    saveTestResult({
+      kind: 'race',
+      mode: { type: 'passage' },
+      source: raceMeta || { sourceId: 'quotes', textId: '' },
+      stats,
+      timestamp: Date.now(),
+      text: raceText,
+      keystrokes
+    });
+
+    setRaceResults(getBotRaceResults([
+      { id: 'you', username: name, stats },
+      ...runs.map((run, index) => ({ id: `bot-${index}`, username: run.profile.name, stats: run.stats }))
+    ]));
+    setPhase('finished');
+  };
+
+  const trackUsers: RaceUser[] = [
+    { id: 'you', username: name, progress },
+    ...runs.map((run, index) => ({
+      id: `bot-${index}`,
+      username: `🤖 ${run.profile.name}`,
+      progress: raceText.length > 0 ? (getBotIndex(run, elapsed) / raceText.length) * 100 : 0,
+      finished: hasBotFinished(run, elapsed)
+    }))
+  ];
+
+  const botCursors: OpponentCursor[] = runs.flatMap((run, index) => (
+    hasBotFinished(run, elapsed)
+      ? []
+      : [{ id: `bot-${index}`, index: getBotIndex(run, elapsed), name: `🤖 ${run.profile.name}`, color: getCursorColor(index) }]
+  ));
+
+  const inputClassName = 'w-16 bg-gray-800 border border-gray-600 rounded-lg text-white px-2 py-1';
+
+  const renderSetup = () => (
+    <div className="w-full max-w-3xl mx-auto p-6">
+      <div className="bg-gray-800 rounded-lg p-8">
+        <h2 className="text-3xl font-bold text-white mb-2 text-center">🤖 Race Bots Offline</h2>
+        <p className="text-gray-400 text-center mb-6">No server needed. Tune your opponents and race them locally.</p>
+
+        {/* Bot Profiles */}
+        <div className="space-y-2">
+          {profiles.map((profile, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-3 p-3 bg-gray-700 rounded-lg text-sm text-gray-300">
+              <input
+                type="text"
+                value={profile.name}
+                onChange={(e) => updateProfile(index, { name: e.target.value })}
+                aria-label="Bot name"
+                className="w-32 bg-gray-800 border border-gray-600 rounded-lg text-white px-2 py-1"
+              />
+              <label className="flex items-center gap-1">
+                <input
+                  type="number"
+                  min={BOT_LIMITS.minWpm}
+                  max={BOT_LIMITS.maxWpm}
+                  value={profile.wpm}
+                  onChange={(e) => updateProfile(index, { wpm: clamp(Number(e.target.value), BOT_LIMITS.minWpm, BOT_LIMITS.maxWpm) })}
+                  className={inputClassName}
+                />
+                wpm
+              </label>
+              <label className="flex items-center gap-1">
+                ±
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={Math.round(profile.variance * 100)}
+                  onChange={(e) => updateProfile(index, { variance: clamp(Number(e.target.value), 0, 100) / 100 })}
+                  className={inputClassName}
+                />
+                % pace
+              </label>
+              <label className="flex items-center gap-1">
+                <input
+                  type="number"
+                  min={0}
+                  max={50}
+                  value={Math.round(profile.errorRate * 100)}
+                  onChange={(e) => updateProfile(index, { errorRate: clamp(Number(e.target.value), 0, 50) / 100 })}
+                  className={inputClassName}
+                />
+                % typos
+              </label>
+              <label className="flex items-center gap-1">
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={Math.round(profile.correctionRate * 100)}
+                  onChange={(e) => updateProfile(index, { correctionRate: clamp(Number(e.target.value), 0, 100) / 100 })}
+                  className={inputClassName}
+                />
+                % fixed
+              </label>
+              <button
+                onClick={() => setProfiles(prev => prev.filter((_, idx) => idx !== index))}
+                disabled={profiles.length <= 1}
+                className="ml-auto text-red-400 hover:text-red-300 disabled:opacity-30"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap gap-3 justify-center mt-6">
+          <button
+            onClick={addBot}
+            disabled={profiles.length >= BOT_LIMITS.maxBots}
+            className="bg-gray-600 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed px-6 py-2 rounded-lg text-white font-semibold transition-colors"
+          >
+            + Add Bot
+          </button>
+          <button
+            onClick={startRace}
+            className="bg-blue-600 hover:bg-blue-700 px-8 py-2 rounded-lg text-white font-semibold transition-colors"
+          >
+            🏁 Start Race
+          </button>
+          <button
+            onClick={onExit}
+            className="bg-gray-600 hover:bg-gray-700 px-6 py-2 rounded-lg text-white font-semibold transition-colors"
+          >
+            ← Back to Lobby
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+
+  const renderRace = () => (
+    <div className="w-full max-w-4xl mx-auto p-6">
+      <div className="bg-gray-800 rounded-lg p-6 mb-4">
+        <h2 className="text-2xl font-bold text-white mb-4 text-center">
+          {phase === 'countdown' ? `⏱️ Starting in ${countdown}...` : '🏁 Race in Progress'}
+        </h2>
+
+        {/* Race Track */}
+        <RaceTrack users={trackUsers} myId="you" />
+      </div>
+
+      {/* Typing Interface */}
+      {phase === 'racing' && (
+        <TypingInterface
+          text={raceText}
+          onComplete={handleRaceComplete}
+          isActive={true}
+          meta={raceMeta || undefined}
+          onProgressUpdate={setProgress}
+          cursors={botCursors}
+        />
+      )}
+
+      <div className="mt-6 text-center">
+        <button
+          onClick={() => setPhase('setup')}
+          className="bg-red-600 hover:bg-red-700 px-6 py-2 rounded-lg text-white font-semibold transition-colors"
+        >
+          Leave Race
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderResults = () => (
+    <div className="w-full max-w-3xl mx-auto p-6">
+      <div className="bg-gray-800 rounded-lg p-8">
+        <h2 className="text-4xl font-bold text-white mb-8 text-center">🏁 Race Complete!</h2>
+
+        {raceResults && (
+          <RaceStandings results={raceResults.results} isMine={(result) => result.userId === 'you'} />
+        )}
+
+        <div className="flex flex-col sm:flex-row gap-4 justify-center">
+          <button
+            onClick={startRace}
+            className="bg-blue-600 hover:bg-blue-700 px-8 py-3 rounded-lg text-white font-semibold transition-colors"
+          >
+            🏁 Race Again
+          </button>
+          <button
+            onClick={() => setPhase('setup')}
+            className="bg-gray-600 hover:bg-gray-700 px-8 py-3 rounded-lg text-white font-semibold transition-colors"
+          >
+            🤖 Change Bots
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+
+  switch (phase) {
+    case 'setup':
+      return renderSetup();
+    case 'finished':
+      return renderResults();
+    default:
+      return renderRace();
+  }
+};
+
+export default BotRace;
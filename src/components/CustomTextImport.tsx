@@ -0,0 +1,201 @@
+import React, { useMemo, useState } from 'react';
+import { ChunkMode, sanitizeText, splitIntoChunks } from '../utils/sanitizeText';
+import {
+  PracticeSet,
+  deletePracticeSet,
+  loadPracticeSets,
+  savePracticeSet
+} from '../storage/practiceSets';
+
+interface CustomTextImportProps {
+  onPractice: (set: PracticeSet) => void;
+  onBack: () => void;
+}
+
+const CHUNK_LABELS: Record<ChunkMode, string> = {
+  none: 'Whole text',
+  paragraph: 'Paragraphs',
+  sentence: 'Sentences',
+  words: 'Words'
+};
+
+const CustomTextImport: React.FC<CustomTextImportProps> = ({ onPractice, onBack }) => {
+  const [rawText, setRawText] = useState('');
+  const [name, setName] = useState('');
+  const [stripMarkdown, setStripMarkdown] = useState(false);
+  const [chunkMode, setChunkMode] = useState<ChunkMode>('paragraph');
+  const [chunkSize, setChunkSize] = useState(1);
+  const [savedSets, setSavedSets] = useState<PracticeSet[]>(() => loadPracticeSets());
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const cleanText = useMemo(() => sanitizeText(rawText, { stripMarkdown }), [rawText, stripMarkdown]);
+  const chunks = useMemo(() => splitIntoChunks(cleanText, chunkMode, chunkSize), [cleanText, chunkMode, chunkSize]);
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    if (!/\.(txt|md|markdown)$/i.test(file.name)) {
+      setFileError('Only .txt and .md files can be imported.');
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      setRawText(String(reader.result || ''));
+      setStripMarkdown(/\.(md|markdown)$/i.test(file.name));
+      if (!name.trim()) {
+        setName(file.name.replace(/\.[^.]+$/, ''));
+      }
+      setFileError(null);
+    };
+    reader.onerror = () => setFileError('Could not read that file.');
+    reader.readAsText(file);
+  };
+
+  const handleSave = (practiceNow: boolean) => {
+    if (!name.trim() || chunks.length === 0) return;
+    const saved = savePracticeSet(name.trim(), chunks);
+    setSavedSets(loadPracticeSets());
+    if (practiceNow) {
+      onPractice(saved);
+    }
+  };
+
+  const handleDelete = (id: string) => {
+    deletePracticeSet(id);
+    setSavedSets(loadPracticeSets());
+  };
+
+  const inputClassName = 'bg-gray-700 border border-gray-600 rounded-lg text-white text-sm px-3 py-2 focus:outline-none focus:border-blue-500';
+
+  return (
+    <div className="w-full max-w-3xl mx-auto p-6">
+      <div className="bg-gray-800 rounded-lg p-8">
+        <h2 className="text-3xl font-bold text-white mb-6 text-center">📄 Import Custom Text</h2>
+
+        {/* Text Input */}
+        <textarea
+          value={rawText}
+          onChange={(e) => setRawText(e.target.value)}
+          placeholder="Paste API docs, code comments, scripts... anything you want to practise on"
+          rows={8}
+          className="w-full px-4 py-3 bg-gray-900 border border-gray-600 rounded-lg text-white placeholder-gray-500 font-mono text-sm focus:outline-none focus:border-blue-500"
+        />
+        <div className="flex flex-wrap items-center gap-4 mt-3 text-sm text-gray-300">
+          <label className="cursor-pointer text-blue-400 hover:text-blue-300">
+            Upload .txt / .md
+            <input type="file" accept=".txt,.md,.markdown,text/plain,text/markdown" onChange={handleFileUpload} className="hidden" />
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={stripMarkdown} onChange={(e) => setStripMarkdown(e.target.checked)} className="rounded" />
+            Strip Markdown formatting
+          </label>
+        </div>
+        {fileError && <p className="text-red-400 text-sm mt-2">{fileError}</p>}
+
+        {/* Chunking */}
+        <div className="flex flex-wrap items-center gap-3 mt-6">
+          <span className="text-gray-300 text-sm">Split into</span>
+          <select value={chunkMode} onChange={(e) => setChunkMode(e.target.value as ChunkMode)} className={inputClassName}>
+            {(Object.keys(CHUNK_LABELS) as ChunkMode[]).map(mode => (
+              <option key={mode} value={mode}>{CHUNK_LABELS[mode]}</option>
+            ))}
+          </select>
+          {chunkMode !== 'none' && (
+            <>
+              <span className="text-gray-300 text-sm">of</span>
+              <input
+                type="number"
+                min={1}
+                value={chunkSize}
+                onChange={(e) => setChunkSize(Math.max(1, Number(e.target.value) || 1))}
+                className={`${inputClassName} w-20`}
+              />
+              <span className="text-gray-300 text-sm">per test</span>
+            </>
+          )}
+        </div>
+
+        {/* Preview */}
+        {chunks.length > 0 && (
+          <div className="mt-6 p-4 bg-gray-900 rounded-lg">
+            <p className="text-sm text-gray-400 mb-2">
+              {chunks.length} {chunks.length === 1 ? 'test' : 'tests'} • first one:
+            </p>
+            <p className="text-gray-200 font-mono text-sm break-words">{chunks[0]}</p>
+          </div>
+        )}
+
+        {/* Save */}
+        <div className="flex flex-wrap items-center gap-3 mt-6">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Set name"
+            className={`${inputClassName} flex-1 min-w-[12rem]`}
+          />
+          <button
+            onClick={() => handleSave(false)}
+            disabled={!name.trim() || chunks.length === 0}
+            className="bg-gray-600 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed px-6 py-2 rounded-lg text-white font-semibold transition-colors"
+          >
+            Save Set
+          </button>
+          <button
+            onClick={() => handleSave(true)}
+            disabled={!name.trim() || chunks.length === 0}
+            className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed px-6 py-2 rounded-lg text-white font-semibold transition-colors"
+          >
+            Save &amp; Practice
+          </button>
+        </div>
+
+        {/* Saved Sets */}
+        {savedSets.length > 0 && (
+          <div className="mt-8">
+            <h3 className="text-xl font-semibold text-white mb-4">Saved Practice Sets</h3>
+            <div className="space-y-2">
+              {savedSets.map(set => (
+                <div key={set.id} className="flex justify-between items-center p-4 bg-gray-700 rounded-lg">
+                  <div>
+                    <div className="text-white font-medium">{set.name}</div>
+                    <div className="text-xs text-gray-400">
+                      {set.chunks.length} {set.chunks.length === 1 ? 'test' : 'tests'}
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => onPractice(set)}
+                      className="bg-blue-600 hover:bg-blue-700 px-4 py-1 rounded-lg text-white text-sm font-semibold transition-colors"
+                    >
+                      Practice
+                    </button>
+                    <button
+                      onClick={() => handleDelete(set.id)}
+                      className="bg-red-600 hover:bg-red-700 px-4 py-1 rounded-lg text-white text-sm font-semibold transition-colors"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="text-center mt-8">
+          <button
+            onClick={onBack}
+            className="bg-gray-600 hover:bg-gray-700 px-6 py-2 rounded-lg text-white font-semibold transition-colors"
+          >
+            ← Back to Home
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CustomTextImport;
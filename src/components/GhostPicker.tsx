@@ -0,0 +1,73 @@
+import React, { useMemo } from 'react';
+import { TestRecord, getRecordCategory, loadHistory } from '../storage/history';
+import { getGhostCandidates, getRecordText } from '../utils/ghost';
+
+interface GhostPickerProps {
+  onRace: (record: TestRecord) => void;
+  onBack: () => void;
+}
+
+const PREVIEW_LENGTH = 60;
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+const getPreview = (record: TestRecord) => {
+  const text = (getRecordText(record) || '').replace(/\s+/g, ' ');
+  return text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH)}…` : text;
+};
+
+const GhostPicker: React.FC<GhostPickerProps> = ({ onRace, onBack }) => {
+  const candidates = useMemo(() => getGhostCandidates(loadHistory()), []);
+
+  return (
+    <div className="w-full max-w-3xl mx-auto p-6">
+      <div className="bg-gray-800 rounded-lg p-8">
+        <h2 className="text-3xl font-bold text-white mb-2 text-center">👻 Race Your Ghost</h2>
+        <p className="text-gray-400 text-center mb-6">
+          Pick one of your best runs and race it on the same text.
+        </p>
+
+        {candidates.length === 0 ? (
+          <p className="text-gray-400 text-center py-8">
+            No runs to race yet. Finish a passage, code or words test to create a ghost.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {candidates.map(record => (
+              <div key={record.id} className="flex justify-between items-center gap-4 p-4 bg-gray-700 rounded-lg">
+                <div className="min-w-0">
+                  <div className="text-white font-medium">
+                    <span className="text-blue-400 font-semibold">{record.stats.wpm} WPM</span>
+                    <span className="text-gray-400 font-mono text-sm ml-3">{getRecordCategory(record)}</span>
+                    <span className="text-gray-500 text-xs ml-3">{formatDate(record.timestamp)}</span>
+                  </div>
+                  <div className="text-xs text-gray-400 font-mono truncate">
+                    {record.source.author ? `${record.source.author} — ` : ''}{getPreview(record)}
+                  </div>
+                </div>
+                <button
+                  onClick={() => onRace(record)}
+                  className="bg-blue-600 hover:bg-blue-700 px-4 py-1 rounded-lg text-white text-sm font-semibold transition-colors shrink-0"
+                >
+                  Race
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="text-center mt-8">
+          <button
+            onClick={onBack}
+            className="bg-gray-600 hover:bg-gray-700 px-6 py-2 rounded-lg text-white font-semibold transition-colors"
+          >
+            ← Back to Home
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GhostPicker;
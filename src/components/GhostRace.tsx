@@ -0,0 +1,73 @@
+import React, { useEffect, useState } from 'react';
+import TypingInterface from './TypingInterface';
+import RaceTrack from './RaceTrack';
+import { Ghost, getGhostIndex } from '../utils/ghost';
+import { GHOST_CURSOR_COLOR } from '../utils/opponentCursors';
+import { CodeOptions, KeystrokeEvent, StatsSample, TestMode, TypingStats } from '../types/typing';
+import { TextMeta } from '../textSources/types';
+
+interface GhostRaceProps {
+  ghost: Ghost;
+  onComplete: (stats: TypingStats, keystrokes: KeystrokeEvent[], timeline: StatsSample[]) => void;
+  mode?: TestMode;
+  meta?: TextMeta;
+  code?: CodeOptions;
+}
+
+const TICK_MS = 100;
+
+const GhostRace: React.FC<GhostRaceProps> = ({ ghost, onComplete, mode, meta, code }) => {
+  // The ghost sets off with our first keystroke, just like the test timer
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const [progress, setProgress] = useState(0);
+
+  useEffect(() => {
+    if (!startedAt) return;
+    const interval = setInterval(() => setElapsed(Date.now() - startedAt), TICK_MS);
+    return () => clearInterval(interval);
+  }, [startedAt]);
+
+  const ghostIndex = startedAt ? getGhostIndex(ghost, elapsed) : 0;
+  const ghostFinished = ghostIndex >= ghost.text.length;
+
+  const handleKeystroke = (event: KeystrokeEvent) => {
+    setStartedAt(prev => prev ?? event.timestamp);
+  };
+
+  return (
+    <>
+      {/* Race Track */}
+      <div className="w-full max-w-4xl mx-auto px-6">
+        <div className="bg-gray-800 rounded-lg p-6">
+          <RaceTrack
+            myId="you"
+            users={[
+              { id: 'you', username: 'This run', progress },
+              {
+                id: 'ghost',
+                username: `👻 Ghost • ${ghost.stats.wpm} WPM`,
+                progress: (ghostIndex / ghost.text.length) * 100,
+                finished: ghostFinished
+              }
+            ]}
+          />
+        </div>
+      </div>
+
+      <TypingInterface
+        text={ghost.text}
+        onComplete={onComplete}
+        isActive={true}
+        mode={mode}
+        meta={meta}
+        code={code}
+        onProgressUpdate={setProgress}
+        onKeystroke={handleKeystroke}
+        cursors={ghostFinished ? [] : [{ id: 'ghost', index: ghostIndex, name: '👻 Ghost', color: GHOST_CURSOR_COLOR }]}
+      />
+    </>
+  );
+};
+
+export default GhostRace;
@@ -0,0 +1,186 @@
+import React, { useMemo, useState } from 'react';
+import {
+  TestKind,
+  TestRecord,
+  clearHistory,
+  getPersonalBests,
+  getRecordCategory,
+  loadHistory
+} from '../storage/history';
+
+interface HistoryViewProps {
+  onBack: () => void;
+}
+
+type SortKey = 'newest' | 'oldest' | 'wpm' | 'accuracy';
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+const HistoryView: React.FC<HistoryViewProps> = ({ onBack }) => {
+  const [records, setRecords] = useState<TestRecord[]>(() => loadHistory());
+  const [kindFilter, setKindFilter] = useState<TestKind | 'all'>('all');
+  const [categoryFilter, setCategoryFilter] = useState('all');
+  const [sortKey, setSortKey] = useState<SortKey>('newest');
+
+  const personalBests = useMemo(() => getPersonalBests(records), [records]);
+  const categories = useMemo(
+    () => Array.from(new Set(records.map(getRecordCategory))).sort(),
+    [records]
+  );
+  const bestIds = useMemo(
+    () => new Set(Object.values(personalBests).map(record => record.id)),
+    [personalBests]
+  );
+
+  const visibleRecords = useMemo(() => {
+    const filtered = records.filter(record =>
+      (kindFilter === 'all' || record.kind === kindFilter) &&
+      (categoryFilter === 'all' || getRecordCategory(record) === categoryFilter)
+    );
+    return filtered.sort((a, b) => {
+      switch (sortKey) {
+        case 'oldest':
+          return a.timestamp - b.timestamp;
+        case 'wpm':
+          return b.stats.wpm - a.stats.wpm;
+        case 'accuracy':
+          return b.stats.accuracy - a.stats.accuracy;
+        default:
+          return b.timestamp - a.timestamp;
+      }
+    });
+  }, [records, kindFilter, categoryFilter, sortKey]);
+
+  const handleClear = () => {
+    if (window.confirm('Delete all saved test history? This cannot be undone.')) {
+      clearHistory();
+      setRecords([]);
+    }
+  };
+
+  const selectClassName = 'bg-gray-700 border border-gray-600 rounded-lg text-white text-sm px-3 py-2';
+
+  return (
+    <div className="w-full max-w-4xl mx-auto p-6">
+      <div className="bg-gray-800 rounded-lg p-8">
+        <h2 className="text-3xl font-bold text-white mb-6 text-center">📜 Test History</h2>
+
+        {/* Personal Bests */}
+        {categories.length > 0 && (
+          <div className="mb-8">
+            <h3 className="text-xl font-semibold text-white mb-4">Personal Bests</h3>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {categories.map(category => (
+                <div key={category} className="bg-gray-700 p-4 rounded-lg text-center">
+                  <div className="text-2xl font-bold text-yellow-400">{personalBests[category].stats.wpm}</div>
+                  <div className="text-sm text-gray-300 font-mono">{category}</div>
+                  <div className="text-xs text-gray-500 mt-1">{personalBests[category].stats.accuracy}% accuracy</div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Filters */}
+        <div className="flex flex-wrap gap-3 mb-6">
+          <select
+            value={kindFilter}
+            onChange={(e) => setKindFilter(e.target.value as TestKind | 'all')}
+            className={selectClassName}
+          >
+            <option value="all">Solo and races</option>
+            <option value="solo">Solo only</option>
+            <option value="race">Races only</option>
+          </select>
+          <select
+            value={categoryFilter}
+            onChange={(e) => setCategoryFilter(e.target.value)}
+            className={selectClassName}
+          >
+            <option value="all">All modes</option>
+            {categories.map(category => (
+              <option key={category} value={category}>{category}</option>
+            ))}
+          </select>
+          <select
+            value={sortKey}
+            onChange={(e) => setSortKey(e.target.value as SortKey)}
+            className={selectClassName}
+          >
+            <option value="newest">Newest first</option>
+            <option value="oldest">Oldest first</option>
+            <option value="wpm">Fastest first</option>
+            <option value="accuracy">Most accurate first</option>
+          </select>
+        </div>
+
+        {/* Results Table */}
+        {visibleRecords.length === 0 ? (
+          <p className="text-gray-400 text-center py-8">
+            {records.length === 0 ? 'No tests saved yet. Finish a test to see it here.' : 'No tests match these filters.'}
+          </p>
+        ) : (
+          <table className="w-full text-left text-sm">
+            <thead>
+              <tr className="text-gray-400 border-b border-gray-700">
+                <th className="py-2">Date</th>
+                <th className="py-2">Mode</th>
+                <th className="py-2 text-right">WPM</th>
+                <th className="py-2 text-right">Raw</th>
+                <th className="py-2 text-right">Accuracy</th>
+                <th className="py-2 text-right">Time</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleRecords.map(record => (
+                <tr key={record.id} className="border-b border-gray-700/50 text-gray-200">
+                  <td className="py-2">{formatDate(record.timestamp)}</td>
+                  <td className="py-2 font-mono">
+                    {record.kind === 'race' ? '🏁 ' : ''}{getRecordCategory(record)}
+                    {(record.source.author || record.source.title) && (
+                      <div className="text-xs text-gray-500 font-sans">
+                        {record.source.author || record.source.title}
+                      </div>
+                    )}
+                  </td>
+                  <td className="py-2 text-right font-semibold text-blue-400">
+                    {record.stats.wpm}
+                    {bestIds.has(record.id) && <span className="ml-1" title="Personal best">🏆</span>}
+                  </td>
+                  <td className="py-2 text-right text-gray-400">{record.stats.rawWpm}</td>
+                  <td className="py-2 text-right">{record.stats.accuracy}%</td>
+                  <td className="py-2 text-right">{Math.round(record.stats.timeTaken)}s</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div className="flex gap-3 justify-center mt-8">
+          {records.length > 0 && (
+            <button
+              onClick={handleClear}
+              className="bg-red-600 hover:bg-red-700 px-6 py-2 rounded-lg text-white font-semibold transition-colors"
+            >
+              Clear History
+            </button>
+          )}
+          <button
+            onClick={onBack}
+            className="bg-gray-600 hover:bg-gray-700 px-6 py-2 rounded-lg text-white font-semibold transition-colors"
+          >
+            ← Back to Home
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryView;
@@ -0,0 +1,92 @@
+import React, { useMemo, useState } from 'react';
+import { loadHistory } from '../storage/history';
+import { RankedKey, aggregateKeyStats, getProblemKeys, getSlowestKeys } from '../utils/keyStats';
+import KeyboardHeatmap, { HeatmapMetric } from './KeyboardHeatmap';
+
+interface KeyStatsViewProps {
+  onBack: () => void;
+}
+
+const KeyList: React.FC<{ title: string; entries: RankedKey[] }> = ({ title, entries }) => (
+  <div className="bg-gray-700 rounded-lg p-4">
+    <h4 className="text-white font-semibold mb-3">{title}</h4>
+    {entries.length === 0 ? (
+      <p className="text-sm text-gray-400">Not enough data yet.</p>
+    ) : (
+      <ol className="space-y-1 text-sm">
+        {entries.map(entry => (
+          <li key={entry.key} className="flex justify-between text-gray-200">
+            <span className="font-mono">{entry.key}</span>
+            <span className="text-gray-400">
+              {Math.round(entry.errorRate * 100)}% • {Math.round(entry.averageLatency)}ms
+            </span>
+          </li>
+        ))}
+      </ol>
+    )}
+  </div>
+);
+
+const KeyStatsView: React.FC<KeyStatsViewProps> = ({ onBack }) => {
+  const [metric, setMetric] = useState<HeatmapMetric>('errors');
+
+  const { report, testCount } = useMemo(() => {
+    const logs = loadHistory()
+      .map(record => record.keystrokes)
+      .filter((log): log is NonNullable<typeof log> => !!log && log.length > 0);
+    return { report: aggregateKeyStats(logs), testCount: logs.length };
+  }, []);
+
+  return (
+    <div className="w-full max-w-4xl mx-auto p-6">
+      <div className="bg-gray-800 rounded-lg p-8">
+        <h2 className="text-3xl font-bold text-white mb-2 text-center">📊 Key Stats</h2>
+        <p className="text-gray-400 text-center mb-6">
+          Across {testCount} saved {testCount === 1 ? 'test' : 'tests'}
+        </p>
+
+        {testCount === 0 ? (
+          <p className="text-gray-400 text-center py-8">Finish a few tests to see which keys slow you down.</p>
+        ) : (
+          <>
+            {/* Heatmap */}
+            <div className="flex justify-center gap-2 mb-4">
+              {(['errors', 'latency'] as HeatmapMetric[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setMetric(option)}
+                  className={`px-4 py-1 rounded text-sm font-mono transition-colors ${
+                    metric === option ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:text-white'
+                  }`}
+                >
+                  {option === 'errors' ? 'error rate' : 'latency'}
+                </button>
+              ))}
+            </div>
+            <div className="flex justify-center mb-8">
+              <KeyboardHeatmap keys={report.keys} metric={metric} />
+            </div>
+
+            {/* Weakest Keys */}
+            <div className="grid md:grid-cols-3 gap-4">
+              <KeyList title="Most missed keys" entries={getProblemKeys(report.keys, 8)} />
+              <KeyList title="Slowest keys" entries={getSlowestKeys(report.keys, 8)} />
+              <KeyList title="Problem bigrams" entries={getProblemKeys(report.bigrams, 8)} />
+            </div>
+          </>
+        )}
+
+        <div className="text-center mt-8">
+          <button
+            onClick={onBack}
+            className="bg-gray-600 hover:bg-gray-700 px-6 py-2 rounded-lg text-white font-semibold transition-colors"
+          >
+            ← Back to Home
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default KeyStatsView;
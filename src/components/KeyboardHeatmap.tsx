@@ -0,0 +1,67 @@
+import React from 'react';
+import { KeyStat, getAverageLatency, getErrorRate } from '../utils/keyStats';
+
+export type HeatmapMetric = 'errors' | 'latency';
+
+interface KeyboardHeatmapProps {
+  keys: Record<string, KeyStat>;
+  metric: HeatmapMetric;
+}
+
+const ROWS = [
+  ['`', '1', '2', '3', '4', '5', '6', '7', '8', '9', '0', '-', '='],
+  ['q', 'w', 'e', 'r', 't', 'y', 'u', 'i', 'o', 'p', '[', ']', '\\'],
+  ['a', 's', 'd', 'f', 'g', 'h', 'j', 'k', 'l', ';', "'"],
+  ['z', 'x', 'c', 'v', 'b', 'n', 'm', ',', '.', '/']
+];
+
+// Row offsets mimic the stagger of a physical keyboard
+const ROW_INDENT = ['ml-0', 'ml-4', 'ml-8', 'ml-12'];
+
+const formatValue = (stat: KeyStat | undefined, metric: HeatmapMetric) => {
+  if (!stat) return 'no data';
+  return metric === 'errors'
+    ? `${Math.round(getErrorRate(stat) * 100)}% missed of ${stat.attempts}`
+    : `${Math.round(getAverageLatency(stat))}ms average`;
+};
+
+const KeyboardHeatmap: React.FC<KeyboardHeatmapProps> = ({ keys, metric }) => {
+  const valueOf = (stat: KeyStat) => (metric === 'errors' ? getErrorRate(stat) : getAverageLatency(stat));
+  const values = Object.values(keys).map(valueOf).filter(value => value > 0);
+  const max = values.length > 0 ? Math.max(...values) : 1;
+
+  // Green for the best keys through red for the worst, relative to this user's own spread
+  const colorFor = (stat: KeyStat | undefined) => {
+    if (!stat) return 'rgb(55, 65, 81)';
+    const intensity = Math.min(valueOf(stat) / max, 1);
+    const hue = Math.round(120 - intensity * 120);
+    return `hsl(${hue}, 65%, 40%)`;
+  };
+
+  const renderKey = (key: string, label: string, className = 'w-10') => (
+    <div
+      key={key}
+      title={`${label}: ${formatValue(keys[key], metric)}`}
+      className={`${className} h-10 rounded flex items-center justify-center text-sm font-mono text-white`}
+      style={{ backgroundColor: colorFor(keys[key]) }}
+    >
+      {label}
+    </div>
+  );
+
+  return (
+    <div className="inline-flex flex-col gap-1" role="img" aria-label={`Keyboard heatmap by ${metric}`}>
+      {ROWS.map((row, rowIndex) => (
+        <div key={rowIndex} className={`flex gap-1 ${ROW_INDENT[rowIndex]}`}>
+          {row.map(key => renderKey(key, key))}
+          {rowIndex === 2 && renderKey('enter', '↵', 'w-14')}
+        </div>
+      ))}
+      <div className="flex justify-center gap-1">
+        {renderKey('space', 'space', 'w-64')}
+      </div>
+    </div>
+  );
+};
+
+export default KeyboardHeatmap;
@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from 'react';
+import {
+  GROUP_MAX_LENGTH,
+  LEADERBOARD_MODES,
+  LEADERBOARD_PERIODS,
+  Leaderboard,
+  LeaderboardMode,
+  LeaderboardPeriod
+} from '../protocol/events';
+import { RaceSocket, connectRaceServer } from '../protocol/client';
+import { guardServerEvent } from '../protocol/validators';
+import { LeaderboardProfile, loadLeaderboardProfile, saveLeaderboardProfile } from '../storage/leaderboardProfile';
+import { loadAccount } from '../storage/account';
+import { LEADERBOARD_MODE_LABELS, LEADERBOARD_PERIOD_LABELS } from '../utils/leaderboard';
+
+interface LeaderboardViewProps {
+  onBack: () => void;
+}
+
+const LeaderboardView: React.FC<LeaderboardViewProps> = ({ onBack }) => {
+  const [account] = useState(() => loadAccount()?.account ?? null);
+  const [profile, setProfile] = useState<LeaderboardProfile>(() => loadLeaderboardProfile());
+  const [mode, setMode] = useState<LeaderboardMode>('time-60');
+  const [period, setPeriod] = useState<LeaderboardPeriod>('weekly');
+  // Starts on the player's own team, if they have one
+  const [group, setGroup] = useState(() => loadLeaderboardProfile().group);
+  const [socket, setSocket] = useState<RaceSocket | null>(null);
+  const [leaderboard, setLeaderboard] = useState<Leaderboard | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const newSocket = connectRaceServer();
+    const showError = (problem: { message: string }) => setError(problem.message);
+    newSocket.on('leaderboard', guardServerEvent('leaderboard', (data) => {
+      setLeaderboard(data);
+      setError(null);
+    }, showError));
+    newSocket.on('lobbyError', showError);
+    newSocket.on('connect_error', () => setError('Leaderboards need the race server, which could not be reached.'));
+    setSocket(newSocket);
+    return () => {
+      newSocket.close();
+    };
+  }, []);
+
+  // Emits before the connection is up are queued by Socket.IO
+  useEffect(() => {
+    socket?.emit('getLeaderboard', { mode, period, group: group.trim() || undefined });
+  }, [socket, mode, period, group]);
+
+  const updateProfile = (changes: Partial<LeaderboardProfile>) => {
+    const next = { ...profile, ...changes };
+    setProfile(next);
+    saveLeaderboardProfile(next);
+  };
+
+  const renderTab = (selected: boolean, label: string, onClick: () => void) => (
+    <button
+      key={label}
+      onClick={onClick}
+      className={`px-3 py-1 rounded font-mono transition-colors ${
+        selected ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  const inputClassName = 'px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm placeholder-gray-400 focus:outline-none focus:border-blue-500';
+
+  return (
+    <div className="w-full max-w-4xl mx-auto p-6">
+      <div className="bg-gray-800 rounded-lg p-8">
+        <h2 className="text-3xl font-bold text-white mb-6 text-center">🏆 Leaderboards</h2>
+
+        {/* Profile */}
+        <div className="mb-6 p-4 bg-gray-700/50 rounded-lg">
+          <p className="text-sm text-gray-400 mb-3">
+            {account
+              ? <>Your solo tests in these modes and your races count as <span className="text-white font-semibold">{account.username}</span>.</>
+              : 'Sign in from the home screen to put your solo tests and races on the leaderboards.'}
+          </p>
+          <div className="flex flex-wrap gap-3">
+            <input
+              type="text"
+              value={profile.group}
+              onChange={(e) => updateProfile({ group: e.target.value })}
+              maxLength={GROUP_MAX_LENGTH}
+              placeholder="Your team (optional)"
+              aria-label="Your team"
+              className={inputClassName}
+            />
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap justify-center items-center gap-2 mb-3 p-3 bg-gray-900/50 rounded-lg text-sm">
+          {LEADERBOARD_MODES.map(option => renderTab(option === mode, LEADERBOARD_MODE_LABELS[option], () => setMode(option)))}
+          <span className="text-gray-600 mx-2">|</span>
+          {LEADERBOARD_PERIODS.map(option => renderTab(option === period, LEADERBOARD_PERIOD_LABELS[option], () => setPeriod(option)))}
+        </div>
+        <div className="flex justify-center mb-6">
+          <input
+            type="text"
+            value={group}
+            onChange={(e) => setGroup(e.target.value)}
+            maxLength={GROUP_MAX_LENGTH}
+            placeholder="Filter by team"
+            aria-label="Filter by team"
+            className={inputClassName}
+          />
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-900/20 border border-red-700 rounded-lg">
+            <p className="text-red-300">{error}</p>
+          </div>
+        )}
+
+        {/* Rankings */}
+        {!leaderboard ? (
+          !error && <p className="text-gray-400 text-center py-8">Loading leaderboard...</p>
+        ) : leaderboard.entries.length === 0 ? (
+          <p className="text-gray-400 text-center py-8">
+            No results {leaderboard.group ? `from ${leaderboard.group} ` : ''}yet. Be the first!
+          </p>
+        ) : (
+          <>
+            <table className="w-full text-left text-sm">
+              <thead>
+                <tr className="text-gray-400 border-b border-gray-700">
+                  <th className="py-2">#</th>
+                  <th className="py-2">Name</th>
+                  <th className="py-2">Team</th>
+                  <th className="py-2 text-right">Score</th>
+                  <th className="py-2 text-right">Best</th>
+                  <th className="py-2 text-right">Accuracy</th>
+                  <th className="py-2 text-right">Tests</th>
+                </tr>
+              </thead>
+              <tbody>
+                {leaderboard.entries.map(entry => (
+                  <tr
+                    key={entry.userId}
+                    className={`border-b border-gray-700/50 ${entry.userId === account?.id ? 'text-blue-300' : 'text-gray-200'}`}
+                  >
+                    <td className="py-2">{entry.rank}</td>
+                    <td className="py-2 font-semibold">{entry.username}</td>
+                    <td className="py-2 text-gray-400">{entry.group || '—'}</td>
+                    <td className="py-2 text-right font-semibold text-yellow-400">{entry.score}</td>
+                    <td className="py-2 text-right">{entry.bestWpm}</td>
+                    <td className="py-2 text-right">{entry.accuracy}%</td>
+                    <td className="py-2 text-right text-gray-400">{entry.results}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-gray-500 mt-3 text-center">
+              Score is the average WPM of each player's best {leaderboard.bestOf} results.
+            </p>
+          </>
+        )}
+
+        <div className="flex justify-center mt-8">
+          <button
+            onClick={onBack}
+            className="bg-gray-600 hover:bg-gray-700 px-6 py-2 rounded-lg text-white font-semibold transition-colors"
+          >
+            ← Back to Home
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LeaderboardView;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import LobbyChat from './LobbyChat';
+
+const messages = [
+  { id: 'chat-1', userId: 'a', username: 'alice', text: 'gl hf', time: 1 },
+  { id: 'chat-2', userId: 'b', username: 'bob', text: 'you too', time: 2 }
+];
+
+test('lists messages and sends what was typed', () => {
+  const onSend = jest.fn();
+  render(<LobbyChat messages={messages} myId="a" onSend={onSend} />);
+
+  expect(screen.getByText('gl hf')).toBeInTheDocument();
+  expect(screen.getByText('bob:')).toHaveClass('text-yellow-300');
+  expect(screen.getByText('alice:')).toHaveClass('text-blue-300');
+
+  const input = screen.getByRole('textbox', { name: 'Chat message' });
+  fireEvent.change(input, { target: { value: '  rematch?  ' } });
+  fireEvent.click(screen.getByRole('button', { name: 'Send' }));
+
+  expect(onSend).toHaveBeenCalledWith('rematch?');
+  expect(input).toHaveValue('');
+});
+
+test('shows moderation feedback from the server', () => {
+  render(<LobbyChat messages={[]} myId={null} onSend={jest.fn()} error="You are sending messages too quickly. Wait a moment." />);
+
+  expect(screen.getByText('No messages yet. Say hi!')).toBeInTheDocument();
+  expect(screen.getByText('You are sending messages too quickly. Wait a moment.')).toBeInTheDocument();
+  expect(screen.getByRole('button', { name: 'Send' })).toBeDisabled();
+});
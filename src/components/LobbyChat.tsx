@@ -0,0 +1,65 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CHAT_MAX_LENGTH, ChatMessage } from '../protocol/events';
+
+interface LobbyChatProps {
+  messages: ChatMessage[];
+  myId: string | null;
+  onSend: (text: string) => void;
+  // Moderation feedback from the server, e.g. a rate limit
+  error?: string | null;
+}
+
+const LobbyChat: React.FC<LobbyChatProps> = ({ messages, myId, onSend, error }) => {
+  const [draft, setDraft] = useState('');
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest message in view
+  useEffect(() => {
+    listRef.current?.scrollTo?.({ top: listRef.current.scrollHeight });
+  }, [messages]);
+
+  const send = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+    onSend(draft.trim());
+    setDraft('');
+  };
+
+  return (
+    <div className="mb-6 text-left">
+      <h3 className="text-xl font-semibold text-white mb-3">💬 Chat</h3>
+      <div ref={listRef} className="h-40 overflow-y-auto p-3 bg-gray-900 rounded-lg space-y-1 text-sm">
+        {messages.length === 0 && <p className="text-gray-500">No messages yet. Say hi!</p>}
+        {messages.map(message => (
+          <p key={message.id} className="text-gray-300 break-words">
+            <span className={`font-semibold ${message.userId === myId ? 'text-blue-300' : 'text-yellow-300'}`}>
+              {message.username}:
+            </span>{' '}
+            {message.text}
+          </p>
+        ))}
+      </div>
+      {error && <p className="mt-2 text-sm text-yellow-400">{error}</p>}
+      <form onSubmit={send} className="mt-2 flex gap-2">
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          maxLength={CHAT_MAX_LENGTH}
+          placeholder="Type a message"
+          aria-label="Chat message"
+          className="flex-1 px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={!draft.trim()}
+          className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed px-4 py-2 rounded-lg text-white font-semibold transition-colors"
+        >
+          Send
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default LobbyChat;
@@ -1,597 +1,1057 @@
-import React, { useState, useEffect } from 'react';
-import { io, Socket } from 'socket.io-client';
-import TypingInterface from './TypingInterface';
-
-interface RaceUser {
-  id: string;
-  username: string;
-  progress: number;
-  finished?: boolean;
-  rank?: number;
-  stats?: {
-    wpm: number;
-    accuracy: number;
-    timeTaken: number;
-  };
-}
-
-interface LobbyState {
-  users: RaceUser[];
-  countdown: number;
-  status: 'waiting' | 'countdown' | 'racing' | 'finished';
-}
-
-interface RaceStart {
-  raceText: string;
-  startTime: number;
-}
-
-interface UserFinished {
-  rank: number;
-  stats: {
-    wpm: number;
-    accuracy: number;
-    timeTaken: number;
-  };
-  currentStandings: Array<{
-    rank: number;
-    username: string;
-    wpm: number;
-    accuracy: number;
-    timeTaken: number;
-  }>;
-}
-
-interface RaceResults {
-  results: Array<{
-    rank: number;
-    username: string;
-    wpm: number;
-    accuracy: number;
-    timeTaken: number;
-  }>;
-  finished: boolean;
-}
-
-interface MultiplayerRaceProps {
-  onExit: () => void;
-}
-
-const MultiplayerRace: React.FC<MultiplayerRaceProps> = ({ onExit }) => {
-  const [socket, setSocket] = useState<Socket | null>(null);
-  const [lobbyState, setLobbyState] = useState<LobbyState>({
-    users: [],
-    countdown: 0,
-    status: 'waiting'
-  });
-  const [raceText, setRaceText] = useState('');
-  const [raceStartTime, setRaceStartTime] = useState<number | null>(null);
-  const [raceResults, setRaceResults] = useState<RaceResults | null>(null);
-  const [username, setUsername] = useState('');
-  const [isConnected, setIsConnected] = useState(false);
-  const [isReconnecting, setIsReconnecting] = useState(false);
-  const [connectionError, setConnectionError] = useState<string | null>(null);
-  const [myRank, setMyRank] = useState<number | null>(null);
-  const [hasJoined, setHasJoined] = useState(false);
-  const [currentStandings, setCurrentStandings] = useState<UserFinished['currentStandings']>([]);
-  const [wasInLobby, setWasInLobby] = useState(false);
-
-  useEffect(() => {
-    // Initialize socket connection with reconnection options
-    const serverUrl = process.env.REACT_APP_SERVER_URL || 'http://localhost:5000';
-    const newSocket = io(serverUrl, {
-      reconnection: true,
-      reconnectionDelay: 1000,
-      reconnectionDelayMax: 5000,
-      reconnectionAttempts: Infinity,
-      timeout: 20000,
-    });
-    setSocket(newSocket);
-
-    // Socket event listeners
-    newSocket.on('connect', () => {
-      console.log('Connected to server');
-      setIsConnected(true);
-      setIsReconnecting(false);
-      setConnectionError(null);
-      
-      // Rejoin lobby if we were in one before disconnect
-      if (wasInLobby && username.trim() && hasJoined) {
-        console.log('Reconnecting to lobby...');
-        newSocket.emit('joinLobby', { username: username.trim(), reconnect: true });
-      }
-    });
-
-    newSocket.on('disconnect', (reason) => {
-      console.log('Disconnected from server:', reason);
-      setIsConnected(false);
-      if (reason === 'io server disconnect') {
-        // Server disconnected the client, manual reconnect needed
-        setConnectionError('Disconnected from server. Please refresh the page.');
-      } else {
-        // Client-side disconnect or connection lost, will auto-reconnect
-        setIsReconnecting(true);
-      }
-    });
-
-    newSocket.on('reconnect_attempt', () => {
-      console.log('Attempting to reconnect...');
-      setIsReconnecting(true);
-      setConnectionError(null);
-    });
-
-    newSocket.on('reconnect', (attemptNumber) => {
-      console.log('Reconnected after', attemptNumber, 'attempts');
-      setIsReconnecting(false);
-      setIsConnected(true);
-      setConnectionError(null);
-    });
-
-    newSocket.on('reconnect_error', (error) => {
-      console.error('Reconnection error:', error);
-      setIsReconnecting(true);
-      setConnectionError('Connection lost. Attempting to reconnect...');
-    });
-
-    newSocket.on('reconnect_failed', () => {
-      console.error('Failed to reconnect');
-      setIsReconnecting(false);
-      setConnectionError('Failed to reconnect. Please refresh the page.');
-    });
-
-    newSocket.on('connect_error', (error) => {
-      console.error('Connection error:', error);
-      setConnectionError('Unable to connect to server. Please check your connection.');
-      setIsConnected(false);
-    });
-
-    newSocket.on('lobbyState', (data: LobbyState) => {
-      setLobbyState(data);
-    });
-
-    newSocket.on('raceStart', (data: RaceStart) => {
-      setRaceText(data.raceText);
-      setRaceStartTime(data.startTime);
-      setLobbyState(prev => ({ ...prev, status: 'racing' }));
-    });
-
-    newSocket.on('opponentProgress', (data: { userId: string; progress: number }) => {
-      setLobbyState(prev => ({
-        ...prev,
-        users: prev.users.map(user => 
-          user.id === data.userId 
-            ? { ...user, progress: data.progress }
-            : user
-        )
-      }));
-    });
-
-    newSocket.on('userFinished', (data: UserFinished) => {
-      setMyRank(data.rank);
-      setCurrentStandings(data.currentStandings);
-      console.log(`You finished in rank ${data.rank}!`, data.currentStandings);
-    });
-
-    newSocket.on('opponentFinished', (data: { userId: string; username: string; rank: number; stats: any }) => {
-      setLobbyState(prev => ({
-        ...prev,
-        users: prev.users.map(user => 
-          user.id === data.userId 
-            ? { ...user, finished: true, rank: data.rank, stats: data.stats }
-            : user
-        )
-      }));
-    });
-
-    newSocket.on('raceResults', (data: RaceResults) => {
-      setRaceResults(data);
-      setLobbyState(prev => ({ ...prev, status: 'finished' }));
-    });
-
-    newSocket.on('raceError', (error: { message: string; code?: string }) => {
-      console.error('Race error:', error);
-      setConnectionError(error.message || 'An error occurred during the race.');
-    });
-
-    newSocket.on('lobbyError', (error: { message: string; code?: string }) => {
-      console.error('Lobby error:', error);
-      setConnectionError(error.message || 'An error occurred in the lobby.');
-    });
-
-    newSocket.on('raceTimeout', (data: { message: string; unfinishedUsers?: string[] }) => {
-      console.log('Race timeout:', data);
-      if (data.unfinishedUsers && data.unfinishedUsers.length > 0) {
-        setConnectionError(`${data.message}. Some players did not finish: ${data.unfinishedUsers.join(', ')}`);
-      } else {
-        setConnectionError(data.message || 'Race time limit reached.');
-      }
-    });
-
-    return () => {
-      newSocket.close();
-    };
-  }, [wasInLobby, username, hasJoined]);
-
-  const joinLobby = () => {
-    if (socket && username.trim() && isConnected) {
-      socket.emit('joinLobby', { username: username.trim() });
-      setHasJoined(true);
-      setWasInLobby(true);
-    }
-  };
-
-  const handleProgressUpdate = (progress: number) => {
-    if (socket && lobbyState.status === 'racing' && isConnected) {
-      try {
-        // Validate progress value
-        const validatedProgress = Math.max(0, Math.min(100, progress));
-        socket.emit('progressUpdate', { progress: validatedProgress });
-      } catch (error) {
-        console.error('Error sending progress update:', error);
-      }
-    }
-  };
-
-  const handleRaceComplete = (stats: any) => {
-    if (socket && raceStartTime && isConnected) {
-      try {
-        const timeTaken = (Date.now() - raceStartTime) / 1000;
-        
-        // Validate stats
-        if (typeof stats.wpm !== 'number' || typeof stats.accuracy !== 'number' || isNaN(stats.wpm) || isNaN(stats.accuracy)) {
-          console.error('Invalid race stats:', stats);
-          setConnectionError('Invalid race completion data. Please try again.');
-          return;
-        }
-
-        socket.emit('raceFinished', {
-          finalWPM: Math.max(0, stats.wpm),
-          finalAccuracy: Math.max(0, Math.min(100, stats.accuracy)),
-          timeTaken: Math.max(0, timeTaken)
-        });
-      } catch (error) {
-        console.error('Error completing race:', error);
-        setConnectionError('Failed to submit race results. Please try again.');
-      }
-    }
-  };
-
-  const leaveLobby = () => {
-    if (socket) {
-      socket.emit('leaveLobby');
-      socket.disconnect();
-      // Reset state
-      setHasJoined(false);
-      setWasInLobby(false);
-      setRaceText('');
-      setRaceStartTime(null);
-      setMyRank(null);
-      setCurrentStandings([]);
-      setLobbyState({ users: [], countdown: 0, status: 'waiting' });
-      setConnectionError(null);
-    }
-    onExit();
-  };
-
-  const renderLobby = () => (
-    <div className="w-full max-w-2xl mx-auto p-6">
-      <div className="bg-gray-800 rounded-lg p-8 text-center">
-        <h2 className="text-3xl font-bold text-white mb-6">
-          {lobbyState.status === 'waiting' ? '🏁 Join Multiplayer Race' : '⏱️ Race Starting Soon!'}
-        </h2>
-        
-        {!isConnected && !isReconnecting && (
-          <div className="mb-6 p-4 bg-red-900/20 border border-red-700 rounded-lg">
-            <p className="text-red-300">Connecting to server...</p>
-          </div>
-        )}
-
-        {isReconnecting && (
-          <div className="mb-6 p-4 bg-yellow-900/20 border border-yellow-700 rounded-lg">
-            <p className="text-yellow-300">Reconnecting to server...</p>
-            <p className="text-sm text-yellow-400 mt-1">Please wait, we'll restore your connection shortly.</p>
-          </div>
-        )}
-
-        {connectionError && !isReconnecting && (
-          <div className="mb-6 p-4 bg-red-900/20 border border-red-700 rounded-lg">
-            <p className="text-red-300">{connectionError}</p>
-            {connectionError.includes('refresh') && (
-              <button
-                onClick={() => window.location.reload()}
-                className="mt-2 bg-red-600 hover:bg-red-700 px-4 py-2 rounded-lg text-white text-sm font-semibold transition-colors"
-              >
-                Refresh Page
-              </button>
-            )}
-          </div>
-        )}
-
-        {isConnected && !connectionError && (
-          <div className="mb-6 p-2 bg-green-900/20 border border-green-700 rounded-lg">
-            <p className="text-green-300 text-sm flex items-center">
-              <span className="w-2 h-2 bg-green-500 rounded-full mr-2 animate-pulse"></span>
-              Connected
-            </p>
-          </div>
-        )}
-
-        {lobbyState.status === 'waiting' && !hasJoined && (
-          <div className="mb-6">
-            <p className="text-gray-300 mb-4">Enter your name to join the race lobby</p>
-            <input
-              type="text"
-              placeholder="Enter your username"
-              value={username}
-              onChange={(e) => setUsername(e.target.value)}
-              className="w-full max-w-xs px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/50"
-              onKeyPress={(e) => e.key === 'Enter' && joinLobby()}
-              autoFocus
-            />
-            <button
-              onClick={joinLobby}
-              disabled={!username.trim() || !isConnected}
-              className="mt-4 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 px-8 py-3 rounded-lg text-white font-semibold disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-            >
-              Join Race
-            </button>
-          </div>
-        )}
-
-        {hasJoined && lobbyState.status === 'waiting' && (
-          <div className="mb-6 p-4 bg-blue-900/20 border border-blue-700 rounded-lg">
-            <p className="text-blue-300">Waiting for more players to join...</p>
-            <p className="text-sm text-gray-400 mt-2">Race will start when 2 or more players are ready</p>
-          </div>
-        )}
-
-        {lobbyState.status === 'countdown' && (
-          <div className="mb-6">
-            <div className="text-8xl font-bold text-blue-400 mb-4 animate-pulse">
-              {lobbyState.countdown}
-            </div>
-            <p className="text-xl text-gray-300">Get your fingers ready! 🚀</p>
-          </div>
-        )}
-
-        {/* Players List */}
-        <div className="mb-6">
-          <h3 className="text-xl font-semibold text-white mb-4">
-            Players in Lobby ({lobbyState.users.length}/6)
-          </h3>
-          <div className="space-y-2">
-            {lobbyState.users.map((user, index) => (
-              <div 
-                key={user.id} 
-                className="flex justify-between items-center p-4 bg-gray-700 rounded-lg hover:bg-gray-650 transition-colors"
-              >
-                <div className="flex items-center">
-                  <span className="text-2xl mr-3">
-                    {index === 0 ? '👑' : '👤'}
-                  </span>
-                  <span className="text-white font-medium">{user.username}</span>
-                </div>
-                {user.finished && user.rank && (
-                  <span className="text-green-400 font-semibold">
-                    #{user.rank} - {user.stats?.wpm} WPM
-                  </span>
-                )}
-                {!user.finished && lobbyState.status === 'waiting' && (
-                  <span className="text-green-400 text-sm">Ready</span>
-                )}
-              </div>
-            ))}
-          </div>
-        </div>
-
-        <div className="flex gap-3 justify-center">
-          {hasJoined && lobbyState.status !== 'finished' && (
-            <button
-              onClick={leaveLobby}
-              className="bg-red-600 hover:bg-red-700 px-6 py-2 rounded-lg text-white font-semibold transition-colors"
-            >
-              Leave Race
-            </button>
-          )}
-          <button
-            onClick={onExit}
-            className="bg-gray-600 hover:bg-gray-700 px-6 py-2 rounded-lg text-white font-semibold transition-colors"
-          >
-            ← Back to Home
-          </button>
-        </div>
-      </div>
-    </div>
-  );
-
-  const renderRaceTrack = () => (
-    <div className="w-full max-w-4xl mx-auto p-6">
-      <div className="mb-6">
-        <div className="bg-gray-800 rounded-lg p-6 mb-4">
-          <h2 className="text-2xl font-bold text-white mb-4 text-center">
-            🏁 Race in Progress
-          </h2>
-          
-          {/* Race Track */}
-          <div className="race-track space-y-3">
-            {lobbyState.users
-              .sort((a, b) => (b.progress || 0) - (a.progress || 0))
-              .map((user) => {
-                const isMe = user.id === socket?.id;
-                return (
-                  <div key={user.id} className={`p-3 rounded-lg ${isMe ? 'bg-blue-900/30 border-2 border-blue-500' : 'bg-gray-700'}`}>
-                    <div className="flex justify-between items-center mb-2">
-                      <div className="flex items-center">
-                        <span className="text-xl mr-2">
-                          {user.finished ? '✅' : '🏃'}
-                        </span>
-                        <span className={`font-semibold ${isMe ? 'text-blue-300' : 'text-white'}`}>
-                          {user.username} {isMe ? '(You)' : ''}
-                        </span>
-                      </div>
-                      <div className="text-right">
-                        <span className="text-gray-400 text-sm">{Math.round(user.progress)}%</span>
-                        {user.finished && user.rank && (
-                          <span className="ml-3 text-green-400 font-bold">#{user.rank}</span>
-                        )}
-                      </div>
-                    </div>
-                    <div className="w-full bg-gray-600 rounded-full h-3 overflow-hidden">
-                      <div 
-                        className={`h-3 rounded-full transition-all duration-300 ${
-                          user.finished ? 'bg-green-500' :
-                          isMe ? 'bg-blue-500' : 'bg-yellow-500'
-                        }`}
-                        style={{ width: `${user.progress}%` }}
-                      />
-                    </div>
-                  </div>
-                );
-              })}
-          </div>
-
-          {/* Current Standings */}
-          {myRank && currentStandings.length > 0 && (
-            <div className="mt-6 p-4 bg-green-900/20 border border-green-700 rounded-lg">
-              <h3 className="text-lg font-bold text-green-300 mb-2">
-                🎉 You finished #{myRank}!
-              </h3>
-              <p className="text-sm text-gray-300">
-                Waiting for other racers to finish...
-              </p>
-            </div>
-          )}
-        </div>
-      </div>
-
-      {/* Typing Interface */}
-      {raceText && lobbyState.status === 'racing' && (
-        <TypingInterface
-          text={raceText}
-          onComplete={handleRaceComplete}
-          isActive={!myRank && isConnected}
-          onProgressUpdate={handleProgressUpdate}
-        />
-      )}
-
-      {/* Countdown message - race text not ready yet */}
-      {lobbyState.status === 'countdown' && (
-        <div className="mt-6 p-6 bg-gray-800 rounded-lg text-center">
-          <p className="text-gray-300 text-lg">
-            Race text will appear when countdown reaches zero!
-          </p>
-        </div>
-      )}
-
-      {/* Leave Race button during race */}
-      <div className="mt-6 text-center">
-        <button
-          onClick={leaveLobby}
-          className="bg-red-600 hover:bg-red-700 px-6 py-2 rounded-lg text-white font-semibold transition-colors"
-        >
-          Leave Race
-        </button>
-      </div>
-    </div>
-  );
-
-  const renderResults = () => (
-    <div className="w-full max-w-3xl mx-auto p-6">
-      <div className="bg-gray-800 rounded-lg p-8">
-        <h2 className="text-4xl font-bold text-white mb-2 text-center">
-          🏁 Race Complete!
-        </h2>
-        <p className="text-gray-400 text-center mb-8">
-          {myRank === 1 ? '🏆 Congratulations! You won the race!' :
-           myRank === 2 ? '🥈 Great job! Second place!' :
-           myRank === 3 ? '🥉 Excellent! Third place!' :
-           `You finished in ${myRank}${myRank && myRank > 3 ? 'th' : ''} place!`}
-        </p>
-        
-        {raceResults && (
-          <div className="space-y-3 mb-8">
-            <h3 className="text-xl font-semibold text-white mb-4">Final Standings</h3>
-            {raceResults.results.map((result, index) => {
-              const isMe = result.username === username;
-              return (
-                <div 
-                  key={index} 
-                  className={`p-4 rounded-lg transition-all ${
-                    index === 0 ? 'bg-gradient-to-r from-yellow-900/40 to-yellow-800/20 border-2 border-yellow-600' :
-                    index === 1 ? 'bg-gradient-to-r from-gray-700/40 to-gray-600/20 border-2 border-gray-500' :
-                    index === 2 ? 'bg-gradient-to-r from-orange-900/40 to-orange-800/20 border-2 border-orange-600' :
-                    isMe ? 'bg-blue-900/30 border-2 border-blue-500' :
-                    'bg-gray-700'
-                  }`}
-                >
-                  <div className="flex justify-between items-center">
-                    <div className="flex items-center">
-                      <span className="text-3xl font-bold mr-4 w-12">
-                        {index === 0 ? '🥇' : index === 1 ? '🥈' : index === 2 ? '🥉' : `#${result.rank}`}
-                      </span>
-                      <div>
-                        <span className="text-white font-semibold text-lg">
-                          {result.username} {isMe ? '(You)' : ''}
-                        </span>
-                        <div className="text-sm text-gray-400">
-                          {result.timeTaken.toFixed(1)}s • {result.accuracy}% accuracy
-                        </div>
-                      </div>
-                    </div>
-                    <div className="text-right">
-                      <div className={`text-2xl font-bold ${
-                        index === 0 ? 'text-yellow-400' :
-                        index === 1 ? 'text-gray-300' :
-                        index === 2 ? 'text-orange-400' :
-                        'text-blue-400'
-                      }`}>
-                        {result.wpm}
-                      </div>
-                      <div className="text-xs text-gray-400">WPM</div>
-                    </div>
-                  </div>
-                </div>
-              );
-            })}
-          </div>
-        )}
-
-        <div className="flex flex-col sm:flex-row gap-4 justify-center">
-          <button
-            onClick={() => {
-              setRaceResults(null);
-              setRaceText('');
-              setRaceStartTime(null);
-              setMyRank(null);
-              setHasJoined(false);
-              setCurrentStandings([]);
-              setLobbyState({ users: [], countdown: 0, status: 'waiting' });
-            }}
-            className="bg-blue-600 hover:bg-blue-700 px-8 py-3 rounded-lg text-white font-semibold transition-colors"
-          >
-            🏁 Race Again
-          </button>
-          
-          <button
-            onClick={onExit}
-            className="bg-gray-600 hover:bg-gray-700 px-8 py-3 rounded-lg text-white font-semibold transition-colors"
-          >
-            ← Back to Home
-          </button>
-        </div>
-      </div>
-    </div>
-  );
-
-  if (raceResults) {
-    return renderResults();
-  }
-
-  if (lobbyState.status === 'racing') {
-    return renderRaceTrack();
-  }
-
-  return renderLobby();
-};
-
-export default MultiplayerRace;
+import React, { useState, useEffect, useRef } from 'react';
+import TypingInterface from './TypingInterface';
+import RaceTrack from './RaceTrack';
+import RaceStandings from './RaceStandings';
+import RaceReplayView from './RaceReplayView';
+import BotRace from './BotRace';
+import SpectatorView from './SpectatorView';
+import LobbyChat from './LobbyChat';
+import RaceReactions, { RecentReaction } from './RaceReactions';
+import { KeystrokeEvent, TypingStats } from '../types/typing';
+import { calculateTypingStats, replayKeystrokes, restoreKeystrokes } from '../utils/stats';
+import { findRatingBand, formatRatingChange, getRatingBand } from '../utils/rating';
+import { getTextId, saveTestResult } from '../storage/history';
+import { loadRaceSessionToken, saveRaceSessionToken } from '../storage/raceSession';
+import { loadLeaderboardProfile } from '../storage/leaderboardProfile';
+import { loadAccount } from '../storage/account';
+import {
+  ANTI_CHEAT_CODES,
+  CHAT_ERROR_CODES,
+  ChatMessage,
+  DEFAULT_ROOM_SETTINGS,
+  HandshakeErrorData,
+  LobbyState,
+  ProtocolError,
+  RACE_TEXT_SOURCES,
+  ROOM_LIMITS,
+  RaceKeystroke,
+  RaceResults,
+  RaceTextSource,
+  ReactionEmoji,
+  RoomSettings,
+  ServerToClientEvents,
+  Standing
+} from '../protocol/events';
+import { RaceSocket, connectRaceServer } from '../protocol/client';
+import { guardServerEvent } from '../protocol/validators';
+import { RaceReplay, ReplayEvent, buildReplay } from '../utils/raceReplay';
+import { CursorTrack, OpponentCursor, getCursorColor, getCursorIndex, updateCursorTrack } from '../utils/opponentCursors';
+
+interface MultiplayerRaceProps {
+  onExit: () => void;
+  // Invite code from a shared ?room= link
+  initialRoomCode?: string;
+}
+
+const EMPTY_LOBBY: LobbyState = {
+  users: [],
+  countdown: 0,
+  status: 'waiting',
+  code: null,
+  hostId: null,
+  settings: DEFAULT_ROOM_SETTINGS,
+  spectators: 0,
+  ratingBand: null,
+  match: null
+};
+
+export const TEXT_SOURCE_LABELS: Record<RaceTextSource, string> = {
+  quotes: 'Any quote',
+  'quotes-short': 'Short quotes',
+  'quotes-medium': 'Medium quotes',
+  'quotes-long': 'Long quotes'
+};
+
+// Lobby errors that mean a join didn't go through
+const JOIN_ERROR_CODES = ['INVALID_USERNAME', 'ROOM_NOT_FOUND', 'ROOM_FULL', 'ROOM_IN_PROGRESS', 'NOT_IN_MATCH'];
+// Lobby errors that leave a spectator with nothing to watch
+const SPECTATE_ERROR_CODES = ['ROOM_NOT_FOUND', 'NO_PUBLIC_RACE', 'LOBBY_CLOSED'];
+
+// How often opponents' carets are redrawn as they glide between updates
+const CURSOR_FRAME_MS = 50;
+const MAX_CHAT_MESSAGES = 100;
+// How long a reaction stays on screen
+const REACTION_MS = 4000;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, Math.round(value) || min));
+
+const getInviteLink = (code: string) => `${window.location.origin}${window.location.pathname}?room=${code}`;
+
+const MultiplayerRace: React.FC<MultiplayerRaceProps> = ({ onExit, initialRoomCode }) => {
+  const [socket, setSocket] = useState<RaceSocket | null>(null);
+  const [lobbyState, setLobbyState] = useState<LobbyState>(EMPTY_LOBBY);
+  const [raceText, setRaceText] = useState('');
+  const [raceStartTime, setRaceStartTime] = useState<number | null>(null);
+  const [raceResults, setRaceResults] = useState<RaceResults | null>(null);
+  // Signed-in players race under their account name; guests type one in
+  const [account, setAccount] = useState(() => loadAccount()?.account ?? null);
+  const [username, setUsername] = useState(() => account?.username ?? '');
+  const [isConnected, setIsConnected] = useState(false);
+  const [isReconnecting, setIsReconnecting] = useState(false);
+  const [connectionError, setConnectionError] = useState<string | null>(null);
+  const [myRank, setMyRank] = useState<number | null>(null);
+  const [hasJoined, setHasJoined] = useState(false);
+  const [currentStandings, setCurrentStandings] = useState<Standing[]>([]);
+  // Ours for as long as the server keeps our session, unlike the socket id
+  const [playerId, setPlayerId] = useState<string | null>(null);
+  const [roomCode, setRoomCode] = useState(initialRoomCode || '');
+  const [roomSettings, setRoomSettings] = useState<RoomSettings>(DEFAULT_ROOM_SETTINGS);
+  const [isCreatingRoom, setIsCreatingRoom] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [isDisqualified, setIsDisqualified] = useState(false);
+  const [replay, setReplay] = useState<RaceReplay | null>(null);
+  const [isBotRace, setIsBotRace] = useState(false);
+  const [isSpectating, setIsSpectating] = useState(false);
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [chatError, setChatError] = useState<string | null>(null);
+  const [reactions, setReactions] = useState<RecentReaction[]>([]);
+  const nextReactionKeyRef = useRef(0);
+  // What we had typed before a reload, handed back by the server
+  const [resumedKeystrokes, setResumedKeystrokes] = useState<KeystrokeEvent[]>([]);
+  // Keystrokes not yet sent; they go out just ahead of each progress update
+  const pendingKeystrokesRef = useRef<RaceKeystroke[]>([]);
+  // Everything that moved the race track, timed from when we saw raceStart
+  const replayEventsRef = useRef<ReplayEvent[]>([]);
+  const replayStartRef = useRef(0);
+  const playerIdRef = useRef<string | null>(null);
+  const raceTextRef = useRef('');
+  // Opponents' carets by user id, and the clock they are drawn at
+  const cursorTracksRef = useRef(new Map<string, CursorTrack>());
+  const [cursorNow, setCursorNow] = useState(0);
+
+  useEffect(() => {
+    // Initialize socket connection with reconnection options
+    const newSocket = connectRaceServer({
+      reconnection: true,
+      reconnectionDelay: 1000,
+      reconnectionDelayMax: 5000,
+      reconnectionAttempts: Infinity,
+      timeout: 20000
+    }, loadRaceSessionToken);
+    setSocket(newSocket);
+
+    const handleRaceError = (error: ProtocolError) => {
+      console.error('Race error:', error);
+      if ((ANTI_CHEAT_CODES as readonly string[]).includes(error.code || '')) {
+        setIsDisqualified(true);
+      }
+      setConnectionError(error.message || 'An error occurred during the race.');
+    };
+
+    // Payloads that don't match the protocol surface as a race error instead of breaking a render
+    const on = <E extends keyof ServerToClientEvents>(event: E, handler: ServerToClientEvents[E]) => {
+      newSocket.on(event as keyof ServerToClientEvents, guardServerEvent(event, handler, handleRaceError));
+    };
+
+    // Socket event listeners
+    newSocket.on('connect', () => {
+      console.log('Connected to server');
+      setIsConnected(true);
+      setIsReconnecting(false);
+      setConnectionError(null);
+    });
+
+    newSocket.on('disconnect', (reason) => {
+      console.log('Disconnected from server:', reason);
+      setIsConnected(false);
+      if (reason === 'io server disconnect') {
+        // Server disconnected the client, manual reconnect needed
+        setConnectionError('Disconnected from server. Please refresh the page.');
+      } else {
+        // Client-side disconnect or connection lost, will auto-reconnect
+        setIsReconnecting(true);
+      }
+    });
+
+    newSocket.io.on('reconnect_attempt', () => {
+      console.log('Attempting to reconnect...');
+      setIsReconnecting(true);
+      setConnectionError(null);
+    });
+
+    newSocket.io.on('reconnect', (attemptNumber) => {
+      console.log('Reconnected after', attemptNumber, 'attempts');
+      setIsReconnecting(false);
+      setIsConnected(true);
+      setConnectionError(null);
+    });
+
+    newSocket.io.on('reconnect_error', (error) => {
+      console.error('Reconnection error:', error);
+      setIsReconnecting(true);
+      setConnectionError('Connection lost. Attempting to reconnect...');
+    });
+
+    newSocket.io.on('reconnect_failed', () => {
+      console.error('Failed to reconnect');
+      setIsReconnecting(false);
+      setConnectionError('Failed to reconnect. Please refresh the page.');
+    });
+
+    newSocket.on('connect_error', (error) => {
+      console.error('Connection error:', error);
+      const data = (error as Error & { data?: HandshakeErrorData }).data;
+      setConnectionError(data?.code === 'PROTOCOL_MISMATCH'
+        ? 'This page is out of date with the race server. Please refresh the page.'
+        : 'Unable to connect to server. Please check your connection.');
+      setIsConnected(false);
+    });
+
+    // The server puts us back in our lobby by itself when it still has our session
+    on('session', (data) => {
+      saveRaceSessionToken(data.token);
+      playerIdRef.current = data.playerId;
+      setPlayerId(data.playerId);
+    });
+
+    // The stored account is cleared by connectRaceServer
+    newSocket.on('signedOut', () => setAccount(null));
+
+    on('lobbyState', (data) => {
+      setLobbyState(data);
+      const me = data.users.find(user => user.id === playerIdRef.current);
+      if (me) {
+        setHasJoined(true);
+        setUsername(me.username);
+      }
+    });
+
+    on('resumeRace', (data) => {
+      setLobbyState(data.lobby);
+      setHasJoined(true);
+      setMyRank(data.rank);
+      setCurrentStandings(data.standings);
+      setIsDisqualified(!!data.lobby.users.find(user => user.id === playerIdRef.current)?.disqualified);
+
+      cursorTracksRef.current = new Map(data.lobby.users.map(user => [user.id, updateCursorTrack(undefined, user.index || 0, Date.now())]));
+
+      // A dropped connection kept its place on screen; a reload starts over from the server's copy
+      if (raceTextRef.current !== data.raceText) {
+        const startTime = Date.now() - data.elapsed;
+        raceTextRef.current = data.raceText;
+        setRaceText(data.raceText);
+        setRaceStartTime(startTime);
+        setResumedKeystrokes(restoreKeystrokes(data.raceText, data.keystrokes, startTime));
+        pendingKeystrokesRef.current = [];
+        replayEventsRef.current = [];
+        replayStartRef.current = startTime;
+      }
+    });
+
+    on('raceStart', (data) => {
+      raceTextRef.current = data.raceText;
+      setRaceText(data.raceText);
+      setResumedKeystrokes([]);
+      cursorTracksRef.current = new Map();
+      // Timed from when we saw the start, as our clock and the server's can disagree
+      setRaceStartTime(Date.now());
+      setIsDisqualified(false);
+      pendingKeystrokesRef.current = [];
+      replayEventsRef.current = [];
+      replayStartRef.current = Date.now();
+      setLobbyState(prev => ({ ...prev, status: 'racing' }));
+    });
+
+    const recordReplayEvent = (event: ReplayEvent) => {
+      replayEventsRef.current.push(event);
+    };
+    const replayTime = () => Date.now() - replayStartRef.current;
+
+    on('opponentProgress', (data) => {
+      const textLength = raceTextRef.current.length;
+      const progress = textLength > 0 ? Math.min(100, (data.index / textLength) * 100) : 0;
+      const tracks = cursorTracksRef.current;
+      tracks.set(data.userId, updateCursorTrack(tracks.get(data.userId), data.index, Date.now()));
+      recordReplayEvent({ time: replayTime(), type: 'progress', userId: data.userId, progress });
+      setLobbyState(prev => ({
+        ...prev,
+        users: prev.users.map(user => 
+          user.id === data.userId 
+            ? { ...user, progress, index: data.index, wpm: data.wpm }
+            : user
+        )
+      }));
+    });
+
+    on('userFinished', (data) => {
+      if (playerIdRef.current) {
+        recordReplayEvent({ time: replayTime(), type: 'finished', userId: playerIdRef.current, rank: data.rank, stats: data.stats });
+      }
+      setMyRank(data.rank);
+      setCurrentStandings(data.currentStandings);
+      console.log(`You finished in rank ${data.rank}!`, data.currentStandings);
+    });
+
+    on('opponentFinished', (data) => {
+      recordReplayEvent({ time: replayTime(), type: 'finished', userId: data.userId, rank: data.rank, stats: data.stats });
+      setLobbyState(prev => ({
+        ...prev,
+        users: prev.users.map(user => 
+          user.id === data.userId 
+            ? { ...user, finished: true, rank: data.rank, stats: data.stats }
+            : user
+        )
+      }));
+    });
+
+    on('raceResults', (data) => {
+      setRaceResults(data);
+      setLobbyState(prev => ({ ...prev, status: 'finished' }));
+    });
+
+    on('raceError', handleRaceError);
+
+    on('chatMessage', (message) => {
+      setChatMessages(prev => [...prev, message].slice(-MAX_CHAT_MESSAGES));
+    });
+
+    on('reaction', (reaction) => {
+      const key = nextReactionKeyRef.current++;
+      setReactions(prev => [...prev, { ...reaction, key }]);
+      setTimeout(() => setReactions(prev => prev.filter(recent => recent.key !== key)), REACTION_MS);
+    });
+
+    on('lobbyError', (error) => {
+      // Moderation feedback belongs next to the chat box, not in the connection banner
+      if ((CHAT_ERROR_CODES as readonly string[]).includes(error.code || '')) {
+        setChatError(error.message);
+        return;
+      }
+      console.error('Lobby error:', error);
+      if (error.code && JOIN_ERROR_CODES.includes(error.code)) {
+        setHasJoined(false);
+      }
+      if (error.code && SPECTATE_ERROR_CODES.includes(error.code)) {
+        setIsSpectating(false);
+        setLobbyState(EMPTY_LOBBY);
+      }
+      setConnectionError(error.message || 'An error occurred in the lobby.');
+    });
+
+    on('raceTimeout', (data) => {
+      console.log('Race timeout:', data);
+      if (data.unfinishedUsers && data.unfinishedUsers.length > 0) {
+        setConnectionError(`${data.message}. Some players did not finish: ${data.unfinishedUsers.join(', ')}`);
+      } else {
+        setConnectionError(data.message || 'Race time limit reached.');
+      }
+    });
+
+    return () => {
+      // Leaving the screen gives up the seat; only a dropped connection keeps it for a reconnect
+      newSocket.emit('leaveLobby');
+      newSocket.close();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (lobbyState.status !== 'racing') return;
+    const interval = setInterval(() => setCursorNow(Date.now()), CURSOR_FRAME_MS);
+    return () => clearInterval(interval);
+  }, [lobbyState.status]);
+
+  const canJoin = !!account || !!username.trim();
+
+  // Without a code this joins the public queue
+  const joinLobby = (code?: string) => {
+    if (socket && canJoin && isConnected) {
+      setConnectionError(null);
+      setChatMessages([]);
+      socket.emit('joinLobby', {
+        username: account ? undefined : username.trim(),
+        roomCode: code?.trim() || undefined,
+        group: loadLeaderboardProfile().group || undefined
+      });
+      setHasJoined(true);
+    }
+  };
+
+  // Without a code this watches the public race furthest along
+  const spectate = (code?: string) => {
+    if (socket && isConnected) {
+      setConnectionError(null);
+      setRaceResults(null);
+      socket.emit('spectate', { roomCode: code?.trim() || undefined });
+      setIsSpectating(true);
+    }
+  };
+
+  const stopSpectating = () => {
+    socket?.emit('leaveLobby');
+    setIsSpectating(false);
+    setRaceResults(null);
+    setLobbyState(EMPTY_LOBBY);
+  };
+
+  const createRoom = () => {
+    if (socket && canJoin && isConnected) {
+      setConnectionError(null);
+      setChatMessages([]);
+      socket.emit('createRoom', {
+        username: account ? undefined : username.trim(),
+        settings: roomSettings,
+        group: loadLeaderboardProfile().group || undefined
+      });
+      setHasJoined(true);
+      setIsCreatingRoom(false);
+    }
+  };
+
+  const sendChat = (text: string) => {
+    setChatError(null);
+    socket?.emit('chatMessage', { text });
+  };
+
+  const sendReaction = (emoji: ReactionEmoji) => {
+    socket?.emit('reaction', { emoji });
+  };
+
+  const updateRoomSettings = (changes: Partial<RoomSettings>) => {
+    if (socket) {
+      socket.emit('updateRoomSettings', { ...lobbyState.settings, ...changes });
+    }
+  };
+
+  const copyInviteLink = () => {
+    if (!lobbyState.code) return;
+    navigator.clipboard?.writeText(getInviteLink(lobbyState.code)).then(() => {
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    }).catch(() => setLinkCopied(false));
+  };
+
+  const handleKeystroke = (event: KeystrokeEvent) => {
+    if (raceStartTime) {
+      pendingKeystrokesRef.current.push({
+        key: event.key,
+        isBackspace: event.isBackspace,
+        time: Math.max(0, event.timestamp - raceStartTime)
+      });
+    }
+  };
+
+  // The server checks progress and results against these, so they must arrive first
+  const flushKeystrokes = () => {
+    if (socket && pendingKeystrokesRef.current.length > 0) {
+      socket.emit('keystrokes', { keystrokes: pendingKeystrokesRef.current });
+      pendingKeystrokesRef.current = [];
+    }
+  };
+
+  const handleProgressUpdate = (_progress: number, index: number) => {
+    if (socket && lobbyState.status === 'racing' && isConnected) {
+      try {
+        flushKeystrokes();
+        socket.emit('progressUpdate', { index: Math.max(0, Math.min(raceText.length, index)) });
+      } catch (error) {
+        console.error('Error sending progress update:', error);
+      }
+    }
+  };
+
+  const handleRaceComplete = (_localStats: TypingStats, keystrokes: KeystrokeEvent[]) => {
+    if (socket && raceStartTime && isConnected) {
+      try {
+        // Race stats are timed from the start signal, not the first keystroke
+        const stats = calculateTypingStats({
+          target: raceText,
+          typed: replayKeystrokes(keystrokes),
+          keystrokes,
+          startTime: raceStartTime,
+          endTime: Date.now()
+        });
+        const timeTaken = stats.timeTaken;
+        
+        // Validate stats
+        if (typeof stats.wpm !== 'number' || typeof stats.accuracy !== 'number' || isNaN(stats.wpm) || isNaN(stats.accuracy)) {
+          console.error('Invalid race stats:', stats);
+          setConnectionError('Invalid race completion data. Please try again.');
+          return;
+        }
+
+        flushKeystrokes();
+        socket.emit('raceFinished', {
+          finalWPM: Math.max(0, stats.wpm),
+          finalAccuracy: Math.max(0, Math.min(100, stats.accuracy)),
+          timeTaken: Math.max(0, timeTaken)
+        });
+
+        saveTestResult({
+          kind: 'race',
+          mode: { type: 'passage' },
+          source: { sourceId: 'race', textId: getTextId(raceText) },
+          stats,
+          timestamp: Date.now(),
+          keystrokes
+        });
+      } catch (error) {
+        console.error('Error completing race:', error);
+        setConnectionError('Failed to submit race results. Please try again.');
+      }
+    }
+  };
+
+  const leaveLobby = () => {
+    if (socket) {
+      socket.emit('leaveLobby');
+      socket.disconnect();
+      // Reset state
+      setHasJoined(false);
+      raceTextRef.current = '';
+      setRaceText('');
+      setRaceStartTime(null);
+      setMyRank(null);
+      setCurrentStandings([]);
+      setLobbyState(EMPTY_LOBBY);
+      setConnectionError(null);
+    }
+    onExit();
+  };
+
+  // Bots race locally, so a queued player gives up their place in the lobby first
+  const startBotRace = () => {
+    if (socket && hasJoined) {
+      socket.emit('leaveLobby');
+      setHasJoined(false);
+      setLobbyState(EMPTY_LOBBY);
+    }
+    setConnectionError(null);
+    setIsBotRace(true);
+  };
+
+  const isHost = !!playerId && lobbyState.hostId === playerId;
+
+  const opponentCursors: OpponentCursor[] = lobbyState.users.flatMap((user, position) => {
+    const track = cursorTracksRef.current.get(user.id);
+    if (!track || user.id === playerId || user.finished || user.disqualified) return [];
+    return [{ id: user.id, index: getCursorIndex(track, cursorNow), name: user.username, color: getCursorColor(position) }];
+  });
+
+  const renderRoomSettings = (settings: RoomSettings, onChange: (changes: Partial<RoomSettings>) => void) => (
+    <div className="flex flex-wrap gap-4 justify-center text-sm text-gray-300">
+      <label className="flex items-center gap-2">
+        Text
+        <select
+          value={settings.textSource}
+          onChange={(e) => onChange({ textSource: e.target.value as RaceTextSource })}
+          className="bg-gray-800 border border-gray-600 rounded-lg text-white px-2 py-1"
+        >
+          {RACE_TEXT_SOURCES.map(source => (
+            <option key={source} value={source}>{TEXT_SOURCE_LABELS[source]}</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center gap-2">
+        Players
+        <input
+          type="number"
+          min={Math.max(ROOM_LIMITS.minPlayers, lobbyState.users.length)}
+          max={ROOM_LIMITS.maxPlayers}
+          value={settings.maxPlayers}
+          onChange={(e) => onChange({
+            maxPlayers: clamp(Number(e.target.value), Math.max(ROOM_LIMITS.minPlayers, lobbyState.users.length), ROOM_LIMITS.maxPlayers)
+          })}
+          className="w-16 bg-gray-800 border border-gray-600 rounded-lg text-white px-2 py-1"
+        />
+      </label>
+      <label className="flex items-center gap-2">
+        Countdown
+        <input
+          type="number"
+          min={ROOM_LIMITS.minCountdown}
+          max={ROOM_LIMITS.maxCountdown}
+          value={settings.countdownSeconds}
+          onChange={(e) => onChange({
+            countdownSeconds: clamp(Number(e.target.value), ROOM_LIMITS.minCountdown, ROOM_LIMITS.maxCountdown)
+          })}
+          className="w-16 bg-gray-800 border border-gray-600 rounded-lg text-white px-2 py-1"
+        />
+        s
+      </label>
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={settings.chatWhileRacing}
+          onChange={(e) => onChange({ chatWhileRacing: e.target.checked })}
+        />
+        Chat while racing
+      </label>
+    </div>
+  );
+
+  const renderLobby = () => (
+    <div className="w-full max-w-2xl mx-auto p-6">
+      <div className="bg-gray-800 rounded-lg p-8 text-center">
+        <h2 className="text-3xl font-bold text-white mb-6">
+          {lobbyState.status === 'waiting' ? '🏁 Join Multiplayer Race' : '⏱️ Race Starting Soon!'}
+        </h2>
+        
+        {!isConnected && !isReconnecting && (
+          <div className="mb-6 p-4 bg-red-900/20 border border-red-700 rounded-lg">
+            <p className="text-red-300">Connecting to server...</p>
+          </div>
+        )}
+
+        {isReconnecting && (
+          <div className="mb-6 p-4 bg-yellow-900/20 border border-yellow-700 rounded-lg">
+            <p className="text-yellow-300">Reconnecting to server...</p>
+            <p className="text-sm text-yellow-400 mt-1">Please wait, we'll restore your connection shortly.</p>
+          </div>
+        )}
+
+        {connectionError && !isReconnecting && (
+          <div className="mb-6 p-4 bg-red-900/20 border border-red-700 rounded-lg">
+            <p className="text-red-300">{connectionError}</p>
+            {connectionError.includes('refresh') && (
+              <button
+                onClick={() => window.location.reload()}
+                className="mt-2 bg-red-600 hover:bg-red-700 px-4 py-2 rounded-lg text-white text-sm font-semibold transition-colors"
+              >
+                Refresh Page
+              </button>
+            )}
+          </div>
+        )}
+
+        {isConnected && !connectionError && (
+          <div className="mb-6 p-2 bg-green-900/20 border border-green-700 rounded-lg">
+            <p className="text-green-300 text-sm flex items-center">
+              <span className="w-2 h-2 bg-green-500 rounded-full mr-2 animate-pulse"></span>
+              Connected
+            </p>
+          </div>
+        )}
+
+        {lobbyState.status === 'waiting' && !hasJoined && (
+          <div className="mb-6">
+            {account ? (
+              <p className="text-gray-300 mb-4">
+                Racing as <span className="text-white font-semibold">{account.username}</span>
+              </p>
+            ) : (
+              <>
+                <p className="text-gray-300 mb-4">Enter your name to join the race lobby</p>
+                <input
+                  type="text"
+                  placeholder="Enter your username"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  className="w-full max-w-xs px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/50"
+                  onKeyPress={(e) => e.key === 'Enter' && joinLobby(roomCode)}
+                  autoFocus
+                />
+                <p className="text-sm text-gray-500 mt-2">Guests race unrated. Sign in from the home screen to be rated.</p>
+              </>
+            )}
+            {initialRoomCode ? (
+              <div>
+                <button
+                  onClick={() => joinLobby(roomCode)}
+                  disabled={!canJoin || !isConnected}
+                  className="mt-4 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 px-8 py-3 rounded-lg text-white font-semibold disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  Join Room {roomCode}
+                </button>
+                <button
+                  onClick={() => spectate(roomCode)}
+                  disabled={!isConnected}
+                  className="mt-4 ml-3 bg-gray-600 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed px-6 py-3 rounded-lg text-white font-semibold transition-colors"
+                >
+                  👀 Watch
+                </button>
+              </div>
+            ) : (
+              <>
+                <div>
+                  <button
+                    onClick={() => joinLobby()}
+                    disabled={!canJoin || !isConnected}
+                    className="mt-4 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 px-8 py-3 rounded-lg text-white font-semibold disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    Join Race
+                  </button>
+                  <button
+                    onClick={() => spectate()}
+                    disabled={!isConnected}
+                    className="mt-4 ml-3 bg-gray-600 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed px-6 py-3 rounded-lg text-white font-semibold transition-colors"
+                  >
+                    👀 Spectate
+                  </button>
+                </div>
+
+                {/* Private Rooms */}
+                <div className="mt-6 pt-6 border-t border-gray-700 flex flex-wrap gap-3 justify-center items-center">
+                  <input
+                    type="text"
+                    placeholder="Room code"
+                    value={roomCode}
+                    onChange={(e) => setRoomCode(e.target.value.toUpperCase())}
+                    maxLength={6}
+                    className="w-32 px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white font-mono uppercase placeholder-gray-400 focus:outline-none focus:border-blue-500"
+                  />
+                  <button
+                    onClick={() => joinLobby(roomCode)}
+                    disabled={!canJoin || !roomCode.trim() || !isConnected}
+                    className="bg-gray-600 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed px-6 py-2 rounded-lg text-white font-semibold transition-colors"
+                  >
+                    Join Room
+                  </button>
+                  <button
+                    onClick={() => spectate(roomCode)}
+                    disabled={!roomCode.trim() || !isConnected}
+                    className="bg-gray-600 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed px-6 py-2 rounded-lg text-white font-semibold transition-colors"
+                  >
+                    👀 Watch
+                  </button>
+                  <span className="text-gray-500">or</span>
+                  <button
+                    onClick={() => setIsCreatingRoom(!isCreatingRoom)}
+                    className="bg-gray-600 hover:bg-gray-700 px-6 py-2 rounded-lg text-white font-semibold transition-colors"
+                  >
+                    🔒 Create Private Room
+                  </button>
+                </div>
+                {isCreatingRoom && (
+                  <div className="mt-4 p-4 bg-gray-700 rounded-lg">
+                    {renderRoomSettings(roomSettings, (changes) => setRoomSettings({ ...roomSettings, ...changes }))}
+                    <button
+                      onClick={createRoom}
+                      disabled={!canJoin || !isConnected}
+                      className="mt-4 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed px-6 py-2 rounded-lg text-white font-semibold transition-colors"
+                    >
+                      Create Room
+                    </button>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Private Room */}
+        {hasJoined && lobbyState.code && (
+          <div className="mb-6 p-4 bg-gray-700 rounded-lg">
+            <p className="text-sm text-gray-400">Invite code</p>
+            <div className="text-4xl font-bold font-mono tracking-widest text-white mb-2">{lobbyState.code}</div>
+            <button
+              onClick={copyInviteLink}
+              className="text-sm text-blue-400 hover:text-blue-300"
+            >
+              {linkCopied ? '✓ Link copied' : '🔗 Copy invite link'}
+            </button>
+            {lobbyState.match && (
+              <div className="mt-4 p-3 bg-gray-800 rounded-lg">
+                <p className="text-sm text-gray-400">
+                  🏆 {lobbyState.match.tournamentName} • {lobbyState.match.label} • best of {lobbyState.match.bestOf}
+                </p>
+                <p className="text-lg text-white font-semibold">
+                  {lobbyState.match.players.map(player => `${player.username} ${player.wins}`).join(' – ')}
+                </p>
+                {lobbyState.match.winner && (
+                  <p className="text-sm text-green-400">{lobbyState.match.winner} wins the match</p>
+                )}
+              </div>
+            )}
+            {lobbyState.status === 'waiting' && !lobbyState.match && (
+              <div className="mt-4">
+                {isHost ? (
+                  renderRoomSettings(lobbyState.settings, updateRoomSettings)
+                ) : (
+                  <p className="text-sm text-gray-400">
+                    {TEXT_SOURCE_LABELS[lobbyState.settings.textSource]} • {lobbyState.settings.countdownSeconds}s countdown
+                    {!lobbyState.settings.chatWhileRacing && ' • no chat while racing'}
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {hasJoined && lobbyState.status === 'waiting' && (
+          <div className="mb-6 p-4 bg-blue-900/20 border border-blue-700 rounded-lg">
+            {!lobbyState.code ? (
+              <>
+                <p className="text-blue-300">Waiting for more players to join...</p>
+                <p className="text-sm text-gray-400 mt-2">Race will start when 2 or more players are ready</p>
+                {lobbyState.ratingBand && (
+                  <p className="text-sm text-gray-400 mt-2">
+                    {findRatingBand(lobbyState.ratingBand)?.icon} {lobbyState.ratingBand} lobby • matched with players near your rating
+                  </p>
+                )}
+                <button
+                  onClick={startBotRace}
+                  className="mt-3 text-sm text-blue-400 hover:text-blue-300"
+                >
+                  🤖 Nobody here? Race bots instead
+                </button>
+              </>
+            ) : isHost ? (
+              <>
+                <p className="text-blue-300">Start the race when everyone is here</p>
+                <button
+                  onClick={() => socket?.emit('startRace')}
+                  className="mt-3 bg-blue-600 hover:bg-blue-700 px-8 py-3 rounded-lg text-white font-semibold transition-colors"
+                >
+                  🏁 Start Race
+                </button>
+              </>
+            ) : (
+              <p className="text-blue-300">Waiting for the host to start the race...</p>
+            )}
+          </div>
+        )}
+
+        {lobbyState.status === 'countdown' && (
+          <div className="mb-6">
+            <div className="text-8xl font-bold text-blue-400 mb-4 animate-pulse">
+              {lobbyState.countdown}
+            </div>
+            <p className="text-xl text-gray-300">Get your fingers ready! 🚀</p>
+          </div>
+        )}
+
+        {/* Players List */}
+        <div className="mb-6">
+          <h3 className="text-xl font-semibold text-white mb-4">
+            Players in Lobby ({lobbyState.users.length}/{lobbyState.settings.maxPlayers})
+          </h3>
+          <div className="space-y-2">
+            {lobbyState.users.map((user, index) => (
+              <div 
+                key={user.id} 
+                className="flex justify-between items-center p-4 bg-gray-700 rounded-lg hover:bg-gray-650 transition-colors"
+              >
+                <div className="flex items-center">
+                  <span className="text-2xl mr-3">
+                    {(lobbyState.hostId ? user.id === lobbyState.hostId : index === 0) ? '👑' : '👤'}
+                  </span>
+                  <span className="text-white font-medium">{user.username}</span>
+                  {user.rating !== undefined && (
+                    <span className="ml-2 text-sm text-gray-400">{user.rating}</span>
+                  )}
+                </div>
+                {user.finished && user.rank && (
+                  <span className="text-green-400 font-semibold">
+                    #{user.rank} - {user.stats?.wpm} WPM
+                  </span>
+                )}
+                {!user.finished && user.offline && (
+                  <span className="text-yellow-400 text-sm">📡 Reconnecting</span>
+                )}
+                {!user.finished && !user.offline && lobbyState.status === 'waiting' && (
+                  <span className="text-green-400 text-sm">Ready</span>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {hasJoined && (
+          <LobbyChat messages={chatMessages} myId={playerId} onSend={sendChat} error={chatError} />
+        )}
+
+        <div className="flex gap-3 justify-center">
+          {!hasJoined && (
+            <button
+              onClick={startBotRace}
+              className="bg-gray-600 hover:bg-gray-700 px-6 py-2 rounded-lg text-white font-semibold transition-colors"
+            >
+              🤖 Race Bots Offline
+            </button>
+          )}
+          {hasJoined && lobbyState.status !== 'finished' && (
+            <button
+              onClick={leaveLobby}
+              className="bg-red-600 hover:bg-red-700 px-6 py-2 rounded-lg text-white font-semibold transition-colors"
+            >
+              Leave Race
+            </button>
+          )}
+          <button
+            onClick={leaveLobby}
+            className="bg-gray-600 hover:bg-gray-700 px-6 py-2 rounded-lg text-white font-semibold transition-colors"
+          >
+            ← Back to Home
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+
+  const renderRaceTrack = () => (
+    <div className="w-full max-w-4xl mx-auto p-6">
+      <div className="mb-6">
+        <div className="bg-gray-800 rounded-lg p-6 mb-4">
+          <h2 className="text-2xl font-bold text-white mb-4 text-center">
+            🏁 Race in Progress
+          </h2>
+          
+          {/* Race Track */}
+          <RaceTrack users={lobbyState.users} myId={playerId} />
+          {lobbyState.settings.chatWhileRacing && (
+            <RaceReactions reactions={reactions} onReact={sendReaction} />
+          )}
+
+          {/* Current Standings */}
+          {myRank && currentStandings.length > 0 && (
+            <div className="mt-6 p-4 bg-green-900/20 border border-green-700 rounded-lg">
+              <h3 className="text-lg font-bold text-green-300 mb-2">
+                🎉 You finished #{myRank}!
+              </h3>
+              <p className="text-sm text-gray-300">
+                Waiting for other racers to finish...
+              </p>
+            </div>
+          )}
+          {isDisqualified && (
+            <div className="mt-6 p-4 bg-red-900/20 border border-red-700 rounded-lg">
+              <h3 className="text-lg font-bold text-red-300">⛔ Your result was not accepted</h3>
+              <p className="text-sm text-gray-300">{connectionError}</p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Typing Interface */}
+      {raceText && lobbyState.status === 'racing' && (
+        <TypingInterface
+          text={raceText}
+          onComplete={handleRaceComplete}
+          isActive={!myRank && !isDisqualified && isConnected}
+          onProgressUpdate={handleProgressUpdate}
+          onKeystroke={handleKeystroke}
+          initialKeystrokes={resumedKeystrokes}
+          cursors={opponentCursors}
+        />
+      )}
+
+      {/* Countdown message - race text not ready yet */}
+      {lobbyState.status === 'countdown' && (
+        <div className="mt-6 p-6 bg-gray-800 rounded-lg text-center">
+          <p className="text-gray-300 text-lg">
+            Race text will appear when countdown reaches zero!
+          </p>
+        </div>
+      )}
+
+      {/* Leave Race button during race */}
+      <div className="mt-6 text-center">
+        <button
+          onClick={leaveLobby}
+          className="bg-red-600 hover:bg-red-700 px-6 py-2 rounded-lg text-white font-semibold transition-colors"
+        >
+          Leave Race
+        </button>
+      </div>
+    </div>
+  );
+
+  const myRatingChange = raceResults?.ratingChanges?.find(change => change.userId === playerId);
+
+  const renderResults = () => (
+    <div className="w-full max-w-3xl mx-auto p-6">
+      <div className="bg-gray-800 rounded-lg p-8">
+        <h2 className="text-4xl font-bold text-white mb-2 text-center">
+          🏁 Race Complete!
+        </h2>
+        <p className="text-gray-400 text-center mb-8">
+          {isDisqualified ? '⛔ Your result was not accepted by the anti-cheat checks.' :
+           myRank === 1 ? '🏆 Congratulations! You won the race!' :
+           myRank === 2 ? '🥈 Great job! Second place!' :
+           myRank === 3 ? '🥉 Excellent! Third place!' :
+           `You finished in ${myRank}${myRank && myRank > 3 ? 'th' : ''} place!`}
+        </p>
+
+        {/* Rating */}
+        {myRatingChange && (
+          <p className="text-center text-lg text-gray-300 -mt-4 mb-8">
+            {getRatingBand(myRatingChange.after).icon} Rating {myRatingChange.before} → {myRatingChange.after}{' '}
+            <span className={myRatingChange.after >= myRatingChange.before ? 'text-green-400' : 'text-red-400'}>
+              ({formatRatingChange(myRatingChange.before, myRatingChange.after)})
+            </span>
+          </p>
+        )}
+
+        {raceResults && (
+          <RaceStandings
+            results={raceResults.results}
+            isMine={(result) => result.userId === playerId}
+            ratingChanges={raceResults.ratingChanges}
+          />
+        )}
+
+        {hasJoined && (
+          <LobbyChat messages={chatMessages} myId={playerId} onSend={sendChat} error={chatError} />
+        )}
+
+        <div className="flex flex-col sm:flex-row gap-4 justify-center">
+          <button
+            onClick={() => {
+              setRaceResults(null);
+              raceTextRef.current = '';
+              setRaceText('');
+              setRaceStartTime(null);
+              setMyRank(null);
+              setIsDisqualified(false);
+              setCurrentStandings([]);
+              setReplay(null);
+              // Private rooms stay together between races
+              if (!lobbyState.code) {
+                socket?.emit('leaveLobby');
+                setHasJoined(false);
+                setLobbyState(EMPTY_LOBBY);
+              }
+            }}
+            className="bg-blue-600 hover:bg-blue-700 px-8 py-3 rounded-lg text-white font-semibold transition-colors"
+          >
+            🏁 Race Again
+          </button>
+
+          <button
+            onClick={() => raceResults && setReplay(buildReplay({
+              raceText,
+              myId: playerId,
+              users: lobbyState.users,
+              events: replayEventsRef.current,
+              results: raceResults.results
+            }))}
+            className="bg-gray-600 hover:bg-gray-700 px-8 py-3 rounded-lg text-white font-semibold transition-colors"
+          >
+            📼 Watch Replay
+          </button>
+          
+          <button
+            onClick={leaveLobby}
+            className="bg-gray-600 hover:bg-gray-700 px-8 py-3 rounded-lg text-white font-semibold transition-colors"
+          >
+            ← Back to Home
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+
+  if (isBotRace) {
+    return <BotRace username={username} onExit={() => setIsBotRace(false)} />;
+  }
+
+  if (isSpectating) {
+    return <SpectatorView lobby={lobbyState} results={raceResults} onWatchNext={() => spectate()} onStop={stopSpectating} />;
+  }
+
+  if (raceResults && replay) {
+    return <RaceReplayView initialReplay={replay} onBack={() => setReplay(null)} backLabel="← Back to Results" />;
+  }
+
+  if (raceResults) {
+    return renderResults();
+  }
+
+  if (lobbyState.status === 'racing') {
+    return renderRaceTrack();
+  }
+
+  return renderLobby();
+};
+
+export default MultiplayerRace;
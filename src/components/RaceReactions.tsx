@@ -0,0 +1,42 @@
+import React from 'react';
+import { REACTION_EMOJIS, Reaction, ReactionEmoji } from '../protocol/events';
+
+export interface RecentReaction extends Reaction {
+  // Tells repeated reactions from the same player apart
+  key: number;
+}
+
+interface RaceReactionsProps {
+  reactions: RecentReaction[];
+  onReact: (emoji: ReactionEmoji) => void;
+}
+
+// One-click emoji for mid-race banter, so nobody has to stop typing for long
+const RaceReactions: React.FC<RaceReactionsProps> = ({ reactions, onReact }) => (
+  <div className="flex flex-wrap items-center justify-between gap-3 mt-4">
+    <div className="flex gap-1">
+      {REACTION_EMOJIS.map(emoji => (
+        <button
+          key={emoji}
+          onClick={() => onReact(emoji)}
+          // Keep focus in the race text so typing carries on straight away
+          onMouseDown={(e) => e.preventDefault()}
+          aria-label={`React ${emoji}`}
+          tabIndex={-1}
+          className="text-xl px-2 py-1 rounded-lg bg-gray-700 hover:bg-gray-600 transition-colors"
+        >
+          {emoji}
+        </button>
+      ))}
+    </div>
+    <div className="flex flex-wrap gap-2 text-sm text-gray-300">
+      {reactions.map(reaction => (
+        <span key={reaction.key} className="px-2 py-1 bg-gray-700 rounded-full">
+          {reaction.username} {reaction.emoji}
+        </span>
+      ))}
+    </div>
+  </div>
+);
+
+export default RaceReactions;
@@ -0,0 +1,181 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import RaceTrack from './RaceTrack';
+import {
+  REPLAY_SPEEDS,
+  RaceReplay,
+  getReplayDuration,
+  getReplayFileName,
+  getReplayFrame,
+  parseReplay,
+  serializeReplay
+} from '../utils/raceReplay';
+
+interface RaceReplayViewProps {
+  initialReplay?: RaceReplay;
+  onBack: () => void;
+  backLabel?: string;
+}
+
+const TICK_MS = 50;
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const downloadReplay = (replay: RaceReplay) => {
+  const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = getReplayFileName(replay);
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const RaceReplayView: React.FC<RaceReplayViewProps> = ({ initialReplay, onBack, backLabel = '← Back to Home' }) => {
+  const [replay, setReplay] = useState<RaceReplay | null>(initialReplay || null);
+  const [time, setTime] = useState(0);
+  const [speed, setSpeed] = useState(1);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const duration = replay ? getReplayDuration(replay) : 0;
+  const frame = useMemo(() => (replay ? getReplayFrame(replay, time) : []), [replay, time]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    let last = Date.now();
+    const interval = setInterval(() => {
+      const now = Date.now();
+      const elapsed = (now - last) * speed;
+      last = now;
+      setTime(prev => Math.min(duration, prev + elapsed));
+    }, TICK_MS);
+    return () => clearInterval(interval);
+  }, [isPlaying, speed, duration]);
+
+  useEffect(() => {
+    if (isPlaying && time >= duration) {
+      setIsPlaying(false);
+    }
+  }, [isPlaying, time, duration]);
+
+  const togglePlaying = () => {
+    if (!isPlaying && time >= duration) {
+      setTime(0);
+    }
+    setIsPlaying(!isPlaying);
+  };
+
+  const handleFileOpen = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        setReplay(parseReplay(String(reader.result || '')));
+        setTime(0);
+        setIsPlaying(false);
+        setFileError(null);
+      } catch (error) {
+        setFileError(error instanceof Error ? error.message : 'Could not open that replay.');
+      }
+    };
+    reader.onerror = () => setFileError('Could not read that file.');
+    reader.readAsText(file);
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto p-6">
+      <div className="bg-gray-800 rounded-lg p-8">
+        <h2 className="text-3xl font-bold text-white mb-6 text-center">📼 Race Replay</h2>
+
+        {replay ? (
+          <>
+            <p className="text-gray-400 text-sm text-center mb-6 font-mono break-words">{replay.raceText}</p>
+
+            {/* Race Track */}
+            <RaceTrack users={frame} myId={replay.myId} />
+
+            {/* Playback Controls */}
+            <div className="flex flex-wrap items-center gap-3 mt-6">
+              <button
+                onClick={togglePlaying}
+                disabled={duration === 0}
+                className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed px-6 py-2 rounded-lg text-white font-semibold transition-colors"
+              >
+                {isPlaying ? '⏸ Pause' : '▶ Play'}
+              </button>
+              {REPLAY_SPEEDS.map(option => (
+                <button
+                  key={option}
+                  onClick={() => setSpeed(option)}
+                  aria-pressed={speed === option}
+                  className={`px-3 py-2 rounded-lg text-sm font-semibold transition-colors ${
+                    speed === option ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }`}
+                >
+                  {option}x
+                </button>
+              ))}
+              <span className="text-gray-400 text-sm font-mono ml-auto">
+                {formatSeconds(time)} / {formatSeconds(duration)}
+              </span>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={duration}
+              step={TICK_MS}
+              value={time}
+              onChange={(e) => setTime(Number(e.target.value))}
+              aria-label="Replay position"
+              className="w-full mt-4"
+            />
+
+            {/* Final Standings */}
+            {time >= duration && replay.results.length > 0 && (
+              <div className="mt-6 space-y-2">
+                <h3 className="text-xl font-semibold text-white mb-2">Final Standings</h3>
+                {replay.results.map(result => (
+                  <div key={result.rank} className="flex justify-between p-3 bg-gray-700 rounded-lg text-gray-200">
+                    <span>#{result.rank} {result.username}</span>
+                    <span className="text-blue-400 font-semibold">{result.wpm} WPM</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        ) : (
+          <p className="text-gray-400 text-center py-8">
+            Open a replay file exported from a race to watch it here.
+          </p>
+        )}
+
+        {fileError && <p className="text-red-400 text-sm mt-4 text-center">{fileError}</p>}
+
+        <div className="flex flex-wrap gap-3 justify-center mt-8">
+          <label className="cursor-pointer bg-gray-600 hover:bg-gray-700 px-6 py-2 rounded-lg text-white font-semibold transition-colors">
+            📂 Open Replay
+            <input type="file" accept=".json,application/json" onChange={handleFileOpen} className="hidden" />
+          </label>
+          {replay && (
+            <button
+              onClick={() => downloadReplay(replay)}
+              className="bg-gray-600 hover:bg-gray-700 px-6 py-2 rounded-lg text-white font-semibold transition-colors"
+            >
+              ⬇ Export JSON
+            </button>
+          )}
+          <button
+            onClick={onBack}
+            className="bg-gray-600 hover:bg-gray-700 px-6 py-2 rounded-lg text-white font-semibold transition-colors"
+          >
+            {backLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RaceReplayView;
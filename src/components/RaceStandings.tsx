@@ -0,0 +1,69 @@
+import React from 'react';
+import { RatingUpdate, Standing } from '../protocol/events';
+import { formatRatingChange } from '../utils/rating';
+
+interface RaceStandingsProps {
+  results: Standing[];
+  isMine: (result: Standing) => boolean;
+  // Present for rated races
+  ratingChanges?: RatingUpdate[];
+}
+
+const RaceStandings: React.FC<RaceStandingsProps> = ({ results, isMine, ratingChanges }) => (
+  <div className="space-y-3 mb-8">
+    <h3 className="text-xl font-semibold text-white mb-4">Final Standings</h3>
+    {results.map((result, index) => {
+      const isMe = isMine(result);
+      const ratingChange = ratingChanges?.find(change => change.userId === result.userId);
+      return (
+        <div
+          key={index}
+          className={`p-4 rounded-lg transition-all ${
+            index === 0 ? 'bg-gradient-to-r from-yellow-900/40 to-yellow-800/20 border-2 border-yellow-600' :
+            index === 1 ? 'bg-gradient-to-r from-gray-700/40 to-gray-600/20 border-2 border-gray-500' :
+            index === 2 ? 'bg-gradient-to-r from-orange-900/40 to-orange-800/20 border-2 border-orange-600' :
+            isMe ? 'bg-blue-900/30 border-2 border-blue-500' :
+            'bg-gray-700'
+          }`}
+        >
+          <div className="flex justify-between items-center">
+            <div className="flex items-center">
+              <span className="text-3xl font-bold mr-4 w-12">
+                {index === 0 ? '🥇' : index === 1 ? '🥈' : index === 2 ? '🥉' : `#${result.rank}`}
+              </span>
+              <div>
+                <span className="text-white font-semibold text-lg">
+                  {result.username} {isMe ? '(You)' : ''}
+                </span>
+                <div className="text-sm text-gray-400">
+                  {result.timeTaken.toFixed(1)}s • {result.accuracy}% accuracy
+                  {ratingChange && (
+                    <>
+                      {' • '}
+                      <span className={ratingChange.after >= ratingChange.before ? 'text-green-400' : 'text-red-400'}>
+                        {ratingChange.after} ({formatRatingChange(ratingChange.before, ratingChange.after)})
+                      </span>
+                    </>
+                  )}
+                </div>
+              </div>
+            </div>
+            <div className="text-right">
+              <div className={`text-2xl font-bold ${
+                index === 0 ? 'text-yellow-400' :
+                index === 1 ? 'text-gray-300' :
+                index === 2 ? 'text-orange-400' :
+                'text-blue-400'
+              }`}>
+                {result.wpm}
+              </div>
+              <div className="text-xs text-gray-400">WPM</div>
+            </div>
+          </div>
+        </div>
+      );
+    })}
+  </div>
+);
+
+export default RaceStandings;
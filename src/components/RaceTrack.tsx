@@ -0,0 +1,55 @@
+import React from 'react';
+import { RaceUser } from '../protocol/events';
+
+interface RaceTrackProps {
+  users: RaceUser[];
+  myId?: string | null;
+  // Bigger bars and names for spectators watching from across the room
+  large?: boolean;
+}
+
+const RaceTrack: React.FC<RaceTrackProps> = ({ users, myId, large = false }) => (
+  <div className={`race-track ${large ? 'space-y-5' : 'space-y-3'}`}>
+    {[...users]
+      .sort((a, b) => (b.progress || 0) - (a.progress || 0))
+      .map((user) => {
+        const isMe = !!myId && user.id === myId;
+        const wpm = user.finished ? user.stats?.wpm : user.wpm;
+        return (
+          <div key={user.id} className={`${large ? 'p-5' : 'p-3'} rounded-lg ${isMe ? 'bg-blue-900/30 border-2 border-blue-500' : 'bg-gray-700'}`}>
+            <div className="flex justify-between items-center mb-2">
+              <div className="flex items-center">
+                <span className={`${large ? 'text-3xl' : 'text-xl'} mr-2`}>
+                  {user.disqualified ? '⛔' : user.finished ? '✅' : user.offline ? '📡' : '🏃'}
+                </span>
+                <span className={`font-semibold ${large ? 'text-2xl' : ''} ${isMe ? 'text-blue-300' : 'text-white'}`}>
+                  {user.username} {isMe ? '(You)' : ''}
+                </span>
+                {user.offline && <span className="ml-2 text-xs text-yellow-400">reconnecting…</span>}
+              </div>
+              <div className="text-right">
+                {wpm !== undefined && (
+                  <span className={`mr-3 font-semibold text-blue-300 ${large ? 'text-2xl' : 'text-sm'}`}>{wpm} WPM</span>
+                )}
+                <span className={`text-gray-400 ${large ? 'text-lg' : 'text-sm'}`}>{Math.round(user.progress)}%</span>
+                {user.finished && user.rank && (
+                  <span className="ml-3 text-green-400 font-bold">#{user.rank}</span>
+                )}
+              </div>
+            </div>
+            <div className={`w-full bg-gray-600 rounded-full ${large ? 'h-6' : 'h-3'} overflow-hidden`}>
+              <div
+                className={`${large ? 'h-6' : 'h-3'} rounded-full transition-all duration-300 ${
+                  user.finished ? 'bg-green-500' :
+                  isMe ? 'bg-blue-500' : 'bg-yellow-500'
+                }`}
+                style={{ width: `${user.progress}%` }}
+              />
+            </div>
+          </div>
+        );
+      })}
+  </div>
+);
+
+export default RaceTrack;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import SpectatorView from './SpectatorView';
+import { DEFAULT_ROOM_SETTINGS, LobbyState } from '../protocol/events';
+
+const lobby: LobbyState = {
+  users: [
+    { id: 'a', username: 'alice', progress: 40, wpm: 72 },
+    { id: 'b', username: 'bob', progress: 100, finished: true, rank: 1, stats: { wpm: 95, accuracy: 98, timeTaken: 20 } }
+  ],
+  countdown: 0,
+  status: 'racing',
+  code: null,
+  hostId: null,
+  settings: DEFAULT_ROOM_SETTINGS,
+  spectators: 2,
+  ratingBand: null,
+  match: null
+};
+
+test('shows every racer with their live wpm', () => {
+  render(<SpectatorView lobby={lobby} results={null} onWatchNext={jest.fn()} onStop={jest.fn()} />);
+
+  expect(screen.getByText('🏁 Race in Progress')).toBeInTheDocument();
+  expect(screen.getByText('2 watching')).toBeInTheDocument();
+  expect(screen.getByText('72 WPM')).toBeInTheDocument();
+  // Finished racers show their final speed
+  expect(screen.getByText('95 WPM')).toBeInTheDocument();
+  expect(screen.queryByRole('button', { name: '👀 Watch Next Race' })).not.toBeInTheDocument();
+});
+
+test('offers the next public race once the results are in', () => {
+  const onWatchNext = jest.fn();
+  const results = { results: [{ rank: 1, userId: 'b', username: 'bob', wpm: 95, accuracy: 98, timeTaken: 20 }], finished: false };
+  render(<SpectatorView lobby={{ ...lobby, status: 'finished' }} results={results} onWatchNext={onWatchNext} onStop={jest.fn()} />);
+
+  expect(screen.getByText('Final Standings')).toBeInTheDocument();
+  fireEvent.click(screen.getByRole('button', { name: '👀 Watch Next Race' }));
+  expect(onWatchNext).toHaveBeenCalled();
+});
@@ -0,0 +1,69 @@
+import React from 'react';
+import RaceTrack from './RaceTrack';
+import RaceStandings from './RaceStandings';
+import { LobbyState, RaceResults } from '../protocol/events';
+
+interface SpectatorViewProps {
+  lobby: LobbyState;
+  results: RaceResults | null;
+  // Public lobbies close after each race, so watching on means finding the next one
+  onWatchNext: () => void;
+  onStop: () => void;
+}
+
+const SpectatorView: React.FC<SpectatorViewProps> = ({ lobby, results, onWatchNext, onStop }) => {
+  const isRunning = lobby.status === 'countdown' || lobby.status === 'racing';
+  const showResults = !!results && !isRunning;
+
+  return (
+    <div className="w-full max-w-5xl mx-auto p-6">
+      <div className="bg-gray-800 rounded-lg p-8">
+        <div className="flex flex-wrap justify-between items-center gap-2 mb-6">
+          <h2 className="text-3xl font-bold text-white">
+            👀 Spectating {lobby.code ? `Room ${lobby.code}` : 'Public Race'}
+          </h2>
+          <span className="text-gray-400">{lobby.spectators} watching</span>
+        </div>
+
+        <p className="text-xl text-center text-gray-300 mb-6">
+          {lobby.status === 'racing' ? '🏁 Race in Progress' :
+           lobby.status === 'countdown' ? `⏱️ Starting in ${lobby.countdown}...` :
+           showResults ? '🏁 Race Complete!' :
+           'Waiting for the race to start...'}
+        </p>
+
+        {/* Race Track */}
+        {lobby.users.length > 0 ? (
+          <RaceTrack users={lobby.users} large />
+        ) : (
+          <p className="text-center text-gray-500">Nobody is racing yet.</p>
+        )}
+
+        {showResults && (
+          <div className="mt-8">
+            <RaceStandings results={results.results} isMine={() => false} />
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-3 justify-center mt-8">
+          {showResults && !lobby.code && (
+            <button
+              onClick={onWatchNext}
+              className="bg-blue-600 hover:bg-blue-700 px-8 py-2 rounded-lg text-white font-semibold transition-colors"
+            >
+              👀 Watch Next Race
+            </button>
+          )}
+          <button
+            onClick={onStop}
+            className="bg-gray-600 hover:bg-gray-700 px-6 py-2 rounded-lg text-white font-semibold transition-colors"
+          >
+            Stop Watching
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SpectatorView;
@@ -0,0 +1,26 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import TimelineChart from './TimelineChart';
+
+const sample = (second: number, errors = 0) => ({ second, wpm: 60, rawWpm: 64, errors });
+
+test('marks the seconds that had errors', () => {
+  render(<TimelineChart samples={[sample(1), sample(2, 1), sample(3, 2)]} />);
+
+  expect(screen.getByRole('img', { name: 'WPM over time' })).toBeInTheDocument();
+  expect(screen.getByText('1 error at 2s')).toBeInTheDocument();
+  expect(screen.getByText('2 errors at 3s')).toBeInTheDocument();
+  expect(screen.queryByText(/at 1s/)).not.toBeInTheDocument();
+});
+
+test('draws no markers for a clean run', () => {
+  render(<TimelineChart samples={[sample(1), sample(2), sample(2.6)]} />);
+
+  expect(screen.queryByText(/errors? at/)).not.toBeInTheDocument();
+});
+
+test('draws nothing without samples', () => {
+  const { container } = render(<TimelineChart samples={[]} />);
+
+  expect(container).toBeEmptyDOMElement();
+});
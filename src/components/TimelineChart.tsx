@@ -0,0 +1,81 @@
+import React from 'react';
+import { StatsSample } from '../types/typing';
+
+interface TimelineChartProps {
+  samples: StatsSample[];
+}
+
+const WIDTH = 600;
+const HEIGHT = 220;
+const PADDING = { top: 16, right: 16, bottom: 32, left: 40 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+
+// Keep the x axis readable from 15 second tests up to 2 minutes and beyond
+const X_TICK_STEPS = [1, 2, 5, 10, 15, 30, 60];
+const MAX_X_TICKS = 10;
+
+const TimelineChart: React.FC<TimelineChartProps> = ({ samples }) => {
+  if (samples.length === 0) return null;
+
+  const duration = samples[samples.length - 1].second;
+  const peak = Math.max(...samples.map(s => Math.max(s.wpm, s.rawWpm)), 20);
+  const maxWpm = Math.ceil(peak / 20) * 20;
+  const xStep = X_TICK_STEPS.find(step => duration / step <= MAX_X_TICKS) || 60;
+
+  const x = (second: number) => PADDING.left + (duration > 0 ? (second / duration) * PLOT_WIDTH : 0);
+  const y = (wpm: number) => PADDING.top + PLOT_HEIGHT - (wpm / maxWpm) * PLOT_HEIGHT;
+  const toPoints = (key: 'wpm' | 'rawWpm') =>
+    samples.map(s => `${x(s.second).toFixed(1)},${y(s[key]).toFixed(1)}`).join(' ');
+
+  const yTicks = [0, 0.25, 0.5, 0.75, 1].map(fraction => Math.round(maxWpm * fraction));
+  const xTicks: number[] = [];
+  for (let second = 0; second <= duration; second += xStep) {
+    xTicks.push(second);
+  }
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 mb-8">
+      <div className="flex justify-center gap-6 mb-2 text-xs text-gray-400">
+        <span><span className="inline-block w-3 h-0.5 bg-blue-400 align-middle mr-1" />wpm</span>
+        <span><span className="inline-block w-3 h-0.5 bg-gray-400 align-middle mr-1" />raw</span>
+        <span><span className="text-red-400 mr-1">×</span>errors</span>
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="WPM over time">
+        {/* Grid and axes */}
+        {yTicks.map(tick => (
+          <g key={`y-${tick}`}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} stroke="#374151" strokeWidth={1} />
+            <text x={PADDING.left - 8} y={y(tick) + 4} textAnchor="end" fontSize={10} fill="#9ca3af">{tick}</text>
+          </g>
+        ))}
+        {xTicks.map(tick => (
+          <text key={`x-${tick}`} x={x(tick)} y={HEIGHT - PADDING.bottom + 16} textAnchor="middle" fontSize={10} fill="#9ca3af">
+            {tick}s
+          </text>
+        ))}
+
+        {/* Series */}
+        <polyline points={toPoints('rawWpm')} fill="none" stroke="#9ca3af" strokeWidth={1.5} strokeDasharray="4 3" />
+        <polyline points={toPoints('wpm')} fill="none" stroke="#60a5fa" strokeWidth={2.5} strokeLinejoin="round" />
+
+        {/* Error markers sit on the wpm line for the second they happened in */}
+        {samples.filter(s => s.errors > 0).map(s => (
+          <text
+            key={`e-${s.second}`}
+            x={x(s.second)}
+            y={y(s.wpm) - 6}
+            textAnchor="middle"
+            fontSize={10 + Math.min(s.errors, 4) * 2}
+            fill="#f87171"
+          >
+            ×
+            <title>{`${s.errors} ${s.errors === 1 ? 'error' : 'errors'} at ${Math.round(s.second)}s`}</title>
+          </text>
+        ))}
+      </svg>
+    </div>
+  );
+};
+
+export default TimelineChart;
@@ -0,0 +1,42 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import TournamentBracket from './TournamentBracket';
+import { beginTournament, recordHeat } from '../utils/tournament';
+
+const entrant = (id: string, username: string) => ({ id, username, seed: 0 });
+
+// Seeded in the order given, so alice v dave and bob v carol
+const tournament = recordHeat(beginTournament({
+  id: 'CUP234',
+  name: 'Spring Cup',
+  format: 'single-elimination',
+  bestOf: 1,
+  textSource: 'quotes',
+  adminId: 'a',
+  status: 'registering',
+  entrants: [entrant('a', 'alice'), entrant('b', 'bob'), entrant('c', 'carol'), entrant('d', 'dave')],
+  matches: [],
+  rounds: 0,
+  championId: null
+}, () => 1000), 'W1-1', ['a']);
+
+test('draws each round with the winners carried forward', () => {
+  render(<TournamentBracket tournament={tournament} myId="b" />);
+
+  expect(screen.getByText('Semifinal')).toBeInTheDocument();
+  expect(screen.getByText('Final')).toBeInTheDocument();
+  expect(screen.getAllByText('alice')).toHaveLength(2);
+  expect(screen.getAllByText('alice')[0]).toHaveClass('text-green-400');
+  expect(screen.getByText('TBD')).toBeInTheDocument();
+  expect(screen.queryByRole('button')).not.toBeInTheDocument();
+});
+
+test('lets the admin advance either player in a match', () => {
+  const onOverride = jest.fn();
+  render(<TournamentBracket tournament={tournament} myId="a" onOverride={onOverride} />);
+
+  fireEvent.click(screen.getByRole('button', { name: 'Advance carol in W1-2' }));
+  expect(onOverride).toHaveBeenCalledWith('W1-2', 'c');
+  // The player already through has nothing to override
+  expect(screen.queryByRole('button', { name: 'Advance alice in W1-1' })).not.toBeInTheDocument();
+});
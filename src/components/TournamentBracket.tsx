@@ -0,0 +1,124 @@
+import React from 'react';
+import { BracketSide, Tournament, TournamentMatch } from '../protocol/events';
+import { getEntrantName, getMatchLabel, getSwissStandings, isEntrantId } from '../utils/tournament';
+
+interface TournamentBracketProps {
+  tournament: Tournament;
+  // Account id of whoever is looking, so their matches stand out
+  myId: string | null;
+  // Only the admin gets buttons to settle matches
+  onOverride?: (matchId: string, winnerId: string) => void;
+}
+
+const SIDE_TITLES: Record<BracketSide, string> = {
+  winners: 'Winners bracket',
+  losers: 'Losers bracket',
+  final: 'Grand final',
+  swiss: 'Rounds'
+};
+
+const groupByRound = (matches: TournamentMatch[]) =>
+  matches.reduce<TournamentMatch[][]>((rounds, match) => {
+    rounds[match.round - 1] = [...(rounds[match.round - 1] || []), match];
+    return rounds;
+  }, []);
+
+const TournamentBracket: React.FC<TournamentBracketProps> = ({ tournament, myId, onOverride }) => {
+  const sides = (['winners', 'losers', 'final', 'swiss'] as const)
+    .map(side => ({ side, rounds: groupByRound(tournament.matches.filter(match => match.side === side)) }))
+    .filter(({ rounds }) => rounds.length > 0);
+  const canOverride = !!onOverride && tournament.status !== 'registering';
+
+  const renderSlot = (match: TournamentMatch, id: string | null, slot: number) => {
+    const isWinner = id !== null && id === match.winnerId;
+    const seed = tournament.entrants.find(entrant => entrant.id === id)?.seed;
+    return (
+      <div key={slot} className="flex items-center justify-between gap-2 px-3 py-1">
+        <span className={`truncate ${isEntrantId(id) ? (isWinner ? 'text-green-400 font-semibold' : 'text-white') : 'text-gray-500 italic'}`}>
+          {seed ? <span className="text-gray-500 text-xs mr-1">{seed}</span> : null}
+          {getEntrantName(tournament, id)}
+        </span>
+        <span className="flex items-center gap-2">
+          {canOverride && isEntrantId(id) && match.slots.every(isEntrantId) && !isWinner && (
+            <button
+              onClick={() => onOverride?.(match.id, id)}
+              aria-label={`Advance ${getEntrantName(tournament, id)} in ${match.id}`}
+              className="text-xs text-gray-400 hover:text-yellow-300"
+            >
+              ✓
+            </button>
+          )}
+          <span className="font-mono text-gray-300">{match.slots.every(isEntrantId) ? match.wins[slot] : ''}</span>
+        </span>
+      </div>
+    );
+  };
+
+  const renderMatch = (match: TournamentMatch) => (
+    <div
+      key={match.id}
+      className={`bg-gray-700 rounded-lg text-sm divide-y divide-gray-600 ${
+        myId && match.slots.includes(myId) ? 'ring-2 ring-blue-500' : ''
+      }`}
+    >
+      {match.slots.map((id, slot) => renderSlot(match, id, slot))}
+      {match.overridden && <p className="px-3 py-1 text-xs text-yellow-400">Set by the admin</p>}
+    </div>
+  );
+
+  const standings = tournament.format === 'swiss' ? getSwissStandings(tournament) : [];
+
+  return (
+    <div>
+      {tournament.championId && (
+        <div className="mb-6 p-4 bg-yellow-900/20 border border-yellow-700 rounded-lg text-center">
+          <p className="text-yellow-300 text-lg font-semibold">
+            🏆 {getEntrantName(tournament, tournament.championId)} wins {tournament.name}
+          </p>
+        </div>
+      )}
+
+      {sides.map(({ side, rounds }) => (
+        <div key={side} className="mb-6">
+          {sides.length > 1 && <h3 className="text-lg font-semibold text-white mb-3">{SIDE_TITLES[side]}</h3>}
+          <div className="flex gap-4 overflow-x-auto pb-2">
+            {rounds.map(matches => (
+              <div key={matches[0].id} className="min-w-[12rem] flex flex-col justify-around gap-3">
+                <p className="text-xs text-gray-400 uppercase tracking-wide">{getMatchLabel(tournament, matches[0])}</p>
+                {matches.map(renderMatch)}
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      {standings.length > 0 && (
+        <table className="w-full text-left text-sm">
+          <thead>
+            <tr className="text-gray-400 border-b border-gray-700">
+              <th className="py-2 pr-4">#</th>
+              <th className="py-2 pr-4">Player</th>
+              <th className="py-2 pr-4 text-right">Points</th>
+              <th className="py-2 text-right">Heats</th>
+            </tr>
+          </thead>
+          <tbody>
+            {standings.map((standing, index) => (
+              <tr
+                key={standing.entrant.id}
+                className={`border-b border-gray-700/50 ${standing.entrant.id === myId ? 'bg-blue-900/30' : ''}`}
+              >
+                <td className="py-2 pr-4 text-gray-400">{index + 1}</td>
+                <td className="py-2 pr-4 text-white">{standing.entrant.username}</td>
+                <td className="py-2 pr-4 text-right font-mono text-white">{standing.points}</td>
+                <td className="py-2 text-right font-mono text-gray-300">{standing.heats}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default TournamentBracket;
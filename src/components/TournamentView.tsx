@@ -0,0 +1,269 @@
+import React, { useEffect, useRef, useState } from 'react';
+import TournamentBracket from './TournamentBracket';
+import { TEXT_SOURCE_LABELS } from './MultiplayerRace';
+import {
+  RACE_TEXT_SOURCES,
+  RaceTextSource,
+  TOURNAMENT_BEST_OF,
+  TOURNAMENT_FORMATS,
+  TOURNAMENT_LIMITS,
+  Tournament,
+  TournamentFormat
+} from '../protocol/events';
+import { RaceSocket, connectRaceServer } from '../protocol/client';
+import { guardServerEvent } from '../protocol/validators';
+import { loadAccount } from '../storage/account';
+import { TOURNAMENT_FORMAT_LABELS, getEntrantName, getMatchLabel } from '../utils/tournament';
+
+interface TournamentViewProps {
+  // Followed again when coming back from racing a match
+  initialTournamentId: string | null;
+  // Opens the race room for one of the player's matches
+  onRace: (roomCode: string, tournamentId: string) => void;
+  onBack: () => void;
+}
+
+const TournamentView: React.FC<TournamentViewProps> = ({ initialTournamentId, onRace, onBack }) => {
+  const [account] = useState(() => loadAccount()?.account ?? null);
+  const [socket, setSocket] = useState<RaceSocket | null>(null);
+  const [tournament, setTournament] = useState<Tournament | null>(null);
+  const [code, setCode] = useState('');
+  const [name, setName] = useState('');
+  const [format, setFormat] = useState<TournamentFormat>('single-elimination');
+  const [bestOf, setBestOf] = useState<number>(TOURNAMENT_BEST_OF[1]);
+  const [textSource, setTextSource] = useState<RaceTextSource>('quotes');
+  const [error, setError] = useState<string | null>(null);
+  // The tournament to follow on every connect, as a reconnect starts a fresh session
+  const followingRef = useRef(initialTournamentId);
+
+  useEffect(() => {
+    const newSocket = connectRaceServer();
+    const showError = (problem: { message: string }) => setError(problem.message);
+    newSocket.on('connect', () => {
+      if (followingRef.current) {
+        newSocket.emit('watchTournament', { tournamentId: followingRef.current });
+      }
+    });
+    newSocket.on('tournamentState', guardServerEvent('tournamentState', (data) => {
+      followingRef.current = data.id;
+      setTournament(data);
+      setError(null);
+    }, showError));
+    newSocket.on('tournamentError', showError);
+    newSocket.on('connect_error', () => setError('Tournaments need the race server, which could not be reached.'));
+    setSocket(newSocket);
+    return () => {
+      newSocket.close();
+    };
+  }, []);
+
+  const send = (event: 'joinTournament' | 'watchTournament' | 'startTournament', tournamentId: string) => {
+    setError(null);
+    socket?.emit(event, { tournamentId: tournamentId.trim() });
+  };
+
+  const createTournament = () => {
+    setError(null);
+    socket?.emit('createTournament', { name: name.trim(), format, bestOf, textSource });
+  };
+
+  const overrideMatch = (matchId: string, winnerId: string) => {
+    if (!tournament) return;
+    setError(null);
+    socket?.emit('overrideMatch', { tournamentId: tournament.id, matchId, winnerId });
+  };
+
+  const isAdmin = !!account && tournament?.adminId === account.id;
+  const hasEntered = !!account && !!tournament?.entrants.some(entrant => entrant.id === account.id);
+  const myMatch = account && tournament?.matches.find(match =>
+    match.winnerId === null && match.roomCode && match.slots.includes(account.id));
+
+  const inputClassName = 'px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm placeholder-gray-400 focus:outline-none focus:border-blue-500';
+  const selectClassName = 'px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:border-blue-500';
+
+  const renderSetup = () => (
+    <div className="space-y-6">
+      <div className="p-4 bg-gray-700/50 rounded-lg">
+        <h3 className="text-lg font-semibold text-white mb-3">Join or follow a tournament</h3>
+        <div className="flex flex-wrap gap-3">
+          <input
+            type="text"
+            value={code}
+            onChange={(e) => setCode(e.target.value.toUpperCase())}
+            maxLength={6}
+            placeholder="Tournament code"
+            aria-label="Tournament code"
+            className={`${inputClassName} w-40 font-mono uppercase`}
+          />
+          <button
+            onClick={() => send('joinTournament', code)}
+            disabled={!account || !code.trim()}
+            className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed px-6 py-2 rounded-lg text-white font-semibold transition-colors"
+          >
+            Enter
+          </button>
+          <button
+            onClick={() => send('watchTournament', code)}
+            disabled={!code.trim()}
+            className="bg-gray-600 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed px-6 py-2 rounded-lg text-white font-semibold transition-colors"
+          >
+            👀 Follow
+          </button>
+        </div>
+      </div>
+
+      <div className="p-4 bg-gray-700/50 rounded-lg">
+        <h3 className="text-lg font-semibold text-white mb-3">Run a tournament</h3>
+        <div className="flex flex-wrap gap-3">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={TOURNAMENT_LIMITS.nameMaxLength}
+            placeholder="Tournament name"
+            aria-label="Tournament name"
+            className={inputClassName}
+          />
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as TournamentFormat)}
+            aria-label="Format"
+            className={selectClassName}
+          >
+            {TOURNAMENT_FORMATS.map(option => (
+              <option key={option} value={option}>{TOURNAMENT_FORMAT_LABELS[option]}</option>
+            ))}
+          </select>
+          <select
+            value={bestOf}
+            onChange={(e) => setBestOf(Number(e.target.value))}
+            aria-label="Heats per match"
+            className={selectClassName}
+          >
+            {TOURNAMENT_BEST_OF.map(option => (
+              <option key={option} value={option}>Best of {option}</option>
+            ))}
+          </select>
+          <select
+            value={textSource}
+            onChange={(e) => setTextSource(e.target.value as RaceTextSource)}
+            aria-label="Text"
+            className={selectClassName}
+          >
+            {RACE_TEXT_SOURCES.map(source => (
+              <option key={source} value={source}>{TEXT_SOURCE_LABELS[source]}</option>
+            ))}
+          </select>
+          <button
+            onClick={createTournament}
+            disabled={!account || !name.trim()}
+            className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed px-6 py-2 rounded-lg text-white font-semibold transition-colors"
+          >
+            Create
+          </button>
+        </div>
+      </div>
+
+      {!account && (
+        <p className="text-sm text-gray-400 text-center">
+          Sign in from the home screen to enter or run a tournament. Anyone can follow one.
+        </p>
+      )}
+    </div>
+  );
+
+  const renderTournament = (current: Tournament) => (
+    <div>
+      <div className="mb-6 text-center">
+        <p className="text-2xl font-bold text-white">{current.name}</p>
+        <p className="text-sm text-gray-400">
+          {TOURNAMENT_FORMAT_LABELS[current.format]} • best of {current.bestOf} • {TEXT_SOURCE_LABELS[current.textSource]}
+          {' • '}code <span className="font-mono text-white">{current.id}</span>
+        </p>
+      </div>
+
+      {current.status === 'registering' ? (
+        <div className="mb-6 p-4 bg-blue-900/20 border border-blue-700 rounded-lg">
+          <p className="text-blue-300 mb-2">
+            {current.entrants.length}/{TOURNAMENT_LIMITS.maxPlayers} players signed up. Share the code for others to enter.
+          </p>
+          <p className="text-sm text-gray-300 mb-3">
+            {current.entrants.map(entrant => entrant.username).join(', ') || 'Nobody yet'}
+          </p>
+          <div className="flex flex-wrap gap-3">
+            {account && !hasEntered && (
+              <button
+                onClick={() => send('joinTournament', current.id)}
+                className="bg-blue-600 hover:bg-blue-700 px-6 py-2 rounded-lg text-white font-semibold transition-colors"
+              >
+                Enter
+              </button>
+            )}
+            {isAdmin && (
+              <button
+                onClick={() => send('startTournament', current.id)}
+                disabled={current.entrants.length < TOURNAMENT_LIMITS.minPlayers}
+                className="bg-green-600 hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed px-6 py-2 rounded-lg text-white font-semibold transition-colors"
+              >
+                🏁 Start Tournament
+              </button>
+            )}
+          </div>
+        </div>
+      ) : (
+        <>
+          {myMatch && (
+            <div className="mb-6 p-4 bg-blue-900/20 border border-blue-700 rounded-lg flex flex-wrap items-center justify-between gap-3">
+              <p className="text-blue-300">
+                {getMatchLabel(current, myMatch)}: {myMatch.slots.map(id => getEntrantName(current, id)).join(' vs ')}
+              </p>
+              <button
+                onClick={() => onRace(myMatch.roomCode as string, current.id)}
+                className="bg-blue-600 hover:bg-blue-700 px-6 py-2 rounded-lg text-white font-semibold transition-colors"
+              >
+                Race your match
+              </button>
+            </div>
+          )}
+          {isAdmin && current.status === 'running' && (
+            <p className="mb-4 text-sm text-gray-400">
+              As the admin you can settle a match with ✓ until a later match has been raced.
+            </p>
+          )}
+          <TournamentBracket
+            tournament={current}
+            myId={account?.id ?? null}
+            onOverride={isAdmin ? overrideMatch : undefined}
+          />
+        </>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="w-full max-w-5xl mx-auto p-6">
+      <div className="bg-gray-800 rounded-lg p-8">
+        <h2 className="text-3xl font-bold text-white mb-6 text-center">🏟️ Tournaments</h2>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-900/20 border border-red-700 rounded-lg">
+            <p className="text-red-300">{error}</p>
+          </div>
+        )}
+
+        {tournament ? renderTournament(tournament) : renderSetup()}
+
+        <div className="flex justify-center mt-8">
+          <button
+            onClick={onBack}
+            className="bg-gray-600 hover:bg-gray-700 px-6 py-2 rounded-lg text-white font-semibold transition-colors"
+          >
+            ← Back to Home
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TournamentView;
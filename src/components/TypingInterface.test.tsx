@@ -0,0 +1,264 @@
+import React from 'react';
+import { act, render, fireEvent, screen } from '@testing-library/react';
+import TypingInterface from './TypingInterface';
+import { replayKeystrokes, restoreKeystrokes } from '../utils/stats';
+import { TIME_MODE_LOOKAHEAD } from '../utils/testModes';
+
+const typeKeys = (input: HTMLElement, keys: string[]) => {
+  keys.forEach(key => fireEvent.keyDown(input, { key }));
+};
+
+test('reports stats and the keystroke log when a passage is finished', () => {
+  const onComplete = jest.fn();
+  render(<TypingInterface text="abc" onComplete={onComplete} isActive={true} />);
+  const input = screen.getByRole('textbox');
+
+  typeKeys(input, ['a', 'x', 'Backspace', 'b', 'c']);
+
+  expect(onComplete).toHaveBeenCalledTimes(1);
+  const [stats, keystrokes] = onComplete.mock.calls[0];
+  expect(stats.correctChars).toBe(3);
+  expect(stats.correctedErrors).toBe(1);
+  expect(keystrokes.map((k: { key: string }) => k.key)).toEqual(['a', 'x', 'Backspace', 'b', 'c']);
+});
+
+test('streams each keystroke as it is typed', () => {
+  const onKeystroke = jest.fn();
+  render(<TypingInterface text="abc" onComplete={jest.fn()} isActive={true} onKeystroke={onKeystroke} />);
+
+  typeKeys(screen.getByRole('textbox'), ['a', 'x', 'Backspace']);
+
+  expect(onKeystroke.mock.calls.map(([event]) => [event.key, event.isBackspace])).toEqual([
+    ['a', false],
+    ['x', false],
+    ['Backspace', true]
+  ]);
+});
+
+test('carries on from restored keystrokes', () => {
+  const onComplete = jest.fn();
+  const initialKeystrokes = restoreKeystrokes('abc', [
+    { key: 'a', isBackspace: false, time: 0 },
+    { key: 'b', isBackspace: false, time: 100 }
+  ], Date.now() - 1000);
+  render(<TypingInterface text="abc" onComplete={onComplete} isActive={true} initialKeystrokes={initialKeystrokes} />);
+
+  typeKeys(screen.getByRole('textbox'), ['c']);
+
+  expect(onComplete).toHaveBeenCalledTimes(1);
+  const [stats, keystrokes] = onComplete.mock.calls[0];
+  expect(stats.correctChars).toBe(3);
+  expect(keystrokes.map((k: { key: string }) => k.key)).toEqual(['a', 'b', 'c']);
+});
+
+test('draws other racers as named carets in the text', () => {
+  render(
+    <TypingInterface
+      text="abc"
+      onComplete={jest.fn()}
+      isActive={true}
+      cursors={[{ id: 'b', index: 1, name: 'bob', color: '#f59e0b' }]}
+    />
+  );
+
+  const tag = screen.getByText('bob');
+  expect(tag).toHaveClass('opponent-cursor-tag');
+  expect(tag).toHaveStyle({ backgroundColor: '#f59e0b' });
+});
+
+describe('timed and word-count modes', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const advance = (ms: number) => {
+    act(() => {
+      jest.advanceTimersByTime(ms);
+    });
+  };
+
+  test('a time test ends when the clock runs out, not before', () => {
+    const onComplete = jest.fn();
+    render(<TypingInterface text="abc def ghi" onComplete={onComplete} isActive={true} mode={{ type: 'time', duration: 15 }} />);
+
+    typeKeys(screen.getByRole('textbox'), ['a', 'b']);
+    advance(14800);
+    expect(onComplete).not.toHaveBeenCalled();
+
+    advance(300);
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(onComplete.mock.calls[0][0]).toMatchObject({ timeTaken: 15, correctChars: 2 });
+  });
+
+  test('a words test ends on the last character of its final word', () => {
+    const onComplete = jest.fn();
+    render(<TypingInterface text="ab cd ef" onComplete={onComplete} isActive={true} mode={{ type: 'words', count: 3 }} />);
+    const input = screen.getByRole('textbox');
+
+    typeKeys(input, 'ab cd e'.split(''));
+    expect(screen.getByText('3 / 3 words')).toBeInTheDocument();
+    expect(onComplete).not.toHaveBeenCalled();
+
+    typeKeys(input, ['f']);
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(onComplete.mock.calls[0][0]).toMatchObject({ correctChars: 8, incorrectChars: 0 });
+  });
+
+  test('asks for more text before the caret reaches the end, and keeps what was typed', () => {
+    const onComplete = jest.fn();
+    const onNeedMoreText = jest.fn();
+    const text = 'a'.repeat(TIME_MODE_LOOKAHEAD + 10);
+    const mode = { type: 'time' as const, duration: 15 };
+    const { rerender } = render(
+      <TypingInterface text={text} onComplete={onComplete} isActive={true} mode={mode} onNeedMoreText={onNeedMoreText} />
+    );
+    const input = screen.getByRole('textbox');
+
+    typeKeys(input, Array(10).fill('a'));
+    expect(onNeedMoreText).not.toHaveBeenCalled();
+    typeKeys(input, ['a']);
+    expect(onNeedMoreText).toHaveBeenCalled();
+
+    rerender(
+      <TypingInterface text={`${text}bbbbb`} onComplete={onComplete} isActive={true} mode={mode} onNeedMoreText={onNeedMoreText} />
+    );
+    typeKeys(input, [...Array(TIME_MODE_LOOKAHEAD - 1).fill('a'), 'b', 'b']);
+    expect(onComplete).not.toHaveBeenCalled();
+
+    advance(15000);
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(onComplete.mock.calls[0][0]).toMatchObject({ correctChars: TIME_MODE_LOOKAHEAD + 12, incorrectChars: 0 });
+  });
+});
+
+describe('timeline', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const advance = (ms: number) => {
+    act(() => {
+      jest.advanceTimersByTime(ms);
+    });
+  };
+
+  const timelineOf = (onComplete: jest.Mock) => onComplete.mock.calls[0][2];
+
+  test('takes one sample per elapsed second with the errors made in it', () => {
+    const onComplete = jest.fn();
+    render(<TypingInterface text="abcdef" onComplete={onComplete} isActive={true} mode={{ type: 'time', duration: 3 }} />);
+    const input = screen.getByRole('textbox');
+
+    typeKeys(input, ['a', 'x']);
+    advance(1000);
+    typeKeys(input, ['c']);
+    advance(1000);
+    typeKeys(input, ['d']);
+    advance(1000);
+
+    const timeline = timelineOf(onComplete);
+    expect(timeline.map((sample: { second: number }) => sample.second)).toEqual([1, 2, 3]);
+    expect(timeline.map((sample: { errors: number }) => sample.errors)).toEqual([1, 0, 0]);
+  });
+
+  test('closes with the final partial second', () => {
+    const onComplete = jest.fn();
+    render(<TypingInterface text="abc" onComplete={onComplete} isActive={true} />);
+    const input = screen.getByRole('textbox');
+
+    typeKeys(input, ['a']);
+    advance(1800);
+    typeKeys(input, ['x', 'c']);
+
+    const timeline = timelineOf(onComplete);
+    expect(timeline.map((sample: { second: number }) => sample.second)).toEqual([1, 1.8]);
+    expect(timeline[1].errors).toBe(1);
+  });
+
+  test('drops a final partial second too short to mean anything', () => {
+    const onComplete = jest.fn();
+    render(<TypingInterface text="abc" onComplete={onComplete} isActive={true} />);
+    const input = screen.getByRole('textbox');
+
+    typeKeys(input, ['a']);
+    advance(1200);
+    typeKeys(input, ['b', 'c']);
+
+    expect(timelineOf(onComplete).map((sample: { second: number }) => sample.second)).toEqual([1]);
+  });
+});
+
+describe('code mode', () => {
+  const snippet = 'if x:\n    y';
+
+  test('Enter types a newline and auto-indent fills the next line', () => {
+    const onComplete = jest.fn();
+    render(
+      <TypingInterface
+        text={snippet}
+        onComplete={onComplete}
+        isActive={true}
+        mode={{ type: 'code' }}
+        code={{ language: 'python', autoIndent: true, highlight: true }}
+      />
+    );
+    const input = screen.getByRole('textbox');
+
+    typeKeys(input, ['i', 'f', ' ', 'x', ':', 'Enter', 'y']);
+
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    const [stats, keystrokes] = onComplete.mock.calls[0];
+    expect(stats.incorrectChars).toBe(0);
+    // The indentation is logged, flagged, so the log replays to what was shown
+    expect(replayKeystrokes(keystrokes)).toBe(snippet);
+    expect(keystrokes.filter((k: { autoFilled?: boolean }) => k.autoFilled)).toHaveLength(4);
+  });
+
+  test('Tab types the expected indentation when auto-indent is off', () => {
+    const onComplete = jest.fn();
+    render(
+      <TypingInterface
+        text={snippet}
+        onComplete={onComplete}
+        isActive={true}
+        mode={{ type: 'code' }}
+        code={{ language: 'python', autoIndent: false, highlight: false }}
+      />
+    );
+    const input = screen.getByRole('textbox');
+
+    typeKeys(input, ['i', 'f', ' ', 'x', ':', 'Enter', 'Tab', 'y']);
+
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(onComplete.mock.calls[0][0].incorrectChars).toBe(0);
+  });
+
+  test('one backspace removes auto-filled indentation', () => {
+    const onComplete = jest.fn();
+    render(
+      <TypingInterface
+        text={snippet}
+        onComplete={onComplete}
+        isActive={true}
+        mode={{ type: 'code' }}
+        code={{ language: 'python', autoIndent: true, highlight: false }}
+      />
+    );
+    const input = screen.getByRole('textbox');
+
+    // The backspace leaves the cursor just after the newline, so Tab is needed again
+    typeKeys(input, ['i', 'f', ' ', 'x', ':', 'Enter', 'Backspace', 'Tab', 'y']);
+
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(onComplete.mock.calls[0][0].incorrectChars).toBe(0);
+    expect(replayKeystrokes(onComplete.mock.calls[0][1])).toBe(snippet);
+  });
+});
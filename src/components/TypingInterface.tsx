@@ -1,243 +1,453 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-
-interface TypingInterfaceProps {
-  text: string;
-  onComplete: (stats: TypingStats) => void;
-  isActive: boolean;
-  onProgressUpdate?: (progress: number) => void;
-}
-
-interface TypingStats {
-  wpm: number;
-  accuracy: number;
-  timeTaken: number;
-  correctChars: number;
-  incorrectChars: number;
-  totalChars: number;
-}
-
-interface CharacterState {
-  char: string;
-  typed: string;
-  isCorrect: boolean;
-  isCurrent: boolean;
-}
-
-const TypingInterface: React.FC<TypingInterfaceProps> = ({
-  text,
-  onComplete,
-  isActive,
-  onProgressUpdate
-}) => {
-  const [typedText, setTypedText] = useState('');
-  const [currentIndex, setCurrentIndex] = useState(0);
-  const [startTime, setStartTime] = useState<number | null>(null);
-  const [stats, setStats] = useState<TypingStats>({
-    wpm: 0,
-    accuracy: 0,
-    timeTaken: 0,
-    correctChars: 0,
-    incorrectChars: 0,
-    totalChars: 0
-  });
-  const [characters, setCharacters] = useState<CharacterState[]>([]);
-  const inputRef = useRef<HTMLInputElement>(null);
-
-  // Initialize characters array
-  useEffect(() => {
-    const chars = text.split('').map((char, index) => ({
-      char,
-      typed: '',
-      isCorrect: false,
-      isCurrent: index === 0
-    }));
-    setCharacters(chars);
-    setCurrentIndex(0);
-    setTypedText('');
-    setStartTime(null);
-  }, [text]);
-
-  // Focus input when active
-  useEffect(() => {
-    if (isActive && inputRef.current) {
-      inputRef.current.focus();
-    }
-  }, [isActive]);
-
-  // Calculate stats
-  const calculateStats = useCallback((typed: string, currentIdx: number, start: number) => {
-    const timeElapsed = (Date.now() - start) / 1000 / 60; // minutes
-    const wordsTyped = typed.trim().split(/\s+/).length;
-    const wpm = timeElapsed > 0 ? Math.round(wordsTyped / timeElapsed) : 0;
-    
-    const correctChars = typed.split('').filter((char, idx) => char === text[idx]).length;
-    const totalChars = typed.length;
-    const accuracy = totalChars > 0 ? Math.round((correctChars / totalChars) * 100) : 100;
-    
-    return {
-      wpm,
-      accuracy,
-      timeTaken: (Date.now() - start) / 1000,
-      correctChars,
-      incorrectChars: totalChars - correctChars,
-      totalChars
-    };
-  }, [text]);
-
-  // Update stats periodically
-  useEffect(() => {
-    if (!startTime || !isActive) return;
-
-    const interval = setInterval(() => {
-      const newStats = calculateStats(typedText, currentIndex, startTime);
-      setStats(newStats);
-      
-      // Send progress update
-      if (onProgressUpdate) {
-        const progress = (currentIndex / text.length) * 100;
-        onProgressUpdate(progress);
-      }
-    }, 100);
-
-    return () => clearInterval(interval);
-  }, [startTime, typedText, currentIndex, isActive, calculateStats, onProgressUpdate, text.length]);
-
-  // Handle key press
-  const handleKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (!isActive) return;
-
-    e.preventDefault();
-    
-    const key = e.key;
-    
-    // Start timer on first keystroke
-    if (!startTime) {
-      setStartTime(Date.now());
-    }
-
-    if (key === 'Backspace') {
-      if (currentIndex > 0) {
-        const newIndex = currentIndex - 1;
-        const newTypedText = typedText.slice(0, -1);
-        
-        setTypedText(newTypedText);
-        setCurrentIndex(newIndex);
-        
-        // Update character states
-        setCharacters(prev => prev.map((char, idx) => ({
-          ...char,
-          isCurrent: idx === newIndex,
-          typed: idx < newIndex ? newTypedText[idx] || '' : '',
-          isCorrect: idx < newIndex ? (newTypedText[idx] === char.char) : false
-        })));
-      }
-      return;
-    }
-
-    // Ignore special keys
-    if (key.length > 1) return;
-
-    // Check if we've reached the end
-    if (currentIndex >= text.length) {
-      if (startTime) {
-        const finalStats = calculateStats(typedText, currentIndex, startTime);
-        onComplete(finalStats);
-      }
-      return;
-    }
-
-    const newTypedText = typedText + key;
-    const newIndex = currentIndex + 1;
-    setTypedText(newTypedText);
-    setCurrentIndex(newIndex);
-
-    // Update character states
-    setCharacters(prev => prev.map((char, idx) => ({
-      ...char,
-      isCurrent: idx === newIndex,
-      typed: idx < newIndex ? newTypedText[idx] : '',
-      isCorrect: idx < newIndex ? (newTypedText[idx] === char.char) : false
-    })));
-
-    // Check if completed
-    if (newIndex >= text.length && startTime) {
-      const finalStats = calculateStats(newTypedText, newIndex, startTime);
-      onComplete(finalStats);
-    }
-  };
-
-  return (
-    <div className="w-full max-w-4xl mx-auto p-6">
-      {/* Stats Display */}
-      <div className="flex justify-between items-center mb-6 p-4 bg-gray-800 rounded-lg">
-        <div className="text-center">
-          <div className="text-2xl font-bold text-blue-400">{stats.wpm}</div>
-          <div className="text-sm text-gray-400">WPM</div>
-        </div>
-        <div className="text-center">
-          <div className="text-2xl font-bold text-green-400">{stats.accuracy}%</div>
-          <div className="text-sm text-gray-400">Accuracy</div>
-        </div>
-        <div className="text-center">
-          <div className="text-2xl font-bold text-yellow-400">
-            {Math.round(stats.timeTaken)}s
-          </div>
-          <div className="text-sm text-gray-400">Time</div>
-        </div>
-      </div>
-
-      {/* Typing Area */}
-      <div className="relative">
-        <div className="typing-text bg-gray-900 p-6 rounded-lg border-2 border-gray-700 min-h-[200px] leading-relaxed">
-          {characters.map((char, index) => (
-            <span
-              key={index}
-              className={`character ${
-                char.isCurrent ? 'current' : 
-                char.isCorrect ? 'correct' : 
-                char.typed && !char.isCorrect ? 'incorrect' : ''
-              }`}
-            >
-              {char.char}
-            </span>
-          ))}
-        </div>
-        
-        {/* Hidden input for capturing keystrokes */}
-        <input
-          ref={inputRef}
-          type="text"
-          className="absolute inset-0 opacity-0 cursor-pointer"
-          onKeyDown={handleKeyPress}
-          value=""
-          readOnly
-          tabIndex={0}
-        />
-      </div>
-
-      {/* Progress Bar */}
-      <div className="mt-4">
-        <div className="w-full bg-gray-700 rounded-full h-2">
-          <div 
-            className="progress-bar bg-blue-500 h-2 rounded-full transition-all duration-300"
-            style={{ width: `${(currentIndex / text.length) * 100}%` }}
-          />
-        </div>
-        <div className="text-center mt-2 text-sm text-gray-400">
-          {currentIndex} / {text.length} characters
-        </div>
-      </div>
-
-      {/* Instructions */}
-      {!isActive && (
-        <div className="text-center mt-6 p-4 bg-gray-800 rounded-lg">
-          <p className="text-gray-300">
-            Click on the text area and start typing to begin the test.
-          </p>
-        </div>
-      )}
-    </div>
-  );
-};
-
-export default TypingInterface;
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { CodeOptions, KeystrokeEvent, StatsSample, TestMode, TypingStats } from '../types/typing';
+import { TIME_MODE_LOOKAHEAD } from '../utils/testModes';
+import { calculateTypingStats, EMPTY_STATS, replayKeystrokes, sampleWindow } from '../utils/stats';
+import { TextMeta } from '../textSources';
+import { highlightCode } from '../utils/syntaxHighlight';
+import { OpponentCursor } from '../utils/opponentCursors';
+
+interface TypingInterfaceProps {
+  text: string;
+  onComplete: (stats: TypingStats, keystrokes: KeystrokeEvent[], timeline: StatsSample[]) => void;
+  isActive: boolean;
+  onProgressUpdate?: (progress: number, index: number) => void;
+  // Called for every keystroke as it happens, e.g. to stream them to the race server
+  onKeystroke?: (event: KeystrokeEvent) => void;
+  mode?: TestMode;
+  onNeedMoreText?: () => void;
+  meta?: TextMeta;
+  code?: CodeOptions;
+  // Other racers' carets, drawn in the text with a name tag
+  cursors?: OpponentCursor[];
+  // Picks up partway through the text, e.g. a race resumed after a reload
+  initialKeystrokes?: KeystrokeEvent[];
+}
+
+const DEFAULT_MODE: TestMode = { type: 'passage' };
+
+interface CharacterState {
+  char: string;
+  typed: string;
+  isCorrect: boolean;
+  isCurrent: boolean;
+}
+
+const TypingInterface: React.FC<TypingInterfaceProps> = ({
+  text,
+  onComplete,
+  isActive,
+  onProgressUpdate,
+  onKeystroke,
+  mode = DEFAULT_MODE,
+  onNeedMoreText,
+  meta,
+  code,
+  cursors,
+  initialKeystrokes
+}) => {
+  const [typedText, setTypedText] = useState('');
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [startTime, setStartTime] = useState<number | null>(null);
+  const [stats, setStats] = useState<TypingStats>(EMPTY_STATS);
+  const [characters, setCharacters] = useState<CharacterState[]>([]);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const keystrokesRef = useRef<KeystrokeEvent[]>([]);
+  const timelineRef = useRef<StatsSample[]>([]);
+  const previousTextRef = useRef('');
+  const finishedRef = useRef(false);
+  // Indentation filled in automatically after Enter in code mode
+  const autoFilledRef = useRef<Set<number>>(new Set());
+  // Only the keystrokes we mounted with are restored
+  const initialKeystrokesRef = useRef(initialKeystrokes || []);
+  const isTimed = mode.type === 'time';
+
+  // Initialize characters array
+  useEffect(() => {
+    const previousText = previousTextRef.current;
+    previousTextRef.current = text;
+
+    // Timed tests top up their text mid-test; keep what has been typed so far
+    if (previousText && text.length > previousText.length && text.startsWith(previousText)) {
+      setCharacters(prev => [
+        ...prev,
+        ...text.slice(previousText.length).split('').map(char => ({
+          char,
+          typed: '',
+          isCorrect: false,
+          isCurrent: false
+        }))
+      ]);
+      return;
+    }
+
+    const restored = initialKeystrokesRef.current;
+    const typed = replayKeystrokes(restored).slice(0, text.length);
+    const chars = text.split('').map((char, index) => ({
+      char,
+      typed: typed[index] || '',
+      isCorrect: index < typed.length && typed[index] === char,
+      isCurrent: index === typed.length
+    }));
+    setCharacters(chars);
+    setCurrentIndex(typed.length);
+    setTypedText(typed);
+    setStartTime(restored.length > 0 ? restored[0].timestamp : null);
+    keystrokesRef.current = [...restored];
+    timelineRef.current = [];
+    autoFilledRef.current = new Set();
+    finishedRef.current = false;
+  }, [text]);
+
+  const cursorsByIndex = useMemo(() => {
+    const byIndex = new Map<number, OpponentCursor[]>();
+    (cursors || []).forEach(cursor => {
+      byIndex.set(cursor.index, [...(byIndex.get(cursor.index) || []), cursor]);
+    });
+    return byIndex;
+  }, [cursors]);
+
+  const highlightLanguage = code?.highlight ? code.language : undefined;
+  const tokenTypes = useMemo(
+    () => (highlightLanguage ? highlightCode(text, highlightLanguage) : null),
+    [text, highlightLanguage]
+  );
+
+  // Ask for more words before a timed test runs out of text
+  useEffect(() => {
+    if (isTimed && onNeedMoreText && text.length - currentIndex < TIME_MODE_LOOKAHEAD) {
+      onNeedMoreText();
+    }
+  }, [isTimed, onNeedMoreText, currentIndex, text.length]);
+
+  // Focus input when active
+  useEffect(() => {
+    if (isActive && inputRef.current) {
+      inputRef.current.focus();
+    }
+  }, [isActive]);
+
+  // Calculate stats
+  const calculateStats = useCallback((typed: string, start: number) => {
+    const now = Date.now();
+    // A timed test never runs past its duration, however late the last check fires
+    const end = mode.type === 'time' ? Math.min(now, start + mode.duration * 1000) : now;
+
+    return calculateTypingStats({
+      target: text,
+      typed,
+      keystrokes: keystrokesRef.current,
+      startTime: start,
+      endTime: end
+    });
+  }, [text, mode]);
+
+  // Add a timeline point covering everything since the previous one
+  const recordSample = useCallback((current: TypingStats, start: number, elapsedMs: number, isFinal = false) => {
+    const timeline = timelineRef.current;
+    const fromMs = timeline.length > 0 ? timeline[timeline.length - 1].second * 1000 : 0;
+    const window = sampleWindow(keystrokesRef.current, start, fromMs, elapsedMs, isFinal);
+    timeline.push({
+      second: elapsedMs / 1000,
+      wpm: current.wpm,
+      rawWpm: Math.round(window.rawWpm),
+      errors: window.errors
+    });
+  }, []);
+
+  const finishTest = useCallback((finalStats: TypingStats, start: number) => {
+    if (finishedRef.current) return;
+    finishedRef.current = true;
+
+    // Close the timeline with the final partial second, unless it is too short to mean anything
+    const timeline = timelineRef.current;
+    const lastSecond = timeline.length > 0 ? timeline[timeline.length - 1].second : 0;
+    if (timeline.length === 0 || finalStats.timeTaken - lastSecond >= 0.5) {
+      recordSample(finalStats, start, finalStats.timeTaken * 1000, true);
+    }
+
+    onComplete(finalStats, [...keystrokesRef.current], [...timeline]);
+  }, [onComplete, recordSample]);
+
+  // Update stats periodically
+  useEffect(() => {
+    if (!startTime || !isActive) return;
+
+    const interval = setInterval(() => {
+      const newStats = calculateStats(typedText, startTime);
+      setStats(newStats);
+
+      // Take a timeline sample for every whole second that has passed
+      const timeline = timelineRef.current;
+      const elapsedMs = newStats.timeTaken * 1000;
+      let nextSecond = timeline.length > 0 ? Math.floor(timeline[timeline.length - 1].second) + 1 : 1;
+      while (nextSecond * 1000 <= elapsedMs) {
+        recordSample(newStats, startTime, nextSecond * 1000);
+        nextSecond++;
+      }
+      
+      // Send progress update
+      if (onProgressUpdate) {
+        const progress = (currentIndex / text.length) * 100;
+        onProgressUpdate(progress, currentIndex);
+      }
+
+      // Timed tests end when the clock runs out, not at the end of the text
+      if (mode.type === 'time' && Date.now() - startTime >= mode.duration * 1000) {
+        finishTest(newStats, startTime);
+      }
+    }, 100);
+
+    return () => clearInterval(interval);
+  }, [startTime, typedText, currentIndex, isActive, calculateStats, onProgressUpdate, text.length, mode, finishTest, recordSample]);
+
+  const updateTyped = (newTypedText: string) => {
+    const newIndex = newTypedText.length;
+    setTypedText(newTypedText);
+    setCurrentIndex(newIndex);
+
+    // Update character states
+    setCharacters(prev => prev.map((char, idx) => ({
+      ...char,
+      isCurrent: idx === newIndex,
+      typed: idx < newIndex ? newTypedText[idx] : '',
+      isCorrect: idx < newIndex ? (newTypedText[idx] === char.char) : false
+    })));
+  };
+
+  const recordKeystroke = (event: KeystrokeEvent) => {
+    keystrokesRef.current.push(event);
+    onKeystroke?.(event);
+  };
+
+  // Handle key press
+  const handleKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isActive || finishedRef.current) return;
+
+    e.preventDefault();
+    
+    const key = e.key;
+    const now = Date.now();
+    const start = startTime ?? now;
+    
+    // Start timer on first keystroke
+    if (!startTime) {
+      setStartTime(now);
+    }
+
+    if (key === 'Backspace') {
+      const deletedIndex = Math.max(0, currentIndex - 1);
+      // Auto-filled indentation goes in one backspace, back to the start of the line
+      let newIndex = deletedIndex;
+      while (autoFilledRef.current.has(newIndex) && newIndex > 0 && autoFilledRef.current.has(newIndex - 1)) {
+        newIndex--;
+      }
+
+      recordKeystroke({
+        key,
+        expected: text[deletedIndex] || '',
+        index: deletedIndex,
+        timestamp: now,
+        correct: false,
+        isBackspace: true
+      });
+      // The rest of the indentation is logged too, so the log replays to what is on screen
+      for (let index = deletedIndex - 1; index >= newIndex; index--) {
+        recordKeystroke({
+          key,
+          expected: text[index] || '',
+          index,
+          timestamp: now,
+          correct: false,
+          isBackspace: true,
+          autoFilled: true
+        });
+      }
+
+      if (currentIndex > 0) {
+        autoFilledRef.current.forEach(idx => {
+          if (idx >= newIndex) autoFilledRef.current.delete(idx);
+        });
+        updateTyped(typedText.slice(0, newIndex));
+      }
+      return;
+    }
+
+    // Work out which characters this key produces
+    let typedChars: string;
+    if (code && key === 'Enter') {
+      typedChars = '\n';
+    } else if (code && key === 'Tab') {
+      // Tab types the whole run of indentation expected at the cursor
+      const indentation = text.slice(currentIndex).match(/^[ \t]+/);
+      typedChars = indentation ? indentation[0] : '\t';
+    } else if (key.length > 1) {
+      // Ignore special keys
+      return;
+    } else {
+      typedChars = key;
+    }
+
+    // Check if we've reached the end
+    if (currentIndex >= text.length) {
+      if (!(isTimed && onNeedMoreText)) {
+        finishTest(calculateStats(typedText, start), start);
+      }
+      return;
+    }
+
+    typedChars.split('').forEach((char, offset) => {
+      const index = currentIndex + offset;
+      recordKeystroke({
+        key: char,
+        expected: text[index] || '',
+        index,
+        timestamp: now,
+        correct: char === text[index],
+        isBackspace: false
+      });
+    });
+
+    let newTypedText = typedText + typedChars;
+
+    // A correct newline brings the next line's indentation with it
+    if (code?.autoIndent && typedChars === '\n' && text[currentIndex] === '\n') {
+      const indentation = text.slice(newTypedText.length).match(/^[ \t]+/);
+      if (indentation) {
+        indentation[0].split('').forEach((char, offset) => {
+          const index = newTypedText.length + offset;
+          autoFilledRef.current.add(index);
+          recordKeystroke({
+            key: char,
+            expected: char,
+            index,
+            timestamp: now,
+            correct: true,
+            isBackspace: false,
+            autoFilled: true
+          });
+        });
+        newTypedText += indentation[0];
+      }
+    }
+
+    newTypedText = newTypedText.slice(0, text.length);
+    updateTyped(newTypedText);
+
+    // Check if completed
+    if (newTypedText.length >= text.length && !(isTimed && onNeedMoreText)) {
+      finishTest(calculateStats(newTypedText, start), start);
+    }
+  };
+
+  const timeLeft = mode.type === 'time' ? Math.max(0, Math.ceil(mode.duration - stats.timeTaken)) : 0;
+  const wordsTyped = typedText.trim() ? typedText.trim().split(/\s+/).length : 0;
+  const progressPercent = mode.type === 'time'
+    ? (stats.timeTaken / mode.duration) * 100
+    : (currentIndex / text.length) * 100;
+
+  return (
+    <div className="w-full max-w-4xl mx-auto p-6">
+      {/* Stats Display */}
+      <div className="flex justify-between items-center mb-6 p-4 bg-gray-800 rounded-lg">
+        <div className="text-center">
+          <div className="text-2xl font-bold text-blue-400">{stats.wpm}</div>
+          <div className="text-sm text-gray-400">WPM</div>
+        </div>
+        <div className="text-center">
+          <div className="text-2xl font-bold text-green-400">{stats.accuracy}%</div>
+          <div className="text-sm text-gray-400">Accuracy</div>
+        </div>
+        <div className="text-center">
+          <div className="text-2xl font-bold text-yellow-400">
+            {mode.type === 'time' ? timeLeft : Math.round(stats.timeTaken)}s
+          </div>
+          <div className="text-sm text-gray-400">{mode.type === 'time' ? 'Time Left' : 'Time'}</div>
+        </div>
+      </div>
+
+      {/* Typing Area */}
+      <div className="relative">
+        <div className={`typing-text bg-gray-900 p-6 rounded-lg border-2 border-gray-700 min-h-[200px] leading-relaxed ${code ? 'code-text' : ''}`}>
+          {characters.map((char, index) => {
+            const className = `character ${
+              char.isCurrent ? 'current' : 
+              char.isCorrect ? 'correct' : 
+              char.typed && !char.isCorrect ? 'incorrect' :
+              tokenTypes ? `token-${tokenTypes[index]}` : ''
+            }`;
+            // Stacked name tags when several racers sit on the same character
+            const charCursors = cursorsByIndex.get(index)?.map((cursor, stack) => (
+              <span key={cursor.id} className="opponent-cursor" style={{ backgroundColor: cursor.color }}>
+                <span className="opponent-cursor-tag" style={{ backgroundColor: cursor.color, marginBottom: `${stack * 1.4}em` }}>
+                  {cursor.name}
+                </span>
+              </span>
+            ));
+
+            // Newlines get a visible marker so they can be typed like any other character
+            if (code && char.char === '\n') {
+              return (
+                <React.Fragment key={index}>
+                  <span className={`${className} newline-marker`}>↵{charCursors}</span>
+                  {'\n'}
+                </React.Fragment>
+              );
+            }
+
+            return (
+              <span key={index} className={className}>
+                {char.char}
+                {charCursors}
+              </span>
+            );
+          })}
+        </div>
+        
+        {/* Hidden input for capturing keystrokes */}
+        <input
+          ref={inputRef}
+          type="text"
+          className="absolute inset-0 opacity-0 cursor-pointer"
+          onKeyDown={handleKeyPress}
+          value=""
+          readOnly
+          tabIndex={0}
+        />
+      </div>
+
+      {/* Text Source */}
+      {meta && (meta.author || meta.title) && (
+        <div className="mt-3 text-right text-sm text-gray-400 italic">
+          {meta.author ? `— ${meta.author}` : meta.title}
+          {meta.author && meta.title && <span className="not-italic text-gray-500">, {meta.title}</span>}
+        </div>
+      )}
+
+      {/* Progress Bar */}
+      <div className="mt-4">
+        <div className="w-full bg-gray-700 rounded-full h-2">
+          <div 
+            className="progress-bar bg-blue-500 h-2 rounded-full transition-all duration-300"
+            style={{ width: `${progressPercent}%` }}
+          />
+        </div>
+        <div className="text-center mt-2 text-sm text-gray-400">
+          {mode.type === 'time' && `${currentIndex} characters`}
+          {mode.type === 'words' && `${wordsTyped} / ${mode.count} words`}
+          {mode.type === 'passage' && `${currentIndex} / ${text.length} characters`}
+        </div>
+      </div>
+
+      {/* Instructions */}
+      {!isActive && (
+        <div className="text-center mt-6 p-4 bg-gray-800 rounded-lg">
+          <p className="text-gray-300">
+            Click on the text area and start typing to begin the test.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TypingInterface;
@@ -0,0 +1,92 @@
+import { io, ManagerOptions, Socket, SocketOptions } from 'socket.io-client';
+import {
+  AccountRequest,
+  ClientToServerEvents,
+  PROTOCOL_VERSION,
+  RecordedResult,
+  ResultSubmission,
+  ServerToClientEvents,
+  SignedIn
+} from './events';
+import { guardServerEvent } from './validators';
+import { clearAccount, loadAccount, saveAccount } from '../storage/account';
+
+export type RaceSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+export const RACE_SERVER_URL = process.env.REACT_APP_SERVER_URL || 'http://localhost:5000';
+
+// Connects signed in as the stored account, if there is one. Requests outside
+// a race, like leaderboards, pass no session token, so the server hands out a
+// fresh session that ends with the connection.
+export const connectRaceServer = (
+  options: Partial<ManagerOptions & SocketOptions> = {},
+  getSessionToken: () => string | undefined = () => undefined
+): RaceSocket => {
+  const socket: RaceSocket = io(RACE_SERVER_URL, {
+    reconnectionAttempts: 3,
+    ...options,
+    // Read on every attempt, so reconnects present the latest tokens
+    auth: (callback) => callback({
+      protocolVersion: PROTOCOL_VERSION,
+      sessionToken: getSessionToken(),
+      authToken: loadAccount()?.authToken
+    })
+  });
+  // The server no longer knows our token, e.g. after it restarted
+  socket.on('signedOut', clearAccount);
+  return socket;
+};
+
+// Resolves with the stats the server recorded, or rejects with why it refused
+export const submitLeaderboardResult = (submission: ResultSubmission) =>
+  new Promise<RecordedResult>((resolve, reject) => {
+    const socket = connectRaceServer();
+    const fail = (error: { message: string }) => {
+      socket.disconnect();
+      reject(new Error(error.message));
+    };
+
+    socket.on('resultRecorded', guardServerEvent('resultRecorded', (result) => {
+      socket.disconnect();
+      resolve(result);
+    }, fail));
+    socket.on('raceError', fail);
+    socket.on('lobbyError', fail);
+    socket.on('accountError', fail);
+    socket.on('connect_error', fail);
+    socket.emit('submitResult', submission);
+  });
+
+// Registers or signs in, and stores the account on success
+export const requestAccount = (event: 'register' | 'signIn', request: AccountRequest) =>
+  new Promise<SignedIn>((resolve, reject) => {
+    const socket = connectRaceServer();
+    const fail = (error: { message: string }) => {
+      socket.disconnect();
+      reject(new Error(error.message));
+    };
+
+    socket.on('signedIn', guardServerEvent('signedIn', (signedIn) => {
+      socket.disconnect();
+      saveAccount(signedIn);
+      resolve(signedIn);
+    }, fail));
+    socket.on('accountError', fail);
+    socket.on('connect_error', fail);
+    socket.emit(event, request);
+  });
+
+// Revokes the stored token when the server can be reached, and forgets it either way
+export const signOutAccount = () =>
+  new Promise<void>(resolve => {
+    const socket = connectRaceServer();
+    const done = () => {
+      socket.disconnect();
+      clearAccount();
+      resolve();
+    };
+
+    socket.on('signedOut', done);
+    socket.on('connect_error', done);
+    socket.emit('signOut');
+  });
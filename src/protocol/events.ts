@@ -0,0 +1,494 @@
+// Payloads and event maps shared by MultiplayerRace and the race server in /server.
+// Both sides type their Socket.IO instances with these maps, so a payload change
+// here is a compile error wherever it is sent or handled.
+
+// Bump whenever a payload changes shape. Clients send it in the Socket.IO
+// handshake and the server refuses connections from other versions.
+export const PROTOCOL_VERSION = 11;
+
+export interface HandshakeAuth {
+  protocolVersion: number;
+  // From an earlier session event; lets a reconnecting client pick up where it left off
+  sessionToken?: string;
+  // From signedIn; races, ratings and leaderboards then go under that account
+  authToken?: string;
+}
+
+// Attached to the connect_error a client gets when its version is refused
+export interface HandshakeErrorData {
+  code: 'PROTOCOL_MISMATCH';
+  serverVersion: number;
+}
+
+export type LobbyStatus = 'waiting' | 'countdown' | 'racing' | 'finished';
+
+export interface RaceStats {
+  wpm: number;
+  accuracy: number;
+  timeTaken: number;
+}
+
+export interface RaceUser {
+  id: string;
+  username: string;
+  // Percent of the race text typed
+  progress: number;
+  // Where their cursor is in the race text
+  index?: number;
+  finished?: boolean;
+  rank?: number;
+  stats?: RaceStats;
+  // Removed from the standings by the server's anti-cheat checks
+  disqualified?: boolean;
+  // Lost connection; kept in the lobby for a while in case they come back
+  offline?: boolean;
+  // Net WPM so far this race, from the keystrokes the server has seen
+  wpm?: number;
+  // Multiplayer rating as of the last rated race
+  rating?: number;
+}
+
+// Quote buckets the server can pick race texts from
+export const RACE_TEXT_SOURCES = ['quotes', 'quotes-short', 'quotes-medium', 'quotes-long'] as const;
+export type RaceTextSource = typeof RACE_TEXT_SOURCES[number];
+
+export interface RoomSettings {
+  textSource: RaceTextSource;
+  maxPlayers: number;
+  countdownSeconds: number;
+  // Off keeps chat and reactions quiet from the countdown until the results
+  chatWhileRacing: boolean;
+}
+
+export const DEFAULT_ROOM_SETTINGS: RoomSettings = {
+  textSource: 'quotes',
+  maxPlayers: 6,
+  countdownSeconds: 5,
+  chatWhileRacing: true
+};
+
+export const ROOM_LIMITS = {
+  minPlayers: 2,
+  maxPlayers: 10,
+  minCountdown: 3,
+  maxCountdown: 30
+};
+
+export interface LobbyState {
+  users: RaceUser[];
+  countdown: number;
+  status: LobbyStatus;
+  // Private rooms have an invite code and a host who starts the race by hand;
+  // public lobbies start on their own once enough players are in
+  code: string | null;
+  hostId: string | null;
+  settings: RoomSettings;
+  // Watching without racing; they don't count toward maxPlayers
+  spectators: number;
+  // Public lobbies are matched by rating band; null for private rooms
+  ratingBand: string | null;
+  // Set for the room a tournament match's heats are raced in
+  match: LobbyMatch | null;
+}
+
+export interface Standing extends RaceStats {
+  rank: number;
+  // Player id, so two racers with the same name can be told apart
+  userId: string;
+  username: string;
+}
+
+export interface RaceStart {
+  raceText: string;
+  startTime: number;
+}
+
+// Clients work out percentages from the race text they already have
+export interface OpponentProgress {
+  userId: string;
+  index: number;
+  wpm: number;
+}
+
+export interface UserFinished {
+  rank: number;
+  stats: RaceStats;
+  currentStandings: Standing[];
+}
+
+export interface OpponentFinished {
+  userId: string;
+  username: string;
+  rank: number;
+  stats: RaceStats;
+}
+
+export interface RatingUpdate {
+  userId: string;
+  username: string;
+  before: number;
+  after: number;
+}
+
+export interface RaceResults {
+  results: Standing[];
+  // False when the time limit ended the race before everyone finished
+  finished: boolean;
+  // Only for rated races: public lobbies where at least one player finished
+  ratingChanges?: RatingUpdate[];
+}
+
+export interface RaceTimeout {
+  message: string;
+  unfinishedUsers?: string[];
+}
+
+// Sent on every connection. Player ids stay the same across reconnects,
+// unlike socket ids, so they are what userId and hostId refer to.
+export interface SessionInfo {
+  token: string;
+  playerId: string;
+}
+
+// Everything a client needs to carry on with a race after reconnecting
+export interface RaceResume {
+  lobby: LobbyState;
+  raceText: string;
+  // How long the race has been running by the server's clock
+  elapsed: number;
+  // What the server has received from us, to restore our typed position
+  keystrokes: RaceKeystroke[];
+  rank: number | null;
+  standings: Standing[];
+}
+
+export const CHAT_MAX_LENGTH = 200;
+
+// The only reactions the server relays, so they stay quick to scan mid-race
+export const REACTION_EMOJIS = ['👍', '🔥', '😂', '😮', '👏', '😭'] as const;
+export type ReactionEmoji = typeof REACTION_EMOJIS[number];
+
+export interface ChatMessage {
+  id: string;
+  userId: string;
+  username: string;
+  // Already through the server's profanity filter
+  text: string;
+  time: number;
+}
+
+export interface Reaction {
+  userId: string;
+  username: string;
+  emoji: ReactionEmoji;
+}
+
+export interface ChatRequest {
+  text: string;
+}
+
+export interface ReactionRequest {
+  emoji: ReactionEmoji;
+}
+
+// lobbyError codes for chat moderation
+export const CHAT_ERROR_CODES = ['CHAT_RATE_LIMITED', 'CHAT_FILTERED', 'CHAT_INVALID', 'CHAT_DISABLED', 'CHAT_NOT_IN_LOBBY'] as const;
+
+export interface ProtocolError {
+  message: string;
+  code?: string;
+}
+
+// Guests race under any name they like; signed-in players always race under
+// their account's, so they leave username out
+export interface JoinLobbyRequest {
+  username?: string;
+  // Joins that private room instead of the public queue
+  roomCode?: string;
+  // Team the player's results count toward on the leaderboards
+  group?: string;
+}
+
+// Watches that private room, or without a code the public race furthest along
+export interface SpectateRequest {
+  roomCode?: string;
+}
+
+export interface CreateRoomRequest {
+  username?: string;
+  settings: RoomSettings;
+  group?: string;
+}
+
+export interface ProgressUpdate {
+  // Characters typed so far, i.e. the position of our cursor
+  index: number;
+}
+
+// Times are milliseconds since the client saw raceStart, so the two machines'
+// clocks never have to agree
+export interface RaceKeystroke {
+  key: string;
+  isBackspace: boolean;
+  time: number;
+}
+
+export interface KeystrokeBatch {
+  keystrokes: RaceKeystroke[];
+}
+
+// raceError codes for results the server refused to rank
+export const ANTI_CHEAT_CODES = [
+  'IMPOSSIBLE_SPEED',
+  'PASTE_BURST',
+  'PROGRESS_JUMP',
+  'INCOMPLETE_TEXT',
+  'INVALID_KEYSTROKES'
+] as const;
+export type AntiCheatCode = typeof ANTI_CHEAT_CODES[number];
+
+// The server ranks players on stats it recomputes from their keystrokes;
+// these client-side figures are only kept for logging
+export interface RaceFinishedReport {
+  finalWPM: number;
+  finalAccuracy: number;
+  timeTaken: number;
+}
+
+// Test modes with a leaderboard. Race results count toward 'quote'.
+export const LEADERBOARD_MODES = ['time-15', 'time-60', 'words-25', 'quote'] as const;
+export type LeaderboardMode = typeof LEADERBOARD_MODES[number];
+
+// Days and weeks start at midnight UTC, weeks on a Monday
+export const LEADERBOARD_PERIODS = ['daily', 'weekly', 'all-time'] as const;
+export type LeaderboardPeriod = typeof LEADERBOARD_PERIODS[number];
+
+export const GROUP_MAX_LENGTH = 30;
+
+export interface LeaderboardRequest {
+  mode: LeaderboardMode;
+  period: LeaderboardPeriod;
+  // Only players who gave this team name, matched without case
+  group?: string;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  // Account id
+  userId: string;
+  username: string;
+  group: string | null;
+  // Average WPM of the player's best bestOf results in the period
+  score: number;
+  bestWpm: number;
+  // Accuracy of the best result
+  accuracy: number;
+  results: number;
+}
+
+export interface Leaderboard {
+  mode: LeaderboardMode;
+  period: LeaderboardPeriod;
+  group: string | null;
+  bestOf: number;
+  entries: LeaderboardEntry[];
+}
+
+// A finished solo test from a signed-in player. The server recomputes the stats
+// from the keystrokes, timed from the first one, before anything goes on a leaderboard.
+export interface ResultSubmission {
+  group?: string;
+  mode: LeaderboardMode;
+  text: string;
+  keystrokes: RaceKeystroke[];
+}
+
+export interface RecordedResult {
+  mode: LeaderboardMode;
+  wpm: number;
+  accuracy: number;
+}
+
+export const USERNAME_MAX_LENGTH = 20;
+export const PASSWORD_LIMITS = { min: 8, max: 128 };
+
+// Ratings and leaderboards need an account; guests can still race
+export interface Account {
+  id: string;
+  username: string;
+}
+
+export interface AccountRequest {
+  username: string;
+  password: string;
+}
+
+export interface SignedIn {
+  account: Account;
+  // Sent back in the handshake of later connections
+  authToken: string;
+}
+
+// accountError codes
+export const ACCOUNT_ERROR_CODES = [
+  'INVALID_USERNAME',
+  'USERNAME_TAKEN',
+  'INVALID_PASSWORD',
+  'INVALID_CREDENTIALS',
+  'NOT_SIGNED_IN'
+] as const;
+
+export const TOURNAMENT_FORMATS = ['single-elimination', 'double-elimination', 'swiss'] as const;
+export type TournamentFormat = typeof TOURNAMENT_FORMATS[number];
+
+// Heats per match; the first to win a majority takes the match
+export const TOURNAMENT_BEST_OF = [1, 3, 5] as const;
+
+export const TOURNAMENT_LIMITS = {
+  minPlayers: 2,
+  maxPlayers: 32,
+  nameMaxLength: 40
+};
+
+export type TournamentStatus = 'registering' | 'running' | 'finished';
+
+// Swiss matches are all on one side; elimination brackets end in a final
+export type BracketSide = 'winners' | 'losers' | 'final' | 'swiss';
+
+export interface TournamentEntrant {
+  // Account id
+  id: string;
+  username: string;
+  // 1 is the top seed; 0 until the tournament starts
+  seed: number;
+}
+
+export interface MatchSlotRef {
+  matchId: string;
+  slot: number;
+}
+
+export interface TournamentMatch {
+  id: string;
+  side: BracketSide;
+  round: number;
+  // Entrant ids, 'bye' for an empty slot, or null until an earlier match fills it
+  slots: (string | null)[];
+  // Heats won by each slot
+  wins: number[];
+  winnerId: string | null;
+  // Decided by the tournament admin rather than by racing
+  overridden: boolean;
+  // Where the winner and, in double elimination, the loser play next
+  winnerTo: MatchSlotRef | null;
+  loserTo: MatchSlotRef | null;
+  // Private room the heats are raced in, once both players are known
+  roomCode: string | null;
+}
+
+export interface Tournament {
+  id: string;
+  name: string;
+  format: TournamentFormat;
+  bestOf: number;
+  textSource: RaceTextSource;
+  // Account id of whoever created it; only they can start it or override results
+  adminId: string;
+  status: TournamentStatus;
+  entrants: TournamentEntrant[];
+  matches: TournamentMatch[];
+  // Swiss rounds to play, or rounds in the winners bracket
+  rounds: number;
+  championId: string | null;
+}
+
+export interface CreateTournamentRequest {
+  name: string;
+  format: TournamentFormat;
+  bestOf: number;
+  textSource: RaceTextSource;
+}
+
+export interface TournamentRequest {
+  tournamentId: string;
+}
+
+export interface MatchOverride {
+  tournamentId: string;
+  matchId: string;
+  winnerId: string;
+}
+
+// What a tournament room shows about the match being raced in it
+export interface LobbyMatch {
+  tournamentId: string;
+  tournamentName: string;
+  label: string;
+  bestOf: number;
+  // In slot order
+  players: { username: string; wins: number }[];
+  winner: string | null;
+}
+
+// tournamentError codes, plus INVALID_PAYLOAD and NOT_SIGNED_IN
+export const TOURNAMENT_ERROR_CODES = [
+  'INVALID_TOURNAMENT',
+  'TOURNAMENT_NOT_FOUND',
+  'NOT_TOURNAMENT_ADMIN',
+  'TOURNAMENT_STARTED',
+  'TOURNAMENT_FULL',
+  'TOO_FEW_PLAYERS',
+  'MATCH_LOCKED'
+] as const;
+
+export interface ServerToClientEvents {
+  session: (data: SessionInfo) => void;
+  resumeRace: (data: RaceResume) => void;
+  lobbyState: (state: LobbyState) => void;
+  raceStart: (data: RaceStart) => void;
+  opponentProgress: (data: OpponentProgress) => void;
+  userFinished: (data: UserFinished) => void;
+  opponentFinished: (data: OpponentFinished) => void;
+  raceResults: (data: RaceResults) => void;
+  raceTimeout: (data: RaceTimeout) => void;
+  chatMessage: (message: ChatMessage) => void;
+  reaction: (reaction: Reaction) => void;
+  leaderboard: (data: Leaderboard) => void;
+  resultRecorded: (data: RecordedResult) => void;
+  signedIn: (data: SignedIn) => void;
+  // Also sent on connecting with an auth token the server no longer knows
+  signedOut: () => void;
+  accountError: (error: ProtocolError) => void;
+  tournamentState: (tournament: Tournament) => void;
+  tournamentError: (error: ProtocolError) => void;
+  raceError: (error: ProtocolError) => void;
+  lobbyError: (error: ProtocolError) => void;
+}
+
+export interface ClientToServerEvents {
+  joinLobby: (data: JoinLobbyRequest) => void;
+  createRoom: (data: CreateRoomRequest) => void;
+  spectate: (data: SpectateRequest) => void;
+  // Host only
+  updateRoomSettings: (settings: RoomSettings) => void;
+  startRace: () => void;
+  progressUpdate: (data: ProgressUpdate) => void;
+  keystrokes: (data: KeystrokeBatch) => void;
+  raceFinished: (data: RaceFinishedReport) => void;
+  leaveLobby: () => void;
+  chatMessage: (data: ChatRequest) => void;
+  reaction: (data: ReactionRequest) => void;
+  getLeaderboard: (data: LeaderboardRequest) => void;
+  submitResult: (data: ResultSubmission) => void;
+  register: (data: AccountRequest) => void;
+  signIn: (data: AccountRequest) => void;
+  signOut: () => void;
+  createTournament: (data: CreateTournamentRequest) => void;
+  // Enters the signed-in player while registration is open
+  joinTournament: (data: TournamentRequest) => void;
+  // Sends tournamentState now and whenever it changes
+  watchTournament: (data: TournamentRequest) => void;
+  // Admin only
+  startTournament: (data: TournamentRequest) => void;
+  overrideMatch: (data: MatchOverride) => void;
+}
@@ -0,0 +1,67 @@
+import { guardServerEvent, validateClientEvent, validateServerEvent } from './validators';
+
+const lobbyState = {
+  users: [{ id: 'a', username: 'alice', progress: 40, finished: true, rank: 1, stats: { wpm: 80, accuracy: 97, timeTaken: 12 } }],
+  countdown: 0,
+  status: 'racing',
+  code: 'ABC234',
+  hostId: 'a',
+  settings: { textSource: 'quotes-short', maxPlayers: 4, countdownSeconds: 5, chatWhileRacing: true },
+  spectators: 2,
+  ratingBand: null,
+  match: null
+};
+
+test('accepts well-formed server payloads', () => {
+  expect(validateServerEvent('lobbyState', lobbyState)).toBeNull();
+  expect(validateServerEvent('raceTimeout', { message: 'Time is up' })).toBeNull();
+  expect(validateServerEvent('raceResults', { results: [], finished: false })).toBeNull();
+  expect(validateServerEvent('raceResults', {
+    results: [],
+    finished: true,
+    ratingChanges: [{ userId: 'a', username: 'alice', before: 1200, after: 1212 }]
+  })).toBeNull();
+  expect(validateServerEvent('leaderboard', {
+    mode: 'time-60',
+    period: 'weekly',
+    group: 'Acme',
+    bestOf: 3,
+    entries: [{ rank: 1, userId: 'user-a', username: 'alice', group: 'Acme', score: 97.5, bestWpm: 102, accuracy: 98, results: 4 }]
+  })).toBeNull();
+  expect(validateServerEvent('lobbyState', {
+    ...lobbyState,
+    match: { tournamentId: 'CUP123', tournamentName: 'Cup', label: 'Final', bestOf: 3, players: [{ username: 'alice', wins: 1 }], winner: null }
+  })).toBeNull();
+});
+
+test('points at the first bad field', () => {
+  expect(validateServerEvent('lobbyState', { ...lobbyState, status: 'paused' }))
+    .toBe('lobbyState.status should be one of waiting, countdown, racing, finished');
+  expect(validateServerEvent('opponentFinished', { userId: 'a', username: 'alice', rank: 1, stats: { wpm: '80', accuracy: 97, timeTaken: 12 } }))
+    .toBe('opponentFinished.stats.wpm should be a finite number, got string');
+  expect(validateServerEvent('lobbyState', { ...lobbyState, users: [{ id: 'a' }] }))
+    .toBe('lobbyState.users[0].username should be a string, got undefined');
+  expect(validateServerEvent('raceStart', null)).toBe('raceStart should be an object, got null');
+  expect(validateServerEvent('lobbyState', { ...lobbyState, code: undefined }))
+    .toBe('lobbyState.code should be a string, got undefined');
+});
+
+test('validates client payloads', () => {
+  expect(validateClientEvent('raceFinished', { finalWPM: 80, finalAccuracy: 97, timeTaken: 12 })).toBeNull();
+  expect(validateClientEvent('progressUpdate', { index: NaN })).toBe('progressUpdate.index should be a finite number, got number');
+});
+
+test('guarded handlers only see valid payloads', () => {
+  const handler = jest.fn();
+  const onInvalid = jest.fn();
+  const guarded = guardServerEvent('opponentProgress', handler, onInvalid);
+
+  guarded({ userId: 'a', index: 50, wpm: 72 });
+  guarded({ userId: 'a' });
+
+  expect(handler).toHaveBeenCalledTimes(1);
+  expect(onInvalid).toHaveBeenCalledWith({
+    message: 'Malformed message from the race server: opponentProgress.index should be a finite number, got undefined',
+    code: 'MALFORMED_MESSAGE'
+  });
+});
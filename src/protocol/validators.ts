@@ -0,0 +1,248 @@
+import {
+  ClientToServerEvents,
+  LEADERBOARD_MODES,
+  LEADERBOARD_PERIODS,
+  LobbyStatus,
+  ProtocolError,
+  RACE_TEXT_SOURCES,
+  REACTION_EMOJIS,
+  ServerToClientEvents,
+  TOURNAMENT_FORMATS,
+  TournamentStatus
+} from './events';
+
+// Returns an error message for the first problem found, or null if the value fits
+export type Validator = (value: unknown, path: string) => string | null;
+
+const typeName = (value: unknown) => (Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value);
+
+export const string: Validator = (value, path) =>
+  typeof value === 'string' ? null : `${path} should be a string, got ${typeName(value)}`;
+
+export const number: Validator = (value, path) =>
+  typeof value === 'number' && Number.isFinite(value) ? null : `${path} should be a finite number, got ${typeName(value)}`;
+
+export const boolean: Validator = (value, path) =>
+  typeof value === 'boolean' ? null : `${path} should be a boolean, got ${typeName(value)}`;
+
+export const optional = (validator: Validator): Validator => (value, path) =>
+  value === undefined ? null : validator(value, path);
+
+export const nullable = (validator: Validator): Validator => (value, path) =>
+  value === null ? null : validator(value, path);
+
+export const oneOf = (...options: readonly string[]): Validator => (value, path) =>
+  typeof value === 'string' && options.includes(value) ? null : `${path} should be one of ${options.join(', ')}`;
+
+export const arrayOf = (validator: Validator): Validator => (value, path) => {
+  if (!Array.isArray(value)) return `${path} should be an array, got ${typeName(value)}`;
+  for (let i = 0; i < value.length; i++) {
+    const error = validator(value[i], `${path}[${i}]`);
+    if (error) return error;
+  }
+  return null;
+};
+
+export const object = (shape: Record<string, Validator>): Validator => (value, path) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return `${path} should be an object, got ${typeName(value)}`;
+  }
+  const record = value as Record<string, unknown>;
+  for (const key of Object.keys(shape)) {
+    const error = shape[key](record[key], `${path}.${key}`);
+    if (error) return error;
+  }
+  return null;
+};
+
+export const raceStats = object({ wpm: number, accuracy: number, timeTaken: number });
+
+const raceUser = object({
+  id: string,
+  username: string,
+  progress: number,
+  index: optional(number),
+  finished: optional(boolean),
+  rank: optional(number),
+  stats: optional(raceStats),
+  disqualified: optional(boolean),
+  offline: optional(boolean),
+  wpm: optional(number),
+  rating: optional(number)
+});
+
+export const standing = object({ rank: number, userId: string, username: string, wpm: number, accuracy: number, timeTaken: number });
+
+const raceKeystroke = object({ key: string, isBackspace: boolean, time: number });
+
+const protocolError = object({ message: string, code: optional(string) });
+
+const roomSettings = object({
+  textSource: oneOf(...RACE_TEXT_SOURCES),
+  maxPlayers: number,
+  countdownSeconds: number,
+  chatWhileRacing: boolean
+});
+
+const LOBBY_STATUSES: LobbyStatus[] = ['waiting', 'countdown', 'racing', 'finished'];
+
+const lobbyMatch = object({
+  tournamentId: string,
+  tournamentName: string,
+  label: string,
+  bestOf: number,
+  players: arrayOf(object({ username: string, wins: number })),
+  winner: nullable(string)
+});
+
+const lobbyState = object({
+  users: arrayOf(raceUser),
+  countdown: number,
+  status: oneOf(...LOBBY_STATUSES),
+  code: nullable(string),
+  hostId: nullable(string),
+  settings: roomSettings,
+  spectators: number,
+  ratingBand: nullable(string),
+  match: nullable(lobbyMatch)
+});
+
+const TOURNAMENT_STATUSES: TournamentStatus[] = ['registering', 'running', 'finished'];
+
+const matchSlotRef = object({ matchId: string, slot: number });
+
+const tournament = object({
+  id: string,
+  name: string,
+  format: oneOf(...TOURNAMENT_FORMATS),
+  bestOf: number,
+  textSource: oneOf(...RACE_TEXT_SOURCES),
+  adminId: string,
+  status: oneOf(...TOURNAMENT_STATUSES),
+  entrants: arrayOf(object({ id: string, username: string, seed: number })),
+  matches: arrayOf(object({
+    id: string,
+    side: oneOf('winners', 'losers', 'final', 'swiss'),
+    round: number,
+    slots: arrayOf(nullable(string)),
+    wins: arrayOf(number),
+    winnerId: nullable(string),
+    overridden: boolean,
+    winnerTo: nullable(matchSlotRef),
+    loserTo: nullable(matchSlotRef),
+    roomCode: nullable(string)
+  })),
+  rounds: number,
+  championId: nullable(string)
+});
+
+const tournamentRequest = object({ tournamentId: string });
+
+export const SERVER_EVENT_VALIDATORS: Record<keyof ServerToClientEvents, Validator> = {
+  session: object({ token: string, playerId: string }),
+  resumeRace: object({
+    lobby: lobbyState,
+    raceText: string,
+    elapsed: number,
+    keystrokes: arrayOf(raceKeystroke),
+    rank: nullable(number),
+    standings: arrayOf(standing)
+  }),
+  lobbyState,
+  raceStart: object({ raceText: string, startTime: number }),
+  opponentProgress: object({ userId: string, index: number, wpm: number }),
+  userFinished: object({ rank: number, stats: raceStats, currentStandings: arrayOf(standing) }),
+  opponentFinished: object({ userId: string, username: string, rank: number, stats: raceStats }),
+  raceResults: object({
+    results: arrayOf(standing),
+    finished: boolean,
+    ratingChanges: optional(arrayOf(object({ userId: string, username: string, before: number, after: number })))
+  }),
+  raceTimeout: object({ message: string, unfinishedUsers: optional(arrayOf(string)) }),
+  chatMessage: object({ id: string, userId: string, username: string, text: string, time: number }),
+  reaction: object({ userId: string, username: string, emoji: oneOf(...REACTION_EMOJIS) }),
+  leaderboard: object({
+    mode: oneOf(...LEADERBOARD_MODES),
+    period: oneOf(...LEADERBOARD_PERIODS),
+    group: nullable(string),
+    bestOf: number,
+    entries: arrayOf(object({
+      rank: number,
+      userId: string,
+      username: string,
+      group: nullable(string),
+      score: number,
+      bestWpm: number,
+      accuracy: number,
+      results: number
+    }))
+  }),
+  resultRecorded: object({ mode: oneOf(...LEADERBOARD_MODES), wpm: number, accuracy: number }),
+  signedIn: object({ account: object({ id: string, username: string }), authToken: string }),
+  signedOut: () => null,
+  accountError: protocolError,
+  tournamentState: tournament,
+  tournamentError: protocolError,
+  raceError: protocolError,
+  lobbyError: protocolError
+};
+
+export const CLIENT_EVENT_VALIDATORS: Record<keyof ClientToServerEvents, Validator> = {
+  joinLobby: object({ username: optional(string), roomCode: optional(string), group: optional(string) }),
+  createRoom: object({ username: optional(string), settings: roomSettings, group: optional(string) }),
+  spectate: object({ roomCode: optional(string) }),
+  updateRoomSettings: roomSettings,
+  startRace: () => null,
+  progressUpdate: object({ index: number }),
+  keystrokes: object({ keystrokes: arrayOf(raceKeystroke) }),
+  raceFinished: object({ finalWPM: number, finalAccuracy: number, timeTaken: number }),
+  leaveLobby: () => null,
+  chatMessage: object({ text: string }),
+  reaction: object({ emoji: oneOf(...REACTION_EMOJIS) }),
+  getLeaderboard: object({
+    mode: oneOf(...LEADERBOARD_MODES),
+    period: oneOf(...LEADERBOARD_PERIODS),
+    group: optional(string)
+  }),
+  submitResult: object({
+    group: optional(string),
+    mode: oneOf(...LEADERBOARD_MODES),
+    text: string,
+    keystrokes: arrayOf(raceKeystroke)
+  }),
+  register: object({ username: string, password: string }),
+  signIn: object({ username: string, password: string }),
+  signOut: () => null,
+  createTournament: object({
+    name: string,
+    format: oneOf(...TOURNAMENT_FORMATS),
+    bestOf: number,
+    textSource: oneOf(...RACE_TEXT_SOURCES)
+  }),
+  joinTournament: tournamentRequest,
+  watchTournament: tournamentRequest,
+  startTournament: tournamentRequest,
+  overrideMatch: object({ tournamentId: string, matchId: string, winnerId: string })
+};
+
+export const validateServerEvent = <E extends keyof ServerToClientEvents>(event: E, payload: unknown) =>
+  SERVER_EVENT_VALIDATORS[event](payload, event);
+
+export const validateClientEvent = <E extends keyof ClientToServerEvents>(event: E, payload: unknown) =>
+  CLIENT_EVENT_VALIDATORS[event](payload, event);
+
+// Wraps a handler so a payload that fails validation is reported through
+// onInvalid instead of reaching code that would crash on it
+export const guardServerEvent = <E extends keyof ServerToClientEvents>(
+  event: E,
+  handler: ServerToClientEvents[E],
+  onInvalid: (error: ProtocolError) => void
+) =>
+  (payload: unknown) => {
+    const error = validateServerEvent(event, payload);
+    if (error) {
+      onInvalid({ message: `Malformed message from the race server: ${error}`, code: 'MALFORMED_MESSAGE' });
+      return;
+    }
+    (handler as (payload: unknown) => void)(payload);
+  };
@@ -1 +1 @@
-/// <reference types="react-scripts" />
+/// <reference types="react-scripts" />
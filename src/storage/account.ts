@@ -0,0 +1,35 @@
+import { Account } from '../protocol/events';
+
+// The signed-in account and the token that signs race server connections in.
+// Kept in localStorage, so every tab shares it, unlike the race session.
+export interface StoredAccount {
+  account: Account;
+  authToken: string;
+}
+
+export const ACCOUNT_KEY = 'monkeymash:account';
+
+export const loadAccount = (): StoredAccount | null => {
+  try {
+    const stored = localStorage.getItem(ACCOUNT_KEY);
+    const parsed = stored ? JSON.parse(stored) : null;
+    if (typeof parsed?.account?.id === 'string' && typeof parsed?.account?.username === 'string' && typeof parsed?.authToken === 'string') {
+      return parsed;
+    }
+  } catch (error) {
+    console.error('Error reading account:', error);
+  }
+  return null;
+};
+
+export const saveAccount = (stored: StoredAccount) => {
+  try {
+    localStorage.setItem(ACCOUNT_KEY, JSON.stringify(stored));
+  } catch (error) {
+    console.error('Error saving account:', error);
+  }
+};
+
+export const clearAccount = () => {
+  localStorage.removeItem(ACCOUNT_KEY);
+};
@@ -0,0 +1,36 @@
+import { MIN_UNLOCKED_LETTERS } from '../utils/adaptivePractice';
+
+export interface AdaptiveProgress {
+  unlockedCount: number;
+  updatedAt: number;
+}
+
+export const ADAPTIVE_PROGRESS_KEY = 'monkeymash:adaptiveProgress';
+const ADAPTIVE_PROGRESS_VERSION = 1;
+
+const DEFAULT_PROGRESS: AdaptiveProgress = { unlockedCount: MIN_UNLOCKED_LETTERS, updatedAt: 0 };
+
+export const loadAdaptiveProgress = (): AdaptiveProgress => {
+  try {
+    const stored = localStorage.getItem(ADAPTIVE_PROGRESS_KEY);
+    const file = stored ? JSON.parse(stored) : null;
+    if (file && file.version === ADAPTIVE_PROGRESS_VERSION && typeof file.progress?.unlockedCount === 'number') {
+      return file.progress;
+    }
+  } catch (error) {
+    console.error('Error reading adaptive progress:', error);
+  }
+  return DEFAULT_PROGRESS;
+};
+
+export const saveAdaptiveProgress = (progress: AdaptiveProgress) => {
+  try {
+    localStorage.setItem(ADAPTIVE_PROGRESS_KEY, JSON.stringify({ version: ADAPTIVE_PROGRESS_VERSION, progress }));
+  } catch (error) {
+    console.error('Error saving adaptive progress:', error);
+  }
+};
+
+export const resetAdaptiveProgress = () => {
+  localStorage.removeItem(ADAPTIVE_PROGRESS_KEY);
+};
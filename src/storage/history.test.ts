@@ -0,0 +1,134 @@
+import { TypingStats } from '../types/typing';
+import {
+  HISTORY_KEY,
+  HISTORY_VERSION,
+  clearHistory,
+  getPersonalBests,
+  getTextId,
+  loadHistory,
+  saveTestResult
+} from './history';
+import { clearAccount, saveAccount } from './account';
+
+const stats = (wpm: number): TypingStats => ({
+  wpm,
+  rawWpm: wpm,
+  grossWpm: wpm,
+  accuracy: 100,
+  consistency: 100,
+  timeTaken: 30,
+  correctChars: 100,
+  incorrectChars: 0,
+  correctedErrors: 0,
+  totalChars: 100
+});
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+test('saves results and reports new personal bests per mode', () => {
+  const first = saveTestResult({ kind: 'solo', mode: { type: 'time', duration: 30 }, source: { sourceId: 'quotes', textId: 'a' }, stats: stats(50), timestamp: 1 });
+  const slower = saveTestResult({ kind: 'solo', mode: { type: 'time', duration: 30 }, source: { sourceId: 'quotes', textId: 'a' }, stats: stats(40), timestamp: 2 });
+  const otherMode = saveTestResult({ kind: 'solo', mode: { type: 'words', count: 25 }, source: { sourceId: 'quotes', textId: 'b' }, stats: stats(45), timestamp: 3 });
+
+  expect(first.isPersonalBest).toBe(true);
+  expect(slower.isPersonalBest).toBe(false);
+  expect(otherMode.isPersonalBest).toBe(true);
+  expect(loadHistory()).toHaveLength(3);
+
+  const bests = getPersonalBests();
+  expect(bests['time 30'].stats.wpm).toBe(50);
+  expect(bests['words 25'].stats.wpm).toBe(45);
+});
+
+test('keeps race bests separate from solo bests', () => {
+  saveTestResult({ kind: 'solo', mode: { type: 'passage' }, source: { sourceId: 'quotes', textId: 'a' }, stats: stats(90), timestamp: 1 });
+  const race = saveTestResult({ kind: 'race', mode: { type: 'passage' }, source: { sourceId: 'quotes', textId: 'a' }, stats: stats(60), timestamp: 2 });
+  expect(race.isPersonalBest).toBe(true);
+});
+
+test('migrates history stored as a bare array', () => {
+  const legacy = [{ id: 'old', kind: 'solo', mode: { type: 'passage' }, textId: 'a', stats: stats(30), timestamp: 1 }];
+  localStorage.setItem(HISTORY_KEY, JSON.stringify(legacy));
+
+  expect(loadHistory()).toHaveLength(1);
+  expect(loadHistory()[0].source).toEqual({ sourceId: 'unknown', textId: 'a' });
+  saveTestResult({ kind: 'solo', mode: { type: 'passage' }, source: { sourceId: 'quotes', textId: 'a' }, stats: stats(35), timestamp: 2 });
+
+  const stored = JSON.parse(localStorage.getItem(HISTORY_KEY) || '{}');
+  expect(stored.version).toBe(HISTORY_VERSION);
+  expect(stored.records).toHaveLength(2);
+});
+
+test('migrates version 1 files to full text source metadata', () => {
+  const record = { id: 'v1', kind: 'race', mode: { type: 'time', duration: 15 }, textId: 'b', stats: stats(40), timestamp: 1 };
+  localStorage.setItem(HISTORY_KEY, JSON.stringify({ version: 1, records: [record] }));
+
+  expect(loadHistory()).toEqual([{ id: 'v1', kind: 'race', mode: { type: 'time', duration: 15 }, source: { sourceId: 'unknown', textId: 'b' }, stats: stats(40), timestamp: 1 }]);
+});
+
+test('starts fresh rather than loading malformed history', () => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  const malformed = [
+    { version: HISTORY_VERSION, records: [{ id: 'x', kind: 'solo', mode: { type: 'time' }, source: { sourceId: 'quotes', textId: 'a' }, stats: stats(30), timestamp: 1 }] },
+    { version: HISTORY_VERSION, records: [{ id: 'x', kind: 'solo', mode: { type: 'passage' }, source: { sourceId: 'quotes', textId: 'a' }, stats: { wpm: '30' }, timestamp: 1 }] },
+    { version: 1, records: 'none' },
+    'not history'
+  ];
+
+  malformed.forEach(file => {
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(file));
+    expect(loadHistory()).toEqual([]);
+  });
+  expect(console.warn).toHaveBeenCalledWith('Unreadable test history, starting fresh');
+});
+
+test('does not overwrite history from a newer schema version', () => {
+  const future = JSON.stringify({ version: HISTORY_VERSION + 1, records: [], extra: true });
+  localStorage.setItem(HISTORY_KEY, future);
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+  saveTestResult({ kind: 'solo', mode: { type: 'passage' }, source: { sourceId: 'quotes', textId: 'a' }, stats: stats(35), timestamp: 2 });
+  expect(localStorage.getItem(HISTORY_KEY)).toBe(future);
+});
+
+test('clears history', () => {
+  saveTestResult({ kind: 'solo', mode: { type: 'passage' }, source: { sourceId: 'quotes', textId: 'a' }, stats: stats(35), timestamp: 2 });
+  clearHistory();
+  expect(loadHistory()).toEqual([]);
+});
+
+test('keeps each account\'s history and personal bests apart', () => {
+  saveTestResult({ kind: 'solo', mode: { type: 'passage' }, source: { sourceId: 'quotes', textId: 'a' }, stats: stats(35), timestamp: 1 });
+  saveAccount({ account: { id: 'user-1', username: 'alice' }, authToken: 'token' });
+  const first = saveTestResult({ kind: 'solo', mode: { type: 'passage' }, source: { sourceId: 'quotes', textId: 'a' }, stats: stats(30), timestamp: 2 });
+
+  expect(first.isPersonalBest).toBe(true);
+  expect(loadHistory().map(record => record.userId)).toEqual(['user-1']);
+  clearHistory();
+  expect(loadHistory()).toEqual([]);
+
+  clearAccount();
+  expect(loadHistory().map(record => record.stats.wpm)).toEqual([35]);
+});
+
+test('caps the history of each account on its own', () => {
+  saveTestResult({ kind: 'solo', mode: { type: 'passage' }, source: { sourceId: 'quotes', textId: 'a' }, stats: stats(35), timestamp: 0 });
+  saveAccount({ account: { id: 'user-1', username: 'alice' }, authToken: 'token' });
+  for (let timestamp = 1; timestamp <= 501; timestamp++) {
+    saveTestResult({ kind: 'solo', mode: { type: 'passage' }, source: { sourceId: 'quotes', textId: 'a' }, stats: stats(30), timestamp });
+  }
+
+  const history = loadHistory();
+  expect(history).toHaveLength(500);
+  expect(history[0].timestamp).toBe(2);
+
+  clearAccount();
+  expect(loadHistory().map(record => record.stats.wpm)).toEqual([35]);
+});
+
+test('gives the same text the same id', () => {
+  expect(getTextId('hello world')).toBe(getTextId('hello world'));
+  expect(getTextId('hello world')).not.toBe(getTextId('hello world!'));
+});
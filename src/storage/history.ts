@@ -0,0 +1,244 @@
+import { KeystrokeEvent, TestMode, TypingStats } from '../types/typing';
+import { getModeLabel } from '../utils/testModes';
+import { TextMeta } from '../textSources/types';
+import { loadAccount } from './account';
+import { CODE_LANGUAGES } from '../textSources/codeSource';
+import { Validator, arrayOf, boolean, number, object, oneOf, optional, string } from '../protocol/validators';
+
+export type TestKind = 'solo' | 'race';
+
+export interface TestRecord {
+  id: string;
+  kind: TestKind;
+  mode: TestMode;
+  source: TextMeta;
+  stats: TypingStats;
+  timestamp: number;
+  // The text that was typed, so the run can be raced again as a ghost
+  text?: string;
+  keystrokes?: KeystrokeEvent[];
+  // The account signed in when the test was taken; unset for guests
+  userId?: string;
+}
+
+interface HistoryFile {
+  version: typeof HISTORY_VERSION;
+  records: TestRecord[];
+}
+
+// Before version 2, records named their text by id alone
+type TestRecordV1 = Omit<TestRecord, 'source'> & { textId: string };
+
+interface HistoryFileV1 {
+  version: 1;
+  records: TestRecordV1[];
+}
+
+export const HISTORY_KEY = 'monkeymash:history';
+export const HISTORY_VERSION = 2;
+const MAX_RECORDS = 500;
+
+const typingStats = object({
+  wpm: number,
+  rawWpm: number,
+  grossWpm: number,
+  accuracy: number,
+  consistency: number,
+  timeTaken: number,
+  correctChars: number,
+  incorrectChars: number,
+  correctedErrors: number,
+  totalChars: number
+});
+
+// Time tests need a duration and word tests a count
+const testMode: Validator = (value, path) => {
+  const error = object({ type: oneOf('passage', 'code', 'time', 'words') })(value, path);
+  if (error) return error;
+  const { type } = value as { type: string };
+  if (type === 'time') return object({ duration: number })(value, path);
+  if (type === 'words') return object({ count: number })(value, path);
+  return null;
+};
+
+const keystrokeEvent = object({
+  key: string,
+  expected: string,
+  index: number,
+  timestamp: number,
+  correct: boolean,
+  isBackspace: boolean,
+  autoFilled: optional(boolean)
+});
+
+const recordFields = {
+  id: string,
+  kind: oneOf('solo', 'race'),
+  mode: testMode,
+  stats: typingStats,
+  timestamp: number,
+  text: optional(string),
+  keystrokes: optional(arrayOf(keystrokeEvent)),
+  userId: optional(string)
+};
+
+const recordV1 = object({ ...recordFields, textId: string });
+const record = object({
+  ...recordFields,
+  source: object({ sourceId: string, textId: string, title: optional(string), author: optional(string), language: optional(oneOf(...CODE_LANGUAGES)) })
+});
+
+const version = (expected: number): Validator => (value, path) =>
+  value === expected ? null : `${path} should be ${expected}`;
+
+const fits = <T>(validator: Validator, value: unknown): value is T => validator(value, 'history') === null;
+
+const isHistoryV0 = (raw: unknown): raw is TestRecordV1[] => fits(arrayOf(recordV1), raw);
+const isHistoryV1 = (raw: unknown): raw is HistoryFileV1 => fits(object({ version: version(1), records: arrayOf(recordV1) }), raw);
+const isHistoryFile = (raw: unknown): raw is HistoryFile =>
+  fits(object({ version: version(HISTORY_VERSION), records: arrayOf(record) }), raw);
+
+// Each step upgrades a stored file by one version. Add one (and bump
+// HISTORY_VERSION) whenever the record shape changes.
+// Version 0 was a bare array of records from before the file had a header
+const upgradeV0 = (records: TestRecordV1[]): HistoryFileV1 => ({ version: 1, records });
+
+// Version 2 replaced the bare text id with the full text source metadata
+const upgradeV1 = (file: HistoryFileV1): HistoryFile => ({
+  version: 2,
+  records: file.records.map(({ textId, ...rest }) => ({ ...rest, source: { sourceId: 'unknown', textId } }))
+});
+
+const getVersion = (raw: unknown) =>
+  (typeof raw === 'object' && raw !== null && 'version' in raw && typeof raw.version === 'number' ? raw.version : 0);
+
+const migrate = (raw: unknown): HistoryFile | null => {
+  if (isHistoryV0(raw)) return upgradeV1(upgradeV0(raw));
+  if (isHistoryV1(raw)) return upgradeV1(raw);
+  return isHistoryFile(raw) ? raw : null;
+};
+
+const readFile = (): HistoryFile => {
+  try {
+    const stored = localStorage.getItem(HISTORY_KEY);
+    if (!stored) return { version: HISTORY_VERSION, records: [] };
+    const file = migrate(JSON.parse(stored));
+    if (!file) {
+      console.warn('Unreadable test history, starting fresh');
+      return { version: HISTORY_VERSION, records: [] };
+    }
+    return file;
+  } catch (error) {
+    console.error('Error reading test history:', error);
+    return { version: HISTORY_VERSION, records: [] };
+  }
+};
+
+// Keep the newest MAX_RECORDS of each account, so a busy account on a shared browser
+// cannot push everyone else's history out
+const capPerOwner = (records: TestRecord[]) => {
+  const counts = new Map<string | undefined, number>();
+  const kept: TestRecord[] = [];
+  for (let index = records.length - 1; index >= 0; index--) {
+    const count = (counts.get(records[index].userId) || 0) + 1;
+    counts.set(records[index].userId, count);
+    if (count <= MAX_RECORDS) kept.push(records[index]);
+  }
+  return kept.reverse();
+};
+
+const writeFile = (file: HistoryFile) => {
+  // Never overwrite history written by a newer version of the app
+  const stored = localStorage.getItem(HISTORY_KEY);
+  if (stored) {
+    try {
+      const existing: unknown = JSON.parse(stored);
+      if (getVersion(existing) > HISTORY_VERSION) {
+        console.warn('Test history was written by a newer version; not saving');
+        return;
+      }
+    } catch {
+      // Corrupt history is safe to replace
+    }
+  }
+
+  let records = capPerOwner(file.records);
+  for (;;) {
+    try {
+      localStorage.setItem(HISTORY_KEY, JSON.stringify({ version: HISTORY_VERSION, records }));
+      return;
+    } catch (error) {
+      // Out of space: drop keystroke logs from the oldest records first, then the records themselves
+      const withLog = records.findIndex(r => r.keystrokes);
+      if (withLog !== -1) {
+        records = records.map((r, idx) => (idx === withLog ? { ...r, keystrokes: undefined } : r));
+      } else if (records.length > 1) {
+        records = records.slice(1);
+      } else {
+        console.error('Error saving test history:', error);
+        return;
+      }
+    }
+  }
+};
+
+// Personal bests are tracked separately for races and for each solo mode
+export const getRecordCategory = (record: Pick<TestRecord, 'kind' | 'mode'>) =>
+  record.kind === 'race' ? 'race' : getModeLabel(record.mode);
+
+// Each account sees its own tests, and guests see the ones taken signed out
+const getOwnerId = () => loadAccount()?.account.id;
+
+export const loadHistory = (): TestRecord[] => {
+  const ownerId = getOwnerId();
+  return readFile().records.filter(record => record.userId === ownerId);
+};
+
+export const getPersonalBests = (records: TestRecord[] = loadHistory()) => {
+  const bests: Record<string, TestRecord> = {};
+  records.forEach(record => {
+    const category = getRecordCategory(record);
+    const best = bests[category];
+    if (!best || record.stats.wpm > best.stats.wpm) {
+      bests[category] = record;
+    }
+  });
+  return bests;
+};
+
+export const saveTestResult = (result: Omit<TestRecord, 'id'>) => {
+  const file = readFile();
+  const previousBest = getPersonalBests(loadHistory())[getRecordCategory(result)];
+  const record: TestRecord = {
+    ...result,
+    userId: getOwnerId(),
+    id: `${result.timestamp.toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+  };
+
+  writeFile({ ...file, records: [...file.records, record] });
+
+  return {
+    record,
+    isPersonalBest: result.stats.wpm > 0 && (!previousBest || result.stats.wpm > previousBest.stats.wpm)
+  };
+};
+
+// Leaves other accounts' tests alone
+export const clearHistory = () => {
+  const ownerId = getOwnerId();
+  const others = readFile().records.filter(record => record.userId !== ownerId);
+  if (others.length === 0) {
+    localStorage.removeItem(HISTORY_KEY);
+  } else {
+    writeFile({ version: HISTORY_VERSION, records: others });
+  }
+};
+
+// Stable id for a passage so results on the same text can be compared later
+export const getTextId = (text: string) => {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return `text-${(hash >>> 0).toString(36)}`;
+};
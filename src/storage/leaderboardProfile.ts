@@ -0,0 +1,31 @@
+// The team a player's results go on the leaderboards under. The name comes
+// from their account.
+export interface LeaderboardProfile {
+  group: string;
+}
+
+export const LEADERBOARD_PROFILE_KEY = 'monkeymash:leaderboardProfile';
+
+const EMPTY_PROFILE: LeaderboardProfile = { group: '' };
+
+export const loadLeaderboardProfile = (): LeaderboardProfile => {
+  try {
+    const stored = localStorage.getItem(LEADERBOARD_PROFILE_KEY);
+    const profile = stored ? JSON.parse(stored) : null;
+    // Profiles from before accounts also carried a name, which is dropped
+    if (typeof profile?.group === 'string') {
+      return { group: profile.group };
+    }
+  } catch (error) {
+    console.error('Error reading leaderboard profile:', error);
+  }
+  return EMPTY_PROFILE;
+};
+
+export const saveLeaderboardProfile = (profile: LeaderboardProfile) => {
+  try {
+    localStorage.setItem(LEADERBOARD_PROFILE_KEY, JSON.stringify(profile));
+  } catch (error) {
+    console.error('Error saving leaderboard profile:', error);
+  }
+};
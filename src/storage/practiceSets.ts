@@ -0,0 +1,57 @@
+export interface PracticeSet {
+  id: string;
+  name: string;
+  chunks: string[];
+  createdAt: number;
+}
+
+interface PracticeSetFile {
+  version: number;
+  sets: PracticeSet[];
+}
+
+export const PRACTICE_SETS_KEY = 'monkeymash:practiceSets';
+const PRACTICE_SETS_VERSION = 1;
+
+const readFile = (): PracticeSetFile => {
+  try {
+    const stored = localStorage.getItem(PRACTICE_SETS_KEY);
+    const file = stored ? JSON.parse(stored) : null;
+    if (file && file.version === PRACTICE_SETS_VERSION && Array.isArray(file.sets)) {
+      return file;
+    }
+  } catch (error) {
+    console.error('Error reading practice sets:', error);
+  }
+  return { version: PRACTICE_SETS_VERSION, sets: [] };
+};
+
+const writeFile = (sets: PracticeSet[]) => {
+  try {
+    localStorage.setItem(PRACTICE_SETS_KEY, JSON.stringify({ version: PRACTICE_SETS_VERSION, sets }));
+  } catch (error) {
+    console.error('Error saving practice sets:', error);
+  }
+};
+
+export const loadPracticeSets = () => readFile().sets;
+
+export const getPracticeSet = (id: string) => loadPracticeSets().find(set => set.id === id);
+
+// Saving under an existing name replaces that set
+export const savePracticeSet = (name: string, chunks: string[]) => {
+  const sets = loadPracticeSets();
+  const existing = sets.find(set => set.name === name);
+  const practiceSet: PracticeSet = {
+    id: existing ? existing.id : `set-${Date.now().toString(36)}`,
+    name,
+    chunks,
+    createdAt: Date.now()
+  };
+  writeFile([...sets.filter(set => set.id !== practiceSet.id), practiceSet]);
+  return practiceSet;
+};
+
+export const deletePracticeSet = (id: string) => {
+  writeFile(loadPracticeSets().filter(set => set.id !== id));
+};
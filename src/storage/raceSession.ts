@@ -0,0 +1,20 @@
+// Kept per tab, so two tabs race as two players but a reload can pick up
+// the race it was in while the server still holds its place
+export const RACE_SESSION_KEY = 'monkeymash:raceSession';
+
+export const loadRaceSessionToken = (): string | undefined => {
+  try {
+    return sessionStorage.getItem(RACE_SESSION_KEY) || undefined;
+  } catch (error) {
+    console.error('Error reading race session:', error);
+    return undefined;
+  }
+};
+
+export const saveRaceSessionToken = (token: string) => {
+  try {
+    sessionStorage.setItem(RACE_SESSION_KEY, token);
+  } catch (error) {
+    console.error('Error saving race session:', error);
+  }
+};
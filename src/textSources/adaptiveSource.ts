@@ -0,0 +1,70 @@
+import { getTextId, loadHistory } from '../storage/history';
+import { loadAdaptiveProgress, saveAdaptiveProgress } from '../storage/adaptiveProgress';
+import { KeyReport, aggregateKeyStats } from '../utils/keyStats';
+import {
+  LETTER_ORDER,
+  generateAdaptiveWords,
+  getFocusLetter,
+  getUnlockedLetters,
+  shouldUnlockNextLetter
+} from '../utils/adaptivePractice';
+import { wordCountFor } from './wordSource';
+import { TextSource } from './types';
+
+export const PROGRESSIVE_SOURCE_ID = 'adaptive-progressive';
+
+// Only recent tests count, so old habits stop dragging the weights around
+const RECENT_TESTS = 50;
+const RECENT_PROGRESSIVE_TESTS = 10;
+
+const buildReport = (sourceId?: string, limit = RECENT_TESTS) => {
+  const logs = loadHistory()
+    .filter(record => !sourceId || record.source.sourceId === sourceId)
+    .slice(-limit)
+    .map(record => record.keystrokes || []);
+  return aggregateKeyStats(logs);
+};
+
+export const createAdaptiveSource = (
+  id: string,
+  name: string,
+  description: string,
+  dictionary: string[],
+  progressive: boolean
+): TextSource => {
+  // Stats are read once per test and reused while a timed test is extended
+  let report: KeyReport = { keys: {}, bigrams: {} };
+  let letters = LETTER_ORDER;
+
+  const generateWords = (count: number, random?: () => number) =>
+    generateAdaptiveWords({ dictionary, report, letters, count, random });
+
+  return {
+    id,
+    name,
+    description,
+    kind: 'words',
+    generate: (mode, random) => {
+      report = buildReport();
+      letters = progressive ? getUnlockedLetters(loadAdaptiveProgress().unlockedCount) : LETTER_ORDER;
+      const text = generateWords(wordCountFor(mode), random);
+      const focus = getFocusLetter(report, letters);
+      const title = progressive
+        ? `${name} • ${letters.join('')}${focus ? ` • focus ${focus}` : ''}`
+        : `${name}${focus ? ` • focus ${focus}` : ''}`;
+      return { text, meta: { sourceId: id, textId: getTextId(text), title } };
+    },
+    extend: generateWords
+  };
+};
+
+// Call after each progressive test; returns the newly unlocked letter, if any
+export const updateAdaptiveProgress = () => {
+  const progress = loadAdaptiveProgress();
+  const report = buildReport(PROGRESSIVE_SOURCE_ID, RECENT_PROGRESSIVE_TESTS);
+  if (!shouldUnlockNextLetter(report, progress.unlockedCount)) return null;
+
+  const unlockedCount = progress.unlockedCount + 1;
+  saveAdaptiveProgress({ unlockedCount, updatedAt: Date.now() });
+  return LETTER_ORDER[unlockedCount - 1];
+};
@@ -0,0 +1,187 @@
+import { CodeLanguage } from '../types/typing';
+import { TextSource } from './types';
+
+interface CodeSnippet {
+  id: string;
+  title: string;
+  code: string;
+}
+
+const SNIPPETS: Record<CodeLanguage, CodeSnippet[]> = {
+  typescript: [
+    {
+      id: 'ts-debounce',
+      title: 'debounce',
+      code: `export function debounce<T extends (...args: any[]) => void>(fn: T, wait: number) {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  return (...args: Parameters<T>) => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => fn(...args), wait);
+  };
+}`
+    },
+    {
+      id: 'ts-result',
+      title: 'Result type',
+      code: `type Result<T, E = Error> =
+  | { ok: true; value: T }
+  | { ok: false; error: E };
+
+const parseJson = <T>(raw: string): Result<T> => {
+  try {
+    return { ok: true, value: JSON.parse(raw) as T };
+  } catch (error) {
+    return { ok: false, error: error as Error };
+  }
+};`
+    },
+    {
+      id: 'ts-group-by',
+      title: 'groupBy',
+      code: `const groupBy = <T, K extends string>(items: T[], key: (item: T) => K) =>
+  items.reduce<Record<K, T[]>>((groups, item) => {
+    const group = key(item);
+    (groups[group] ||= []).push(item);
+    return groups;
+  }, {} as Record<K, T[]>);`
+    }
+  ],
+  javascript: [
+    {
+      id: 'js-fetch-json',
+      title: 'fetchJson',
+      code: `async function fetchJson(url, options = {}) {
+  const response = await fetch(url, {
+    headers: { 'Content-Type': 'application/json' },
+    ...options
+  });
+  if (!response.ok) {
+    throw new Error(\`Request failed: \${response.status}\`);
+  }
+  return response.json();
+}`
+    },
+    {
+      id: 'js-chunk',
+      title: 'chunk',
+      code: `const chunk = (array, size) => {
+  const result = [];
+  for (let i = 0; i < array.length; i += size) {
+    result.push(array.slice(i, i + size));
+  }
+  return result;
+};`
+    },
+    {
+      id: 'js-event-emitter',
+      title: 'EventEmitter',
+      code: `class EventEmitter {
+  constructor() {
+    this.listeners = new Map();
+  }
+
+  on(event, handler) {
+    const handlers = this.listeners.get(event) || [];
+    this.listeners.set(event, [...handlers, handler]);
+  }
+
+  emit(event, ...args) {
+    (this.listeners.get(event) || []).forEach(handler => handler(...args));
+  }
+}`
+    }
+  ],
+  python: [
+    {
+      id: 'py-fizzbuzz',
+      title: 'fizzbuzz',
+      code: `def fizzbuzz(n: int) -> list[str]:
+    result = []
+    for i in range(1, n + 1):
+        if i % 15 == 0:
+            result.append("FizzBuzz")
+        elif i % 3 == 0:
+            result.append("Fizz")
+        elif i % 5 == 0:
+            result.append("Buzz")
+        else:
+            result.append(str(i))
+    return result`
+    },
+    {
+      id: 'py-word-count',
+      title: 'word count',
+      code: `from collections import Counter
+
+def top_words(path, limit=10):
+    with open(path, encoding="utf-8") as handle:
+        words = handle.read().lower().split()
+    return Counter(words).most_common(limit)`
+    },
+    {
+      id: 'py-dataclass',
+      title: 'dataclass',
+      code: `from dataclasses import dataclass, field
+
+@dataclass
+class Player:
+    name: str
+    rating: float = 1500.0
+    history: list[int] = field(default_factory=list)
+
+    def record(self, place: int) -> None:
+        self.history.append(place)`
+    }
+  ],
+  go: [
+    {
+      id: 'go-handler',
+      title: 'HTTP handler',
+      code: `func healthHandler(w http.ResponseWriter, r *http.Request) {
+	if r.Method != http.MethodGet {
+		http.Error(w, "method not allowed", http.StatusMethodNotAllowed)
+		return
+	}
+	w.Header().Set("Content-Type", "application/json")
+	fmt.Fprint(w, \`{"status":"ok"}\`)
+}`
+    },
+    {
+      id: 'go-reverse',
+      title: 'Reverse',
+      code: `func Reverse[T any](items []T) []T {
+	out := make([]T, len(items))
+	for i, item := range items {
+		out[len(items)-1-i] = item
+	}
+	return out
+}`
+    },
+    {
+      id: 'go-worker',
+      title: 'worker pool',
+      code: `func worker(id int, jobs <-chan int, results chan<- int) {
+	for job := range jobs {
+		results <- job * 2
+	}
+}`
+    }
+  ]
+};
+
+export const CODE_LANGUAGES: CodeLanguage[] = ['typescript', 'javascript', 'python', 'go'];
+
+export const createCodeSource = (language: CodeLanguage): TextSource => ({
+  id: `code-${language}`,
+  name: language,
+  description: `${language} snippets`,
+  kind: 'code',
+  generate: (_mode, random = Math.random) => {
+    const snippets = SNIPPETS[language];
+    const snippet = snippets[Math.floor(random() * snippets.length)];
+    return {
+      text: snippet.code,
+      meta: { sourceId: `code-${language}`, textId: snippet.id, title: snippet.title, language }
+    };
+  }
+});
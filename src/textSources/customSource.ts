@@ -0,0 +1,36 @@
+import { getTextId } from '../storage/history';
+import { PracticeSet } from '../storage/practiceSets';
+import { sanitizeText, toTypingText } from '../utils/sanitizeText';
+import { GeneratedText, TextSource } from './types';
+
+const CUSTOM_TEXT_KEY = 'monkeymash:customText';
+
+export const loadCustomText = () => localStorage.getItem(CUSTOM_TEXT_KEY) || '';
+
+export const saveCustomText = (text: string) => {
+  localStorage.setItem(CUSTOM_TEXT_KEY, text);
+};
+
+export const customSource: TextSource = {
+  id: 'custom',
+  name: 'custom',
+  description: 'Your own text',
+  kind: 'passage',
+  generate: () => {
+    const text = toTypingText(sanitizeText(loadCustomText())) || 'Paste some text of your own to practise on it here.';
+    return { text, meta: { sourceId: 'custom', textId: getTextId(text), title: 'Custom text' } };
+  }
+};
+
+// Chunks of a saved practice set are already sanitised when the set is saved
+export const getPracticeSetText = (set: PracticeSet, chunkIndex: number): GeneratedText => {
+  const index = chunkIndex % set.chunks.length;
+  return {
+    text: set.chunks[index],
+    meta: {
+      sourceId: set.id,
+      textId: `${set.id}-${index}`,
+      title: set.chunks.length > 1 ? `${set.name} (${index + 1}/${set.chunks.length})` : set.name
+    }
+  };
+};
@@ -0,0 +1,42 @@
+import english200 from '../data/english_200.json';
+import english1k from '../data/english_1k.json';
+import english10k from '../data/english_10k.json';
+import { createWordSource } from './wordSource';
+import { createQuoteSource } from './quoteSource';
+import { customSource } from './customSource';
+import { CODE_LANGUAGES, createCodeSource } from './codeSource';
+import { PROGRESSIVE_SOURCE_ID, createAdaptiveSource } from './adaptiveSource';
+import { DEFAULT_TARGET } from '../utils/adaptivePractice';
+import { TextSource, TextSourceKind } from './types';
+
+export type { TextMeta, GeneratedText, TextSource, TextSourceKind } from './types';
+
+// Word lists are ordered by frequency. The 1k and 10k lists come from the
+// Google web corpus list in most-common-words-by-language (MIT), with
+// markup, adult terms and every single letter but "a" and "i" filtered out,
+// which leaves the 10k list a little short.
+export const TEXT_SOURCES: TextSource[] = [
+  createWordSource('english-200', 'english 200', 'The 200 most common English words', english200),
+  createWordSource('english-1k', 'english 1k', 'The 1,000 most common English words', english1k),
+  createWordSource('english-10k', 'english 10k', 'The 9,725 most common English words', english10k),
+  createAdaptiveSource('adaptive', 'adaptive', 'Words weighted towards your weakest keys and bigrams', english10k, false),
+  createAdaptiveSource(PROGRESSIVE_SOURCE_ID, 'progressive', `Unlock new letters at ${DEFAULT_TARGET.wpm} wpm and ${DEFAULT_TARGET.accuracy}% accuracy`, english10k, true),
+  createQuoteSource('quotes', 'quotes', 'Quotes of any length'),
+  createQuoteSource('quotes-short', 'short quotes', 'Quotes up to 100 characters', 'short'),
+  createQuoteSource('quotes-medium', 'medium quotes', 'Quotes of 100 to 300 characters', 'medium'),
+  createQuoteSource('quotes-long', 'long quotes', 'Quotes over 300 characters', 'long'),
+  customSource,
+  ...CODE_LANGUAGES.map(createCodeSource)
+];
+
+export const DEFAULT_SOURCE_IDS: Record<TextSourceKind, string> = {
+  words: 'english-200',
+  passage: 'quotes',
+  code: 'code-typescript'
+};
+
+export const getTextSource = (id: string) =>
+  TEXT_SOURCES.find(source => source.id === id) || TEXT_SOURCES[0];
+
+export const getSourcesOfKind = (kind: TextSourceKind) =>
+  TEXT_SOURCES.filter(source => source.kind === kind);
@@ -0,0 +1,30 @@
+import { QUOTES, createQuoteSource, getQuoteLength } from './quoteSource';
+
+// Steps through the quotes in order, one per pick
+const stepThrough = (count: number) => {
+  let next = 0;
+  return () => (next++ % count) / count;
+};
+
+test('sorts quotes into lengths by character count', () => {
+  expect(getQuoteLength({ id: 'a', text: 'x'.repeat(100), author: 'A' })).toBe('short');
+  expect(getQuoteLength({ id: 'b', text: 'x'.repeat(101), author: 'B' })).toBe('medium');
+  expect(getQuoteLength({ id: 'c', text: 'x'.repeat(301), author: 'C' })).toBe('long');
+});
+
+test.each(['short', 'medium', 'long'] as const)('only hands out %s quotes from that source', (length) => {
+  const source = createQuoteSource(`quotes-${length}`, length, `${length} quotes`, length);
+  const expected = QUOTES.filter(quote => getQuoteLength(quote) === length);
+  const random = stepThrough(expected.length);
+  const picked = expected.map(() => source.generate({ type: 'passage' }, random).text);
+
+  expect(expected.length).toBeGreaterThan(0);
+  expect(picked).toEqual(expected.map(quote => quote.text));
+});
+
+test('hands out the whole quote, whatever the mode, with its author', () => {
+  const source = createQuoteSource('quotes', 'quotes', 'Quotes of any length');
+  const { text, meta } = source.generate({ type: 'words', count: 10 }, () => 0);
+  expect(text).toBe(QUOTES[0].text);
+  expect(meta).toEqual({ sourceId: 'quotes', textId: QUOTES[0].id, title: QUOTES[0].title, author: QUOTES[0].author });
+});
@@ -0,0 +1,147 @@
+import { TextSource } from './types';
+
+export type QuoteLength = 'short' | 'medium' | 'long';
+
+export interface Quote {
+  id: string;
+  text: string;
+  author: string;
+  title?: string;
+}
+
+export const QUOTES: Quote[] = [
+  {
+    id: 'quote-1',
+    text: "The quick brown fox jumps over the lazy dog. This sentence contains every letter of the alphabet and is commonly used for typing practice.",
+    author: 'Traditional',
+    title: 'Typing pangram'
+  },
+  {
+    id: 'quote-2',
+    text: "To be or not to be, that is the question. Whether 'tis nobler in the mind to suffer the slings and arrows of outrageous fortune.",
+    author: 'William Shakespeare',
+    title: 'Hamlet'
+  },
+  {
+    id: 'quote-3',
+    text: "It was the best of times, it was the worst of times, it was the age of wisdom, it was the age of foolishness.",
+    author: 'Charles Dickens',
+    title: 'A Tale of Two Cities'
+  },
+  {
+    id: 'quote-4',
+    text: "The only way to do great work is to love what you do. If you haven't found it yet, keep looking. Don't settle.",
+    author: 'Steve Jobs',
+    title: 'Stanford commencement address'
+  },
+  {
+    id: 'quote-5',
+    text: "In the beginning was the Word, and the Word was with God, and the Word was God. He was with God in the beginning.",
+    author: 'The Gospel of John'
+  },
+  {
+    id: 'quote-6',
+    text: "The future belongs to those who believe in the beauty of their dreams. Never give up on what you really want to do.",
+    author: 'Eleanor Roosevelt (attributed)'
+  },
+  {
+    id: 'quote-7',
+    text: "Success is not final, failure is not fatal: it is the courage to continue that counts. Keep pushing forward.",
+    author: 'Winston Churchill (attributed)'
+  },
+  {
+    id: 'quote-8',
+    text: "The way to get started is to quit talking and begin doing. Action is the foundational key to all success.",
+    author: 'Walt Disney (attributed)'
+  },
+  {
+    id: 'quote-9',
+    text: "The only thing we have to fear is fear itself.",
+    author: 'Franklin D. Roosevelt',
+    title: 'First inaugural address'
+  },
+  {
+    id: 'quote-10',
+    text: "Brevity is the soul of wit.",
+    author: 'William Shakespeare',
+    title: 'Hamlet'
+  },
+  {
+    id: 'quote-11',
+    text: "The unexamined life is not worth living.",
+    author: 'Socrates',
+    title: 'Apology'
+  },
+  {
+    id: 'quote-12',
+    text: "Happy families are all alike; every unhappy family is unhappy in its own way.",
+    author: 'Leo Tolstoy',
+    title: 'Anna Karenina'
+  },
+  {
+    id: 'quote-13',
+    text: "It is a truth universally acknowledged, that a single man in possession of a good fortune, must be in want of a wife.",
+    author: 'Jane Austen',
+    title: 'Pride and Prejudice'
+  },
+  {
+    id: 'quote-14',
+    text: "Four score and seven years ago our fathers brought forth on this continent, a new nation, conceived in Liberty, and dedicated to the proposition that all men are created equal.",
+    author: 'Abraham Lincoln',
+    title: 'Gettysburg Address'
+  },
+  {
+    id: 'quote-15',
+    text: "I went to the woods because I wished to live deliberately, to front only the essential facts of life, and see if I could not learn what it had to teach, and not, when I came to die, discover that I had not lived.",
+    author: 'Henry David Thoreau',
+    title: 'Walden'
+  },
+  {
+    id: 'quote-16',
+    text: "Now we are engaged in a great civil war, testing whether that nation, or any nation so conceived and so dedicated, can long endure. We are met on a great battle-field of that war. We have come to dedicate a portion of that field, as a final resting place for those who here gave their lives that that nation might live. It is altogether fitting and proper that we should do this.",
+    author: 'Abraham Lincoln',
+    title: 'Gettysburg Address'
+  },
+  {
+    id: 'quote-17',
+    text: "It was the best of times, it was the worst of times, it was the age of wisdom, it was the age of foolishness, it was the epoch of belief, it was the epoch of incredulity, it was the season of Light, it was the season of Darkness, it was the spring of hope, it was the winter of despair, we had everything before us, we had nothing before us.",
+    author: 'Charles Dickens',
+    title: 'A Tale of Two Cities'
+  },
+  {
+    id: 'quote-18',
+    text: "Call me Ishmael. Some years ago, never mind how long precisely, having little or no money in my purse, and nothing particular to interest me on shore, I thought I would sail about a little and see the watery part of the world. It is a way I have of driving off the spleen and regulating the circulation.",
+    author: 'Herman Melville',
+    title: 'Moby-Dick'
+  },
+  {
+    id: 'quote-19',
+    text: "We hold these truths to be self-evident, that all men are created equal, that they are endowed by their Creator with certain unalienable Rights, that among these are Life, Liberty and the pursuit of Happiness. That to secure these rights, Governments are instituted among Men, deriving their just powers from the consent of the governed.",
+    author: 'Thomas Jefferson',
+    title: 'Declaration of Independence'
+  }
+];
+
+export const getQuoteLength = (quote: Quote): QuoteLength => {
+  if (quote.text.length <= 100) return 'short';
+  if (quote.text.length <= 300) return 'medium';
+  return 'long';
+};
+
+export const createQuoteSource = (id: string, name: string, description: string, length?: QuoteLength): TextSource => {
+  const quotes = length ? QUOTES.filter(quote => getQuoteLength(quote) === length) : QUOTES;
+
+  return {
+    id,
+    name,
+    description,
+    kind: 'passage',
+    generate: (_mode, random = Math.random) => {
+      const quote = quotes[Math.floor(random() * quotes.length)];
+      return {
+        text: quote.text,
+        meta: { sourceId: id, textId: quote.id, title: quote.title, author: quote.author }
+      };
+    }
+  };
+};
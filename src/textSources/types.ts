@@ -0,0 +1,30 @@
+import { CodeLanguage, TestMode } from '../types/typing';
+
+// Where a test's text came from; saved alongside each result
+export interface TextMeta {
+  sourceId: string;
+  textId: string;
+  title?: string;
+  author?: string;
+  language?: CodeLanguage;
+}
+
+export interface GeneratedText {
+  text: string;
+  meta: TextMeta;
+}
+
+// 'words' sources can stream endless text for time and word-count tests;
+// 'passage' sources hand out one fixed passage per test and 'code' sources
+// hand out multi-line snippets
+export type TextSourceKind = 'words' | 'passage' | 'code';
+
+export interface TextSource {
+  id: string;
+  name: string;
+  description: string;
+  kind: TextSourceKind;
+  generate: (mode: TestMode, random?: () => number) => GeneratedText;
+  // More text for a timed test that is running out; only 'words' sources implement it
+  extend?: (wordCount: number, random?: () => number) => string;
+}
@@ -0,0 +1,39 @@
+import { PASSAGE_WORDS, createWordSource } from './wordSource';
+import { TIME_MODE_INITIAL_WORDS } from '../utils/testModes';
+
+const WORDS = ['the', 'of', 'and', 'to', 'in'];
+const source = createWordSource('test-words', 'test words', 'A few common words', WORDS);
+
+// Hands out the given values in turn, over and over
+const sequence = (...values: number[]) => {
+  let next = 0;
+  return () => values[next++ % values.length];
+};
+
+const wordCount = (text: string) => text.split(' ').length;
+
+test('generates as many words as the mode needs', () => {
+  expect(wordCount(source.generate({ type: 'words', count: 25 }).text)).toBe(25);
+  expect(wordCount(source.generate({ type: 'time', duration: 15 }).text)).toBe(TIME_MODE_INITIAL_WORDS);
+  expect(wordCount(source.generate({ type: 'passage' }).text)).toBe(PASSAGE_WORDS);
+  expect(wordCount(source.extend!(7))).toBe(7);
+});
+
+test('only uses words from its list and names the text after it', () => {
+  const { text, meta } = source.generate({ type: 'words', count: 50 });
+  expect(text.split(' ').every(word => WORDS.includes(word))).toBe(true);
+  expect(meta).toMatchObject({ sourceId: 'test-words', title: 'test words' });
+});
+
+test('picks again rather than repeat the previous word', () => {
+  // 0 always lands on "the"; 0.99 lands on the last word
+  expect(source.generate({ type: 'words', count: 3 }, sequence(0, 0, 0.99, 0)).text).toBe('the in the');
+});
+
+test('favours the more common words', () => {
+  const counts = new Map<string, number>();
+  source.generate({ type: 'words', count: 2000 }).text.split(' ').forEach(word => {
+    counts.set(word, (counts.get(word) || 0) + 1);
+  });
+  expect(counts.get('the')!).toBeGreaterThan(counts.get('in')!);
+});
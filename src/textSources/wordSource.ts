@@ -0,0 +1,75 @@
+import { TestMode } from '../types/typing';
+import { getTextId } from '../storage/history';
+import { TIME_MODE_INITIAL_WORDS } from '../utils/testModes';
+import { TextSource } from './types';
+
+// Words for a 'passage' test built from a word list
+export const PASSAGE_WORDS = 30;
+
+// Words to generate up front for a test; timed tests get more as they run
+export const wordCountFor = (mode: TestMode) => {
+  switch (mode.type) {
+    case 'words':
+      return mode.count;
+    case 'time':
+      return TIME_MODE_INITIAL_WORDS;
+    default:
+      return PASSAGE_WORDS;
+  }
+};
+
+// Weight each word by its frequency rank. The square root softens a true Zipf
+// curve so common words lead without "the" filling every other slot.
+const buildCumulativeWeights = (words: string[]) => {
+  const cumulative: number[] = [];
+  let total = 0;
+  words.forEach((_, rank) => {
+    total += 1 / Math.sqrt(rank + 1);
+    cumulative.push(total);
+  });
+  return cumulative;
+};
+
+export const pickWeighted = (cumulative: number[], random: () => number) => {
+  const target = random() * cumulative[cumulative.length - 1];
+  let low = 0;
+  let high = cumulative.length - 1;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (cumulative[mid] <= target) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+};
+
+export const createWordSource = (id: string, name: string, description: string, words: string[]): TextSource => {
+  const cumulative = buildCumulativeWeights(words);
+
+  const generateWords = (count: number, random: () => number = Math.random) => {
+    const result: string[] = [];
+    for (let i = 0; i < count; i++) {
+      let next = words[pickWeighted(cumulative, random)];
+      // Avoid the same word twice in a row
+      if (result.length > 0 && next === result[result.length - 1] && words.length > 1) {
+        next = words[pickWeighted(cumulative, random)];
+      }
+      result.push(next);
+    }
+    return result.join(' ');
+  };
+
+  return {
+    id,
+    name,
+    description,
+    kind: 'words',
+    generate: (mode, random) => {
+      const text = generateWords(wordCountFor(mode), random);
+      return { text, meta: { sourceId: id, textId: getTextId(text), title: name } };
+    },
+    extend: generateWords
+  };
+};
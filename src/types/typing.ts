@@ -0,0 +1,51 @@
+// Final or running results of a typing test, as produced by utils/stats
+export interface TypingStats {
+  wpm: number;
+  rawWpm: number;
+  grossWpm: number;
+  accuracy: number;
+  consistency: number;
+  timeTaken: number;
+  correctChars: number;
+  incorrectChars: number;
+  correctedErrors: number;
+  totalChars: number;
+}
+
+// A single key press recorded by TypingInterface while a test is running
+export interface KeystrokeEvent {
+  key: string;
+  expected: string;
+  index: number;
+  timestamp: number;
+  correct: boolean;
+  isBackspace: boolean;
+  // Typed for the player rather than by a key, like code mode's auto-indentation.
+  // It moves the cursor like any other keystroke but is left out of speed and accuracy
+  autoFilled?: boolean;
+}
+
+// One point on the results timeline, taken once per second while typing
+export interface StatsSample {
+  second: number;
+  wpm: number;
+  rawWpm: number;
+  errors: number;
+}
+
+// How a solo test ends: at the end of a fixed passage or code snippet, when the
+// timer runs out, or after a set number of generated words
+export type TestMode =
+  | { type: 'passage' }
+  | { type: 'code' }
+  | { type: 'time'; duration: number }
+  | { type: 'words'; count: number };
+
+export type CodeLanguage = 'typescript' | 'javascript' | 'python' | 'go';
+
+// Settings for typing multi-line code snippets
+export interface CodeOptions {
+  language?: CodeLanguage;
+  autoIndent: boolean;
+  highlight: boolean;
+}
@@ -0,0 +1,89 @@
+import { KeyReport, KeyStat } from './keyStats';
+import {
+  LETTER_ORDER,
+  createSeededRandom,
+  generateAdaptiveWords,
+  getFocusLetter,
+  getUnlockedLetters,
+  shouldUnlockNextLetter
+} from './adaptivePractice';
+
+const DICTIONARY = ['line', 'tree', 'enter', 'inner', 'little', 'tire', 'rent', 'nine', 'title', 'let', 'net', 'tile', 'lent', 'river', 'safe'];
+
+// 100ms between presses is 120 wpm
+const stat = (attempts: number, errors: number, latency = 100): KeyStat => ({
+  attempts,
+  errors,
+  totalLatency: latency * attempts,
+  latencySamples: attempts
+});
+
+const masteredReport = (letters: string[]): KeyReport => ({
+  keys: Object.fromEntries(letters.map(letter => [letter, stat(50, 0)])),
+  bigrams: {}
+});
+
+test('the seeded generator is deterministic', () => {
+  const options = { dictionary: DICTIONARY, report: masteredReport(LETTER_ORDER), count: 20 };
+  const first = generateAdaptiveWords({ ...options, random: createSeededRandom(42) });
+  const second = generateAdaptiveWords({ ...options, random: createSeededRandom(42) });
+  const other = generateAdaptiveWords({ ...options, random: createSeededRandom(7) });
+
+  expect(first).toBe(second);
+  expect(first).not.toBe(other);
+  expect(first.split(' ')).toHaveLength(20);
+});
+
+test('only uses unlocked letters', () => {
+  const letters = getUnlockedLetters(6);
+  const text = generateAdaptiveWords({
+    dictionary: DICTIONARY,
+    report: masteredReport(letters),
+    letters,
+    count: 200,
+    random: createSeededRandom(1)
+  });
+  expect(text.replace(/ /g, '').split('').every(char => letters.includes(char))).toBe(true);
+});
+
+test('favours words with the weakest letter', () => {
+  const letters = getUnlockedLetters(6);
+  expect(getFocusLetter(masteredReport(letters), letters)).toBeNull();
+
+  const report = masteredReport(letters);
+  report.keys.l = stat(50, 20, 400);
+
+  expect(getFocusLetter(report, letters)).toBe('l');
+
+  const words = generateAdaptiveWords({ dictionary: DICTIONARY, report, letters, count: 500, random: createSeededRandom(3) }).split(' ');
+  const withL = words.filter(word => word.includes('l')).length;
+  const dictionaryShare = DICTIONARY.filter(word => word.includes('l')).length / DICTIONARY.length;
+  expect(withL / words.length).toBeGreaterThan(dictionaryShare);
+});
+
+test('pads tiny letter sets with pseudo-words', () => {
+  const text = generateAdaptiveWords({
+    dictionary: ['zzz'],
+    report: masteredReport([]),
+    letters: ['e', 'n'],
+    count: 10,
+    random: createSeededRandom(5)
+  });
+  expect(text).toMatch(/^[en ]+$/);
+});
+
+test('unlocks the next letter only when the current set is mastered', () => {
+  const letters = getUnlockedLetters(6);
+  expect(letters.join('')).toBe('enitrl');
+  expect(shouldUnlockNextLetter(masteredReport(letters), 6)).toBe(true);
+
+  const slow = masteredReport(letters);
+  slow.keys.t = stat(50, 0, 600);
+  expect(shouldUnlockNextLetter(slow, 6)).toBe(false);
+
+  const sloppy = masteredReport(letters);
+  sloppy.keys.e = stat(50, 10);
+  expect(shouldUnlockNextLetter(sloppy, 6)).toBe(false);
+
+  expect(shouldUnlockNextLetter(masteredReport(LETTER_ORDER), LETTER_ORDER.length)).toBe(false);
+});
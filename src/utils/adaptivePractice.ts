@@ -0,0 +1,158 @@
+import { pickWeighted } from '../textSources/wordSource';
+import { KeyReport, KeyStat, getAverageLatency, getErrorRate } from './keyStats';
+import { CHARS_PER_WORD } from './stats';
+
+export interface AdaptiveTarget {
+  wpm: number;
+  accuracy: number;
+}
+
+export interface AdaptiveOptions {
+  dictionary: string[];
+  report: KeyReport;
+  count: number;
+  // Only these letters may appear; every letter when omitted
+  letters?: string[];
+  target?: AdaptiveTarget;
+  random?: () => number;
+}
+
+// Letters unlock in roughly English frequency order, as keybr does
+export const LETTER_ORDER = 'enitrlsauodychgmpbkvwfzxqj'.split('');
+export const MIN_UNLOCKED_LETTERS = 6;
+export const DEFAULT_TARGET: AdaptiveTarget = { wpm: 35, accuracy: 95 };
+
+// A key needs this many presses before its stats count towards unlocking
+const MIN_KEY_ATTEMPTS = 10;
+// Below this many real words the generator falls back to pseudo-words
+const MIN_CANDIDATE_WORDS = 10;
+const UNSEEN_LETTER_WEIGHT = 3;
+const FOCUS_BONUS = 2;
+
+// mulberry32: small, fast and good enough to make practice text reproducible
+export const createSeededRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const getUnlockedLetters = (count: number) =>
+  LETTER_ORDER.slice(0, Math.min(Math.max(count, MIN_UNLOCKED_LETTERS), LETTER_ORDER.length));
+
+// Latency between presses converted to the WPM the key would sustain on its own
+export const getKeyWpm = (stat: KeyStat) => {
+  const latency = getAverageLatency(stat);
+  return latency > 0 ? 60000 / (latency * CHARS_PER_WORD) : 0;
+};
+
+export const isKeyMastered = (stat: KeyStat | undefined, target: AdaptiveTarget = DEFAULT_TARGET) =>
+  !!stat &&
+  stat.attempts >= MIN_KEY_ATTEMPTS &&
+  (1 - getErrorRate(stat)) * 100 >= target.accuracy &&
+  getKeyWpm(stat) >= target.wpm;
+
+// Higher weight means the letter needs more practice
+export const getLetterWeight = (stat: KeyStat | undefined, target: AdaptiveTarget = DEFAULT_TARGET) => {
+  if (!stat || stat.attempts < MIN_KEY_ATTEMPTS) return UNSEEN_LETTER_WEIGHT;
+  const slowness = Math.max(0, target.wpm - getKeyWpm(stat)) / target.wpm;
+  return 1 + getErrorRate(stat) * 4 + slowness * 2;
+};
+
+// The single weakest letter gets extra attention in every generated word
+export const getFocusLetter = (report: KeyReport, letters: string[], target: AdaptiveTarget = DEFAULT_TARGET): string | null => {
+  let focus: string | null = null;
+  let worst = 0;
+  for (const letter of letters) {
+    const stat = report.keys[letter];
+    if (isKeyMastered(stat, target)) continue;
+    const weight = getLetterWeight(stat, target);
+    if (weight > worst) {
+      worst = weight;
+      focus = letter;
+    }
+  }
+  return focus;
+};
+
+// Progressive mode: unlock the next letter once every unlocked one is up to speed
+export const shouldUnlockNextLetter = (
+  report: KeyReport,
+  unlockedCount: number,
+  target: AdaptiveTarget = DEFAULT_TARGET
+) =>
+  unlockedCount < LETTER_ORDER.length &&
+  getUnlockedLetters(unlockedCount).every(letter => isKeyMastered(report.keys[letter], target));
+
+const scoreWord = (word: string, report: KeyReport, target: AdaptiveTarget, focus: string | null) => {
+  let letterScore = 0;
+  for (const char of word) {
+    letterScore += getLetterWeight(report.keys[char], target);
+  }
+  let bigramScore = 0;
+  for (let i = 1; i < word.length; i++) {
+    const stat = report.bigrams[word.slice(i - 1, i + 1)];
+    bigramScore += stat && stat.attempts >= 3 ? 1 + getErrorRate(stat) * 4 : 1;
+  }
+  const score = letterScore / word.length + (word.length > 1 ? bigramScore / (word.length - 1) : 1);
+  return focus && word.includes(focus) ? score * FOCUS_BONUS : score;
+};
+
+// Made-up words for letter sets too small to spell many real ones
+const buildPseudoWords = (letters: string[], weights: number[], random: () => number) => {
+  const cumulative: number[] = [];
+  weights.reduce((total, weight) => {
+    cumulative.push(total + weight);
+    return total + weight;
+  }, 0);
+  const words: string[] = [];
+  for (let i = 0; i < 50; i++) {
+    const length = 3 + Math.floor(random() * 4);
+    let word = '';
+    while (word.length < length) {
+      word += letters[pickWeighted(cumulative, random)];
+    }
+    words.push(word);
+  }
+  return words;
+};
+
+export const generateAdaptiveWords = ({
+  dictionary,
+  report,
+  count,
+  letters = LETTER_ORDER,
+  target = DEFAULT_TARGET,
+  random = Math.random
+}: AdaptiveOptions) => {
+  const allowed = new Set(letters);
+  const focus = getFocusLetter(report, letters, target);
+
+  let candidates = dictionary.filter(word => word.length > 1 && Array.from(word).every(char => allowed.has(char)));
+  if (candidates.length < MIN_CANDIDATE_WORDS) {
+    const weights = letters.map(letter => getLetterWeight(report.keys[letter], target) * (letter === focus ? FOCUS_BONUS : 1));
+    candidates = candidates.concat(buildPseudoWords(letters, weights, random));
+  }
+
+  // Squaring the score makes weak words clearly more likely without shutting out the rest
+  const cumulative: number[] = [];
+  candidates.reduce((total, word) => {
+    const next = total + scoreWord(word, report, target, focus) ** 2;
+    cumulative.push(next);
+    return next;
+  }, 0);
+
+  const result: string[] = [];
+  for (let i = 0; i < count; i++) {
+    let next = candidates[pickWeighted(cumulative, random)];
+    if (result.length > 0 && next === result[result.length - 1]) {
+      next = candidates[pickWeighted(cumulative, random)];
+    }
+    result.push(next);
+  }
+  return result.join(' ');
+};
@@ -0,0 +1,57 @@
+import { BOT_PRESETS, BotProfile, getBotIndex, getBotRaceResults, hasBotFinished, simulateBot, simulateBotRace } from './bots';
+import { createSeededRandom } from './adaptivePractice';
+
+const TEXT = 'the quick brown fox jumps over the lazy dog';
+
+const steady: BotProfile = { name: 'Steady', wpm: 60, variance: 0, errorRate: 0, correctionRate: 1 };
+
+test('types the whole text at its target pace', () => {
+  const run = simulateBot(steady, TEXT, createSeededRandom(1));
+  expect(run.keystrokes.map(k => k.key).join('')).toBe(TEXT);
+  // 60 wpm is 200ms per key; the first key waits on a reaction delay
+  expect(run.keystrokes[2].timestamp - run.keystrokes[1].timestamp).toBe(200);
+  expect(run.stats.accuracy).toBe(100);
+  expect(run.stats.wpm).toBeGreaterThan(50);
+  expect(run.stats.wpm).toBeLessThanOrEqual(60);
+});
+
+test('makes and fixes mistakes according to its profile', () => {
+  const sloppy = simulateBot({ ...steady, errorRate: 0.3, correctionRate: 1 }, TEXT, createSeededRandom(2));
+  expect(sloppy.keystrokes.some(k => k.isBackspace)).toBe(true);
+  expect(sloppy.stats.incorrectChars).toBe(0);
+  expect(sloppy.stats.accuracy).toBeLessThan(100);
+
+  const careless = simulateBot({ ...steady, errorRate: 0.3, correctionRate: 0 }, TEXT, createSeededRandom(2));
+  expect(careless.keystrokes.some(k => k.isBackspace)).toBe(false);
+  expect(careless.stats.incorrectChars).toBeGreaterThan(0);
+});
+
+test('replays the same race for the same seed', () => {
+  const first = simulateBotRace(BOT_PRESETS, TEXT, 42);
+  const second = simulateBotRace(BOT_PRESETS, TEXT, 42);
+  expect(second.map(run => run.stats)).toEqual(first.map(run => run.stats));
+  expect(simulateBotRace(BOT_PRESETS, TEXT, 43)[0].stats).not.toEqual(first[0].stats);
+});
+
+test('moves along the track until it finishes', () => {
+  const run = simulateBot(steady, TEXT, createSeededRandom(1));
+  const finishMs = run.stats.timeTaken * 1000;
+  expect(getBotIndex(run, 0)).toBe(0);
+  expect(getBotIndex(run, finishMs / 2)).toBeGreaterThan(0);
+  expect(getBotIndex(run, finishMs)).toBe(TEXT.length);
+  expect(hasBotFinished(run, finishMs - 1)).toBe(false);
+  expect(hasBotFinished(run, finishMs)).toBe(true);
+});
+
+test('ranks racers by finishing time in the race results format', () => {
+  expect(getBotRaceResults([
+    { id: 'bot-0', username: 'slow', stats: { wpm: 40, accuracy: 95, timeTaken: 30 } },
+    { id: 'bot-1', username: 'fast', stats: { wpm: 90, accuracy: 98, timeTaken: 12 } }
+  ])).toEqual({
+    results: [
+      { rank: 1, userId: 'bot-1', username: 'fast', wpm: 90, accuracy: 98, timeTaken: 12 },
+      { rank: 2, userId: 'bot-0', username: 'slow', wpm: 40, accuracy: 95, timeTaken: 30 }
+    ],
+    finished: true
+  });
+});
@@ -0,0 +1,118 @@
+import { KeystrokeEvent, TypingStats } from '../types/typing';
+import { RaceResults, RaceStats } from '../protocol/events';
+import { CHARS_PER_WORD, calculateTypingStats, replayKeystrokes } from './stats';
+import { createSeededRandom } from './adaptivePractice';
+import { GhostPoint, buildGhostPoints, getIndexAtTime } from './ghost';
+
+export interface BotProfile {
+  name: string;
+  // Speed the bot aims for before mistakes slow it down
+  wpm: number;
+  // 0 types every key at the same pace, 1 lets each key take anywhere from nothing to double
+  variance: number;
+  // Chance of hitting the wrong key for each character
+  errorRate: number;
+  // Chance a mistake is noticed and backspaced before moving on
+  correctionRate: number;
+}
+
+export interface BotRun {
+  profile: BotProfile;
+  keystrokes: KeystrokeEvent[];
+  // Cursor positions in milliseconds since the race started
+  points: GhostPoint[];
+  stats: TypingStats;
+}
+
+export const BOT_PRESETS: BotProfile[] = [
+  { name: 'Rookie Bot', wpm: 35, variance: 0.5, errorRate: 0.06, correctionRate: 0.6 },
+  { name: 'Steady Bot', wpm: 60, variance: 0.25, errorRate: 0.03, correctionRate: 0.9 },
+  { name: 'Speed Bot', wpm: 95, variance: 0.15, errorRate: 0.02, correctionRate: 1 }
+];
+
+export const BOT_LIMITS = { minWpm: 10, maxWpm: 200, maxBots: 9 };
+
+const REACTION_MS = 400;
+const NOTICE_MS = 250;
+const MIN_KEY_FACTOR = 0.2;
+const WRONG_KEYS = 'abcdefghijklmnopqrstuvwxyz';
+
+const getWrongKey = (expected: string, random: () => number) => {
+  const options = WRONG_KEYS.replace(expected.toLowerCase(), '');
+  return options[Math.floor(random() * options.length)];
+};
+
+// Plays a bot through the text key by key, producing the same keystroke log a
+// person would, so its stats come from the same engine as everyone else's
+export const simulateBot = (profile: BotProfile, text: string, random: () => number): BotRun => {
+  const msPerKey = 60000 / (Math.max(profile.wpm, 1) * CHARS_PER_WORD);
+  const keystrokes: KeystrokeEvent[] = [];
+  let time = REACTION_MS * (0.5 + random());
+
+  const press = (key: string, index: number) => {
+    const isBackspace = key === 'Backspace';
+    keystrokes.push({
+      key,
+      expected: text[index] || '',
+      index,
+      timestamp: Math.round(time),
+      correct: !isBackspace && key === text[index],
+      isBackspace
+    });
+    time += msPerKey * Math.max(MIN_KEY_FACTOR, 1 + profile.variance * (random() * 2 - 1));
+  };
+
+  for (let index = 0; index < text.length; index++) {
+    if (random() >= profile.errorRate) {
+      press(text[index], index);
+      continue;
+    }
+    press(getWrongKey(text[index], random), index);
+    if (random() < profile.correctionRate) {
+      time += NOTICE_MS;
+      press('Backspace', index);
+      press(text[index], index);
+    }
+  }
+
+  const endTime = keystrokes.length > 0 ? keystrokes[keystrokes.length - 1].timestamp : 0;
+  return {
+    profile,
+    keystrokes,
+    points: buildGhostPoints(keystrokes, 0),
+    stats: calculateTypingStats({
+      target: text,
+      typed: replayKeystrokes(keystrokes),
+      keystrokes,
+      startTime: 0,
+      endTime
+    })
+  };
+};
+
+// One seed drives every bot, so the same seed always replays the same race
+export const simulateBotRace = (profiles: BotProfile[], text: string, seed: number) => {
+  const random = createSeededRandom(seed);
+  return profiles.map(profile => simulateBot(profile, text, random));
+};
+
+export const getBotIndex = (run: BotRun, elapsedMs: number) =>
+  getIndexAtTime(run.points, elapsedMs);
+
+export const hasBotFinished = (run: BotRun, elapsedMs: number) =>
+  elapsedMs >= run.stats.timeTaken * 1000;
+
+// Ranks everyone by finishing time, in the shape the race server sends
+export const getBotRaceResults = (entries: { id: string; username: string; stats: RaceStats }[]): RaceResults => ({
+  results: [...entries]
+    .sort((a, b) => a.stats.timeTaken - b.stats.timeTaken)
+    .map(({ id, username, stats }, index) => ({
+      rank: index + 1,
+      userId: id,
+      username,
+      wpm: stats.wpm,
+      accuracy: stats.accuracy,
+      timeTaken: stats.timeTaken
+    })),
+  finished: true
+});
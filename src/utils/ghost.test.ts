@@ -0,0 +1,85 @@
+import { TypingStats } from '../types/typing';
+import { TestRecord } from '../storage/history';
+import { backspace, press } from '../__fixtures__/keystrokes';
+import {
+  buildGhostPoints,
+  createGhost,
+  getGhostCandidates,
+  getGhostIndex,
+  getGhostOutcome,
+  getRecordText
+} from './ghost';
+
+const stats = (wpm: number, timeTaken: number): TypingStats => ({
+  wpm,
+  rawWpm: wpm,
+  grossWpm: wpm,
+  accuracy: 100,
+  consistency: 100,
+  timeTaken,
+  correctChars: 0,
+  incorrectChars: 0,
+  correctedErrors: 0,
+  totalChars: 0
+});
+
+// "cat" with one typo on the second letter, corrected
+const keystrokes = [
+  press('c', 'c', 0, 1000),
+  press('s', 'a', 1, 1200),
+  backspace(1, 1400, 'a'),
+  press('a', 'a', 1, 1500),
+  press('t', 't', 2, 1700)
+];
+
+const record = (overrides: Partial<TestRecord> = {}): TestRecord => ({
+  id: 'r1',
+  kind: 'solo',
+  mode: { type: 'passage' },
+  source: { sourceId: 'quotes', textId: 'q1' },
+  stats: stats(60, 0.7),
+  timestamp: 1,
+  keystrokes,
+  ...overrides
+});
+
+test('rebuilds the text of older runs from their keystrokes', () => {
+  expect(getRecordText(record())).toBe('cat');
+  expect(getRecordText(record({ text: 'cats' }))).toBe('cats');
+  expect(getRecordText(record({ keystrokes: [press('c', 'c', 0, 0), press('t', 't', 2, 10)] }))).toBeNull();
+});
+
+test('follows the cursor of the stored run, backspaces included', () => {
+  expect(buildGhostPoints(keystrokes).map(point => [point.time, point.index])).toEqual([
+    [0, 1], [200, 2], [400, 1], [500, 2], [700, 3]
+  ]);
+
+  const ghost = createGhost(record())!;
+  expect(getGhostIndex(ghost, 0)).toBe(1);
+  expect(getGhostIndex(ghost, 450)).toBe(1);
+  expect(getGhostIndex(ghost, 10000)).toBe(3);
+});
+
+test('only races runs that ended on their text', () => {
+  expect(createGhost(record({ mode: { type: 'time', duration: 15 } }))).toBeNull();
+  expect(createGhost(record({ kind: 'race' }))).toBeNull();
+  expect(createGhost(record({ keystrokes: undefined }))).toBeNull();
+});
+
+test('offers the fastest run on each text', () => {
+  const candidates = getGhostCandidates([
+    record({ id: 'slow', stats: stats(40, 1) }),
+    record({ id: 'fast', stats: stats(90, 0.5) }),
+    record({ id: 'other', source: { sourceId: 'quotes', textId: 'q2' }, stats: stats(70, 0.6) })
+  ]);
+  expect(candidates.map(candidate => candidate.id)).toEqual(['fast', 'other']);
+});
+
+test('compares finishing times with the ghost', () => {
+  const ghost = createGhost(record())!;
+  const ahead = getGhostOutcome(ghost, stats(70, 0.5));
+  expect(ahead.isAhead).toBe(true);
+  expect(ahead.margin).toBeCloseTo(0.2);
+  expect(ahead.ghostWpm).toBe(60);
+  expect(getGhostOutcome(ghost, stats(50, 1)).isAhead).toBe(false);
+});
@@ -0,0 +1,104 @@
+import { KeystrokeEvent, TypingStats } from '../types/typing';
+import { TestRecord, getRecordCategory } from '../storage/history';
+
+// Where a stored run's cursor was, in milliseconds since its first keystroke
+export interface GhostPoint {
+  time: number;
+  index: number;
+}
+
+export interface Ghost {
+  recordId: string;
+  text: string;
+  stats: TypingStats;
+  timestamp: number;
+  points: GhostPoint[];
+}
+
+export interface GhostOutcome {
+  isAhead: boolean;
+  // Seconds between our finish and the ghost's
+  margin: number;
+  ghostWpm: number;
+}
+
+// Runs saved before records kept their text can still be rebuilt from the
+// keystroke log, as long as every character was typed at least once
+export const getRecordText = (record: TestRecord): string | null => {
+  if (record.text) return record.text;
+  if (!record.keystrokes) return null;
+
+  const chars: string[] = [];
+  record.keystrokes.forEach(event => {
+    if (!event.isBackspace && event.expected) {
+      chars[event.index] = event.expected;
+    }
+  });
+  for (let i = 0; i < chars.length; i++) {
+    if (chars[i] === undefined) return null;
+  }
+  return chars.length > 0 ? chars.join('') : null;
+};
+
+// Timed from the first keystroke unless another start is given
+export const buildGhostPoints = (
+  keystrokes: KeystrokeEvent[],
+  start = keystrokes.length > 0 ? keystrokes[0].timestamp : 0
+): GhostPoint[] =>
+  keystrokes.map(event => ({
+    time: event.timestamp - start,
+    index: event.isBackspace ? event.index : event.index + 1
+  }));
+
+// Timed tests end on the clock rather than the text, so there is nothing to race
+export const isGhostable = (record: TestRecord) =>
+  record.kind === 'solo' &&
+  record.mode.type !== 'time' &&
+  !!record.keystrokes?.length &&
+  getRecordText(record) !== null;
+
+export const createGhost = (record: TestRecord): Ghost | null => {
+  const text = getRecordText(record);
+  if (!isGhostable(record) || !text || !record.keystrokes) return null;
+  return {
+    recordId: record.id,
+    text,
+    stats: record.stats,
+    timestamp: record.timestamp,
+    points: buildGhostPoints(record.keystrokes)
+  };
+};
+
+export const getIndexAtTime = (points: GhostPoint[], elapsedMs: number) => {
+  let index = 0;
+  for (const point of points) {
+    if (point.time > elapsedMs) break;
+    index = point.index;
+  }
+  return index;
+};
+
+export const getGhostIndex = (ghost: Ghost, elapsedMs: number) =>
+  Math.min(getIndexAtTime(ghost.points, elapsedMs), ghost.text.length);
+
+export const getGhostProgress = (ghost: Ghost, elapsedMs: number) =>
+  ghost.text.length > 0 ? (getGhostIndex(ghost, elapsedMs) / ghost.text.length) * 100 : 0;
+
+export const getGhostOutcome = (ghost: Ghost, stats: TypingStats): GhostOutcome => ({
+  isAhead: stats.timeTaken < ghost.stats.timeTaken,
+  margin: Math.abs(ghost.stats.timeTaken - stats.timeTaken),
+  ghostWpm: ghost.stats.wpm
+});
+
+// The fastest stored run on each text, best first
+export const getGhostCandidates = (records: TestRecord[]) => {
+  const best = new Map<string, TestRecord>();
+  records.filter(isGhostable).forEach(record => {
+    const key = `${getRecordCategory(record)}:${record.source.textId || getRecordText(record)}`;
+    const current = best.get(key);
+    if (!current || record.stats.wpm > current.stats.wpm) {
+      best.set(key, record);
+    }
+  });
+  return Array.from(best.values()).sort((a, b) => b.stats.wpm - a.stats.wpm);
+};
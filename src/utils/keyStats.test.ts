@@ -0,0 +1,50 @@
+import { backspace, press } from '../__fixtures__/keystrokes';
+import { aggregateKeyStats, getAverageLatency, getErrorRate, getProblemKeys, getSlowestKeys, normalizeKey } from './keyStats';
+
+test('normalises shifted characters onto their physical key', () => {
+  expect(normalizeKey('A')).toBe('a');
+  expect(normalizeKey('!')).toBe('1');
+  expect(normalizeKey(' ')).toBe('space');
+});
+
+test('counts attempts, errors and latency per key', () => {
+  const log = [
+    press('t', 't', 0, 0),
+    press('g', 'h', 1, 200),
+    backspace(1, 400),
+    press('h', 'h', 1, 700),
+    press('e', 'e', 2, 800)
+  ];
+  const report = aggregateKeyStats([log]);
+
+  expect(report.keys.h.attempts).toBe(2);
+  expect(getErrorRate(report.keys.h)).toBe(0.5);
+  // The retyped h came after a backspace, so only the first h has a latency
+  expect(getAverageLatency(report.keys.h)).toBe(200);
+  expect(getAverageLatency(report.keys.e)).toBe(100);
+  expect(report.keys.t.latencySamples).toBe(0);
+});
+
+test('tracks bigrams between consecutive characters', () => {
+  const log = [press('t', 't', 0, 0), press('h', 'h', 1, 150), press('e', 'e', 2, 400)];
+  const report = aggregateKeyStats([log, log]);
+
+  expect(report.bigrams.th.attempts).toBe(2);
+  expect(getAverageLatency(report.bigrams.he)).toBe(250);
+});
+
+test('ignores long pauses when measuring latency', () => {
+  const report = aggregateKeyStats([[press('a', 'a', 0, 0), press('b', 'b', 1, 5000)]]);
+  expect(report.keys.b.latencySamples).toBe(0);
+});
+
+test('ranks the most missed and slowest keys', () => {
+  const log = [
+    press('a', 'a', 0, 0), press('x', 'b', 1, 100), press('c', 'c', 2, 500),
+    press('a', 'a', 3, 600), press('b', 'b', 4, 700), press('c', 'c', 5, 1100)
+  ];
+  const report = aggregateKeyStats([log]);
+
+  expect(getProblemKeys(report.keys, 1, 2)[0].key).toBe('b');
+  expect(getSlowestKeys(report.keys, 1, 2)[0].key).toBe('c');
+});
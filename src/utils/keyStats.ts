@@ -0,0 +1,109 @@
+import { KeystrokeEvent } from '../types/typing';
+
+export interface KeyStat {
+  attempts: number;
+  errors: number;
+  totalLatency: number;
+  latencySamples: number;
+}
+
+export interface KeyReport {
+  keys: Record<string, KeyStat>;
+  bigrams: Record<string, KeyStat>;
+}
+
+export interface RankedKey {
+  key: string;
+  attempts: number;
+  errorRate: number;
+  averageLatency: number;
+}
+
+// Gaps longer than this are pauses, not typing speed
+const MAX_LATENCY_MS = 2000;
+
+// Shifted characters are counted against the physical key that types them
+const SHIFTED_KEYS: Record<string, string> = {
+  '!': '1', '@': '2', '#': '3', '$': '4', '%': '5', '^': '6', '&': '7', '*': '8', '(': '9', ')': '0',
+  '_': '-', '+': '=', '{': '[', '}': ']', '|': '\\', ':': ';', '"': "'", '<': ',', '>': '.', '?': '/', '~': '`'
+};
+
+export const normalizeKey = (char: string) => {
+  if (char === ' ') return 'space';
+  if (char === '\n') return 'enter';
+  if (char === '\t') return 'tab';
+  return SHIFTED_KEYS[char] || char.toLowerCase();
+};
+
+const emptyStat = (): KeyStat => ({ attempts: 0, errors: 0, totalLatency: 0, latencySamples: 0 });
+
+const record = (table: Record<string, KeyStat>, key: string, correct: boolean, latency: number | null) => {
+  const stat = table[key] || (table[key] = emptyStat());
+  stat.attempts++;
+  if (!correct) stat.errors++;
+  if (latency !== null) {
+    stat.totalLatency += latency;
+    stat.latencySamples++;
+  }
+};
+
+// Aggregate any number of keystroke logs (one per test) into per-key and per-bigram stats
+export const aggregateKeyStats = (logs: KeystrokeEvent[][]): KeyReport => {
+  const report: KeyReport = { keys: {}, bigrams: {} };
+
+  logs.forEach(log => {
+    let previous: KeystrokeEvent | null = null;
+    log.forEach(event => {
+      if (event.autoFilled) return;
+      if (event.isBackspace) {
+        previous = event;
+        return;
+      }
+      if (!event.expected) return;
+
+      // Latency only means something when the previous press typed the previous character
+      const follows = previous !== null && !previous.isBackspace && previous.index === event.index - 1;
+      const gap = previous ? event.timestamp - previous.timestamp : null;
+      const latency = follows && gap !== null && gap <= MAX_LATENCY_MS ? gap : null;
+
+      record(report.keys, normalizeKey(event.expected), event.correct, latency);
+      if (follows && previous) {
+        const bigram = `${previous.expected}${event.expected}`.toLowerCase();
+        if (!/\s/.test(bigram)) {
+          record(report.bigrams, bigram, event.correct, latency);
+        }
+      }
+      previous = event;
+    });
+  });
+
+  return report;
+};
+
+export const getErrorRate = (stat: KeyStat) => (stat.attempts > 0 ? stat.errors / stat.attempts : 0);
+
+export const getAverageLatency = (stat: KeyStat) =>
+  stat.latencySamples > 0 ? stat.totalLatency / stat.latencySamples : 0;
+
+const rank = (table: Record<string, KeyStat>, minAttempts: number): RankedKey[] =>
+  Object.entries(table)
+    .filter(([, stat]) => stat.attempts >= minAttempts)
+    .map(([key, stat]) => ({
+      key,
+      attempts: stat.attempts,
+      errorRate: getErrorRate(stat),
+      averageLatency: getAverageLatency(stat)
+    }));
+
+// Most-missed first; latency breaks ties so slow keys surface once errors are even
+export const getProblemKeys = (table: Record<string, KeyStat>, limit = 5, minAttempts = 3) =>
+  rank(table, minAttempts)
+    .filter(entry => entry.errorRate > 0 || entry.averageLatency > 0)
+    .sort((a, b) => b.errorRate - a.errorRate || b.averageLatency - a.averageLatency)
+    .slice(0, limit);
+
+export const getSlowestKeys = (table: Record<string, KeyStat>, limit = 5, minAttempts = 3) =>
+  rank(table, minAttempts)
+    .filter(entry => entry.averageLatency > 0)
+    .sort((a, b) => b.averageLatency - a.averageLatency)
+    .slice(0, limit);
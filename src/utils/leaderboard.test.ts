@@ -0,0 +1,24 @@
+import { getLeaderboardMode, toSubmittedKeystrokes } from './leaderboard';
+
+test('ranks only the standard modes and texts', () => {
+  expect(getLeaderboardMode({ type: 'time', duration: 15 }, 'english-200')).toBe('time-15');
+  expect(getLeaderboardMode({ type: 'time', duration: 60 }, 'english-200')).toBe('time-60');
+  expect(getLeaderboardMode({ type: 'words', count: 25 }, 'english-200')).toBe('words-25');
+  expect(getLeaderboardMode({ type: 'passage' }, 'quotes-short')).toBe('quote');
+
+  expect(getLeaderboardMode({ type: 'time', duration: 30 }, 'english-200')).toBeNull();
+  expect(getLeaderboardMode({ type: 'words', count: 25 }, 'english-10k')).toBeNull();
+  expect(getLeaderboardMode({ type: 'passage' }, 'custom')).toBeNull();
+  expect(getLeaderboardMode({ type: 'code' }, 'code-typescript')).toBeNull();
+});
+
+test('times submitted keystrokes from the first one', () => {
+  const event = (key: string, timestamp: number) =>
+    ({ key, expected: key, index: 0, timestamp, correct: true, isBackspace: key === 'Backspace' });
+
+  expect(toSubmittedKeystrokes([event('h', 5000), event('Backspace', 5150), event('h', 5300)])).toEqual([
+    { key: 'h', isBackspace: false, time: 0 },
+    { key: 'Backspace', isBackspace: true, time: 150 },
+    { key: 'h', isBackspace: false, time: 300 }
+  ]);
+});
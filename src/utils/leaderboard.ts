@@ -0,0 +1,35 @@
+import { LeaderboardMode, LeaderboardPeriod, RaceKeystroke } from '../protocol/events';
+import { KeystrokeEvent, TestMode } from '../types/typing';
+
+export const LEADERBOARD_MODE_LABELS: Record<LeaderboardMode, string> = {
+  'time-15': 'time 15',
+  'time-60': 'time 60',
+  'words-25': 'words 25',
+  quote: 'quote'
+};
+
+export const LEADERBOARD_PERIOD_LABELS: Record<LeaderboardPeriod, string> = {
+  daily: 'Today',
+  weekly: 'This week',
+  'all-time': 'All time'
+};
+
+// Word modes are ranked on the default word list and quotes on any quote
+// bucket; everything else is practice only
+export const getLeaderboardMode = (mode: TestMode, sourceId: string): LeaderboardMode | null => {
+  if (mode.type === 'passage') return sourceId.startsWith('quotes') ? 'quote' : null;
+  if (sourceId !== 'english-200') return null;
+  if (mode.type === 'time' && (mode.duration === 15 || mode.duration === 60)) return `time-${mode.duration}`;
+  if (mode.type === 'words' && mode.count === 25) return 'words-25';
+  return null;
+};
+
+// Solo keystrokes are sent timed from the first one, which is when the test started
+export const toSubmittedKeystrokes = (keystrokes: KeystrokeEvent[]): RaceKeystroke[] => {
+  const start = keystrokes.length > 0 ? keystrokes[0].timestamp : 0;
+  return keystrokes.map(event => ({
+    key: event.key,
+    isBackspace: event.isBackspace,
+    time: event.timestamp - start
+  }));
+};
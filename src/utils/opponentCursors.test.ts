@@ -0,0 +1,38 @@
+import { CURSOR_COLORS, getCursorColor, getCursorIndex, updateCursorTrack } from './opponentCursors';
+
+test('starts where the first update puts it', () => {
+  const track = updateCursorTrack(undefined, 12, 1000);
+  expect(getCursorIndex(track, 1000)).toBe(12);
+  expect(getCursorIndex(track, 5000)).toBe(12);
+});
+
+test('glides to each new index over the gap between updates', () => {
+  const first = updateCursorTrack(undefined, 10, 1000);
+  const second = updateCursorTrack(first, 20, 1100);
+  expect(getCursorIndex(second, 1100)).toBe(10);
+  expect(getCursorIndex(second, 1150)).toBe(15);
+  expect(getCursorIndex(second, 1200)).toBe(20);
+  expect(getCursorIndex(second, 9000)).toBe(20);
+});
+
+test('carries on from mid-glide without jumping', () => {
+  const first = updateCursorTrack(undefined, 0, 0);
+  const second = updateCursorTrack(first, 10, 100);
+  const third = updateCursorTrack(second, 30, 150);
+  expect(getCursorIndex(third, 150)).toBe(5);
+  // Bunched updates still take the minimum glide
+  expect(getCursorIndex(third, 175)).toBe(18);
+  expect(getCursorIndex(third, 200)).toBe(30);
+});
+
+test('moves backwards for backspaces and caps long gaps', () => {
+  const first = updateCursorTrack(undefined, 20, 0);
+  const second = updateCursorTrack(first, 16, 60000);
+  expect(getCursorIndex(second, 60500)).toBe(18);
+  expect(getCursorIndex(second, 61000)).toBe(16);
+});
+
+test('cycles through the colour palette', () => {
+  expect(getCursorColor(0)).toBe(CURSOR_COLORS[0]);
+  expect(getCursorColor(CURSOR_COLORS.length + 1)).toBe(CURSOR_COLORS[1]);
+});
@@ -0,0 +1,45 @@
+// Another racer's caret drawn inside the race text
+export interface OpponentCursor {
+  id: string;
+  // Position of their next character
+  index: number;
+  name: string;
+  color: string;
+}
+
+// Glides a cursor from where it was drawn to its latest reported index
+export interface CursorTrack {
+  from: number;
+  to: number;
+  start: number;
+  duration: number;
+}
+
+export const CURSOR_COLORS = ['#f59e0b', '#ec4899', '#8b5cf6', '#14b8a6', '#f97316', '#84cc16', '#06b6d4', '#ef4444'];
+export const GHOST_CURSOR_COLOR = '#9ca3af';
+
+// Updates usually arrive every 100ms; these keep a late or bunched one from
+// freezing the cursor or snapping it forward
+const MIN_GLIDE_MS = 50;
+const MAX_GLIDE_MS = 1000;
+
+export const getCursorColor = (position: number) => CURSOR_COLORS[position % CURSOR_COLORS.length];
+
+export const getCursorIndex = (track: CursorTrack, now: number) => {
+  const t = track.duration > 0 ? Math.min(1, Math.max(0, (now - track.start) / track.duration)) : 1;
+  return Math.round(track.from + (track.to - track.from) * t);
+};
+
+// Each glide takes as long as the gap since the last update, so a steady
+// stream of updates moves the cursor at the racer's own pace
+export const updateCursorTrack = (track: CursorTrack | undefined, index: number, now: number): CursorTrack => {
+  if (!track) {
+    return { from: index, to: index, start: now, duration: 0 };
+  }
+  return {
+    from: getCursorIndex(track, now),
+    to: index,
+    start: now,
+    duration: Math.min(MAX_GLIDE_MS, Math.max(MIN_GLIDE_MS, now - track.start))
+  };
+};
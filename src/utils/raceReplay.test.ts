@@ -0,0 +1,77 @@
+import {
+  ReplayEvent,
+  buildReplay,
+  getReplayDuration,
+  getReplayFileName,
+  getReplayFrame,
+  parseReplay,
+  serializeReplay
+} from './raceReplay';
+
+const stats = { wpm: 80, accuracy: 97, timeTaken: 3 };
+
+const events: ReplayEvent[] = [
+  { time: 2000, type: 'progress', userId: 'b', progress: 60 },
+  { time: 1000, type: 'progress', userId: 'a', progress: 30 },
+  { time: 1500, type: 'progress', userId: 'b', progress: 40 },
+  { time: 2500, type: 'progress', userId: 'gone', progress: 10 },
+  { time: 3000, type: 'finished', userId: 'a', rank: 1, stats }
+];
+
+const replay = buildReplay({
+  raceText: 'the quick brown fox',
+  myId: 'a',
+  users: [
+    { id: 'a', username: 'alice' },
+    { id: 'b', username: 'bob' }
+  ],
+  events,
+  results: [{ rank: 1, userId: 'a', username: 'alice', ...stats }],
+  recordedAt: new Date(2024, 2, 5, 9, 7).getTime()
+});
+
+test('orders events and drops racers without a name', () => {
+  expect(replay.events.map(event => event.time)).toEqual([1000, 1500, 2000, 3000]);
+  expect(getReplayDuration(replay)).toBe(3000);
+});
+
+test('rebuilds the race track at any point in time', () => {
+  expect(getReplayFrame(replay, 0)).toEqual([
+    { id: 'a', username: 'alice', progress: 0 },
+    { id: 'b', username: 'bob', progress: 0 }
+  ]);
+  expect(getReplayFrame(replay, 1800).map(user => user.progress)).toEqual([30, 40]);
+  expect(getReplayFrame(replay, 3000)[0]).toEqual({
+    id: 'a', username: 'alice', progress: 100, finished: true, rank: 1, stats
+  });
+});
+
+test('round-trips through JSON', () => {
+  expect(parseReplay(serializeReplay(replay))).toEqual(replay);
+});
+
+test('upgrades version 1 replays, whose results had no user ids', () => {
+  const v1 = { ...replay, version: 1, results: [{ rank: 1, username: 'alice', ...stats }, { rank: 2, username: 'left', ...stats }] };
+  expect(parseReplay(JSON.stringify(v1)).results.map(result => result.userId)).toEqual(['a', '']);
+});
+
+test('rejects files that are not replays', () => {
+  expect(() => parseReplay('not json')).toThrow('not valid JSON');
+  expect(() => parseReplay(JSON.stringify({ ...replay, events: [{ time: 1, type: 'progress', userId: 'a' }] })))
+    .toThrow('replay.events[0].progress should be a finite number, got undefined');
+  expect(() => parseReplay(JSON.stringify({ ...replay, version: 99 }))).toThrow('newer version');
+});
+
+test('rejects malformed replays with a message instead of crashing', () => {
+  expect(() => parseReplay('null')).toThrow('replay should be an object, got null');
+  expect(() => parseReplay(JSON.stringify({ ...replay, version: 1, racers: 'alice', results: [null] })))
+    .toThrow('replay.racers should be an array, got string');
+  expect(() => parseReplay(JSON.stringify({ ...replay, version: 1, results: [null] })))
+    .toThrow('replay.results[0] should be an object, got null');
+  expect(() => parseReplay(JSON.stringify({ ...replay, results: [{ rank: 1, username: 'alice', ...stats }] })))
+    .toThrow('replay.results[0].userId should be a string, got undefined');
+});
+
+test('names export files after the recording date', () => {
+  expect(getReplayFileName(replay)).toBe('monkeymash-replay-2024-03-05-0907.json');
+});
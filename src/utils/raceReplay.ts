@@ -0,0 +1,156 @@
+import { RaceStats, RaceUser, Standing } from '../protocol/events';
+import {
+  Validator,
+  arrayOf,
+  nullable,
+  number,
+  object,
+  oneOf,
+  raceStats,
+  standing,
+  string
+} from '../protocol/validators';
+
+export const REPLAY_VERSION = 2;
+
+export const REPLAY_SPEEDS = [1, 2, 4];
+
+// Times are milliseconds since the race started, as seen by the recording client
+export type ReplayEvent =
+  | { time: number; type: 'progress'; userId: string; progress: number }
+  | { time: number; type: 'finished'; userId: string; rank: number; stats: RaceStats };
+
+export interface ReplayRacer {
+  id: string;
+  username: string;
+}
+
+export interface RaceReplay {
+  version: number;
+  recordedAt: number;
+  raceText: string;
+  // The racer who recorded the replay, highlighted as "(You)" when it is played back
+  myId: string | null;
+  racers: ReplayRacer[];
+  events: ReplayEvent[];
+  results: Standing[];
+}
+
+interface BuildReplayOptions {
+  raceText: string;
+  myId: string | null;
+  users: ReplayRacer[];
+  events: ReplayEvent[];
+  results: Standing[];
+  recordedAt?: number;
+}
+
+export const buildReplay = ({
+  raceText,
+  myId,
+  users,
+  events,
+  results,
+  recordedAt = Date.now()
+}: BuildReplayOptions): RaceReplay => {
+  const racers = users.map(({ id, username }) => ({ id, username }));
+  const known = new Set(racers.map(racer => racer.id));
+  return {
+    version: REPLAY_VERSION,
+    recordedAt,
+    raceText,
+    myId,
+    racers,
+    // Racers who left before the results have no name to show, so their events are dropped
+    events: events.filter(event => known.has(event.userId)).sort((a, b) => a.time - b.time),
+    results
+  };
+};
+
+export const getReplayDuration = (replay: RaceReplay) =>
+  replay.events.length > 0 ? replay.events[replay.events.length - 1].time : 0;
+
+// Where every racer was at a point in the replay
+export const getReplayFrame = (replay: RaceReplay, time: number): RaceUser[] => {
+  const users = new Map<string, RaceUser>(
+    replay.racers.map(racer => [racer.id, { ...racer, progress: 0 }])
+  );
+  for (const event of replay.events) {
+    if (event.time > time) break;
+    const user = users.get(event.userId);
+    if (!user) continue;
+    if (event.type === 'progress') {
+      user.progress = event.progress;
+    } else {
+      users.set(event.userId, { ...user, progress: 100, finished: true, rank: event.rank, stats: event.stats });
+    }
+  }
+  return Array.from(users.values());
+};
+
+const replayEvent: Validator = (value, path) => {
+  const error = object({ time: number, type: oneOf('progress', 'finished'), userId: string })(value, path);
+  if (error) return error;
+  return (value as ReplayEvent).type === 'progress'
+    ? object({ progress: number })(value, path)
+    : object({ rank: number, stats: raceStats })(value, path);
+};
+
+const replayFields = {
+  version: number,
+  recordedAt: number,
+  raceText: string,
+  myId: nullable(string),
+  racers: arrayOf(object({ id: string, username: string })),
+  events: arrayOf(replayEvent)
+};
+
+const raceReplay = object({ ...replayFields, results: arrayOf(standing) });
+
+// Version 1 results had no user ids
+type RaceReplayV1 = Omit<RaceReplay, 'results'> & { results: Omit<Standing, 'userId'>[] };
+
+const raceReplayV1 = object({
+  ...replayFields,
+  results: arrayOf(object({ rank: number, username: string, wpm: number, accuracy: number, timeTaken: number }))
+});
+
+const isVersion1 = (data: unknown) =>
+  typeof data === 'object' && data !== null && 'version' in data && data.version === 1;
+
+// Version 1 results are matched to racers by name
+const upgradeReplay = (replay: RaceReplayV1): RaceReplay => ({
+  ...replay,
+  version: 2,
+  results: replay.results.map(result => ({
+    userId: replay.racers.find(racer => racer.username === result.username)?.id ?? '',
+    ...result
+  }))
+});
+
+export const serializeReplay = (replay: RaceReplay) => JSON.stringify(replay, null, 2);
+
+// Throws with a readable message when the file is not a replay we can play
+export const parseReplay = (json: string): RaceReplay => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('That file is not valid JSON.');
+  }
+  const error = (isVersion1(data) ? raceReplayV1 : raceReplay)(data, 'replay');
+  if (error) {
+    throw new Error(`That file is not a race replay: ${error}`);
+  }
+  const replay = isVersion1(data) ? upgradeReplay(data as RaceReplayV1) : data as RaceReplay;
+  if (replay.version > REPLAY_VERSION) {
+    throw new Error('That replay was made by a newer version of monKEYmash.');
+  }
+  return { ...replay, events: [...replay.events].sort((a, b) => a.time - b.time) };
+};
+
+export const getReplayFileName = (replay: RaceReplay) => {
+  const date = new Date(replay.recordedAt);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `monkeymash-replay-${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}.json`;
+};
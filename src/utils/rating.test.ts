@@ -0,0 +1,50 @@
+import { calculateRatingChanges, formatRatingChange, getExpectedScore, getRatingBand } from './rating';
+
+const entry = (id: string, rating: number, place: number, games = 20) => ({ id, rating, games, place });
+
+test('expects the stronger player to win', () => {
+  expect(getExpectedScore(1200, 1200)).toBe(0.5);
+  expect(getExpectedScore(1600, 1200)).toBeCloseTo(10 / 11);
+  expect(getExpectedScore(1200, 1600)).toBeCloseTo(1 / 11);
+});
+
+test('moves equal players apart by half of K in a head-to-head', () => {
+  expect(calculateRatingChanges([entry('a', 1200, 1), entry('b', 1200, 2)])).toEqual([
+    { id: 'a', before: 1200, after: 1212 },
+    { id: 'b', before: 1200, after: 1188 }
+  ]);
+});
+
+test('rewards an upset more than an expected win', () => {
+  const upset = calculateRatingChanges([entry('new', 1100, 1), entry('pro', 1500, 2)]);
+  const expected = calculateRatingChanges([entry('new', 1100, 2), entry('pro', 1500, 1)]);
+  expect(upset[0].after - upset[0].before).toBe(22);
+  expect(expected[1].after - expected[1].before).toBe(2);
+});
+
+test('scores every pairing in a bigger race', () => {
+  const changes = calculateRatingChanges([entry('a', 1200, 1), entry('b', 1200, 2), entry('c', 1200, 3), entry('d', 1200, 3)]);
+  expect(changes.map(change => change.after - change.before)).toEqual([12, 4, -8, -8]);
+});
+
+test('lets provisional players move faster', () => {
+  const [fresh] = calculateRatingChanges([entry('a', 1200, 1, 0), entry('b', 1200, 2)]);
+  expect(fresh.after).toBe(1220);
+});
+
+test('leaves a lone racer unrated', () => {
+  expect(calculateRatingChanges([entry('a', 1200, 1)])).toEqual([{ id: 'a', before: 1200, after: 1200 }]);
+});
+
+test('puts ratings in bands', () => {
+  expect(getRatingBand(900).name).toBe('Bronze');
+  expect(getRatingBand(1200).name).toBe('Silver');
+  expect(getRatingBand(1300).name).toBe('Gold');
+  expect(getRatingBand(2400).name).toBe('Diamond');
+});
+
+test('formats rating changes with a sign', () => {
+  expect(formatRatingChange(1200, 1212)).toBe('+12');
+  expect(formatRatingChange(1200, 1188)).toBe('−12');
+  expect(formatRatingChange(1200, 1200)).toBe('±0');
+});
@@ -0,0 +1,73 @@
+// Multi-player Elo: a race is scored as a head-to-head match between every
+// pair of racers, and each racer's change is the average over their pairings
+
+export interface PlayerRating {
+  rating: number;
+  // Rated races so far; new players move faster until the rating settles
+  games: number;
+}
+
+export interface RatedEntry extends PlayerRating {
+  id: string;
+  // 1 for the winner; racers who didn't finish share the place after the last finisher
+  place: number;
+}
+
+export interface RatingChange {
+  id: string;
+  before: number;
+  after: number;
+}
+
+export interface RatingBand {
+  name: string;
+  icon: string;
+  // Lowest rating in the band
+  min: number;
+}
+
+export const DEFAULT_RATING: PlayerRating = { rating: 1200, games: 0 };
+
+export const RATING_BANDS: RatingBand[] = [
+  { name: 'Bronze', icon: '🟤', min: -Infinity },
+  { name: 'Silver', icon: '⚪', min: 1100 },
+  { name: 'Gold', icon: '🟡', min: 1300 },
+  { name: 'Platinum', icon: '💠', min: 1500 },
+  { name: 'Diamond', icon: '💎', min: 1700 }
+];
+
+const PROVISIONAL_GAMES = 10;
+const PROVISIONAL_K = 40;
+const SETTLED_K = 24;
+// Rating gap at which the stronger player is expected to win ten times out of eleven
+const ELO_SCALE = 400;
+
+export const getExpectedScore = (rating: number, opponentRating: number) =>
+  1 / (1 + 10 ** ((opponentRating - rating) / ELO_SCALE));
+
+const getK = (games: number) => (games < PROVISIONAL_GAMES ? PROVISIONAL_K : SETTLED_K);
+
+export const calculateRatingChanges = (entries: RatedEntry[]): RatingChange[] => {
+  if (entries.length < 2) {
+    return entries.map(entry => ({ id: entry.id, before: entry.rating, after: entry.rating }));
+  }
+
+  return entries.map(entry => {
+    const surplus = entries
+      .filter(opponent => opponent !== entry)
+      .reduce((sum, opponent) => {
+        const score = entry.place < opponent.place ? 1 : entry.place === opponent.place ? 0.5 : 0;
+        return sum + score - getExpectedScore(entry.rating, opponent.rating);
+      }, 0);
+    const change = Math.round((getK(entry.games) / (entries.length - 1)) * surplus);
+    return { id: entry.id, before: entry.rating, after: entry.rating + change };
+  });
+};
+
+export const getRatingBand = (rating: number) =>
+  [...RATING_BANDS].reverse().find(band => rating >= band.min) || RATING_BANDS[0];
+
+export const findRatingBand = (name: string) => RATING_BANDS.find(band => band.name === name);
+
+export const formatRatingChange = (before: number, after: number) =>
+  after > before ? `+${after - before}` : after < before ? `−${before - after}` : '±0';
@@ -0,0 +1,55 @@
+import { sanitizeText, splitIntoChunks } from './sanitizeText';
+
+describe('sanitizeText', () => {
+  test('replaces smart punctuation with plain ASCII', () => {
+    expect(sanitizeText('“It’s fine” — she said…')).toBe('"It\'s fine" - she said...');
+  });
+
+  test('normalises odd spaces and drops invisible characters', () => {
+    expect(sanitizeText('one\u00a0two\u2009three\u200b four\t\tfive')).toBe('one two three four five');
+  });
+
+  test('keeps paragraph breaks but collapses everything else', () => {
+    expect(sanitizeText('  first line\r\nstill first  \r\n\r\n\r\n second  ')).toBe('first line still first\n\nsecond');
+  });
+
+  test('optionally strips markdown syntax', () => {
+    const markdown = '# Title\n\nSome **bold** and _italic_ text with a [link](https://example.com).\n\n- item one\n- item two';
+    expect(sanitizeText(markdown, { stripMarkdown: true })).toBe(
+      'Title\n\nSome bold and italic text with a link.\n\nitem one item two'
+    );
+  });
+
+  test('keeps backticks, which can be typed as they are', () => {
+    expect(sanitizeText('const greeting = `hi` + name;')).toBe('const greeting = `hi` + name;');
+  });
+
+  test('unwraps inline code when stripping markdown', () => {
+    expect(sanitizeText('Run `npm test` now.', { stripMarkdown: true })).toBe('Run npm test now.');
+  });
+
+  test('drops code fences but keeps the code inside them as written', () => {
+    const markdown = 'Example:\n\n```ts\nconst a = `x` + `y`;\n```\n\nDone.';
+    expect(sanitizeText(markdown, { stripMarkdown: true })).toBe('Example:\n\nconst a = `x` + `y`;\n\nDone.');
+  });
+});
+
+describe('splitIntoChunks', () => {
+  const text = 'One. Two! Three?\n\nFour five six.\n\nSeven';
+
+  test('returns the whole text as one chunk by default', () => {
+    expect(splitIntoChunks(text, 'none')).toEqual(['One. Two! Three? Four five six. Seven']);
+  });
+
+  test('groups paragraphs', () => {
+    expect(splitIntoChunks(text, 'paragraph', 2)).toEqual(['One. Two! Three? Four five six.', 'Seven']);
+  });
+
+  test('groups sentences', () => {
+    expect(splitIntoChunks(text, 'sentence', 2)).toEqual(['One. Two!', 'Three? Four five six.', 'Seven']);
+  });
+
+  test('groups words', () => {
+    expect(splitIntoChunks(text, 'words', 4)).toEqual(['One. Two! Three? Four', 'five six. Seven']);
+  });
+});
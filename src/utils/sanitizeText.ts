@@ -0,0 +1,84 @@
+// Clean up pasted or imported text so every character can be typed on a
+// normal keyboard: curly quotes, fancy dashes and odd spaces become ASCII.
+const REPLACEMENTS: Array<[RegExp, string]> = [
+  [/[\u2018\u2019\u201a\u201b\u2032\u00b4]/g, "'"],
+  [/[\u201c\u201d\u201e\u201f\u2033\u00ab\u00bb]/g, '"'],
+  [/[\u2010-\u2015\u2212]/g, '-'],
+  [/\u2026/g, '...'],
+  [/[\u00a0\u1680\u2000-\u200a\u202f\u205f\u3000\t]/g, ' '],
+  [/[\u200b-\u200d\u2060\ufeff\u00ad]/g, ''],
+  [/\r\n?/g, '\n']
+];
+
+export interface SanitizeOptions {
+  stripMarkdown?: boolean;
+}
+
+export type ChunkMode = 'none' | 'paragraph' | 'sentence' | 'words';
+
+const stripProseMarkdown = (text: string) =>
+  text
+    .replace(/^#{1,6}[ \t]+/gm, '')
+    .replace(/^[ \t]*>[ \t]?/gm, '')
+    .replace(/^[ \t]*(?:[-*+]|\d+\.)[ \t]+/gm, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(\*|_)(.+?)\1/g, '$2')
+    .replace(/`([^`]+)`/g, '$1');
+
+// Fence lines go, but what's inside a fenced block is code and is kept as written
+const stripMarkdownSyntax = (text: string) =>
+  text
+    .split(/^```.*$/m)
+    .map((part, index) => (index % 2 === 0 ? stripProseMarkdown(part) : part))
+    .join('');
+
+// Returns paragraphs separated by a single blank line, each collapsed to one line of single-spaced words
+export const sanitizeText = (input: string, options: SanitizeOptions = {}) => {
+  let text = input.normalize('NFC');
+  REPLACEMENTS.forEach(([pattern, replacement]) => {
+    text = text.replace(pattern, replacement);
+  });
+  if (options.stripMarkdown) {
+    text = stripMarkdownSyntax(text);
+  }
+  // Drop anything left that isn't printable
+  text = text.replace(/[^\n\x20-\x7e\u00c0-\u024f]/g, '');
+
+  return text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.replace(/\s+/g, ' ').trim())
+    .filter(paragraph => paragraph.length > 0)
+    .join('\n\n');
+};
+
+// Flatten sanitised text into a single line for TypingInterface
+export const toTypingText = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+export const splitIntoChunks = (text: string, mode: ChunkMode, size = 1) => {
+  const paragraphs = text.split(/\n\n+/).filter(Boolean);
+  let units: string[];
+
+  switch (mode) {
+    case 'paragraph':
+      units = paragraphs;
+      break;
+    case 'sentence':
+      units = paragraphs.flatMap(paragraph => paragraph.match(/[^.!?]+(?:[.!?]+["')\]]*|$)/g) || [paragraph]);
+      break;
+    case 'words':
+      units = toTypingText(text).split(' ');
+      break;
+    default:
+      return text ? [toTypingText(text)] : [];
+  }
+
+  const chunks: string[] = [];
+  const perChunk = Math.max(1, Math.floor(size));
+  for (let i = 0; i < units.length; i += perChunk) {
+    const chunk = toTypingText(units.slice(i, i + perChunk).join(' '));
+    if (chunk) chunks.push(chunk);
+  }
+  return chunks;
+};
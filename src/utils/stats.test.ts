@@ -0,0 +1,166 @@
+import { backspace, press } from '../__fixtures__/keystrokes';
+import {
+  calculateAccuracy,
+  calculateConsistency,
+  calculateGrossWpm,
+  calculateNetWpm,
+  calculatePerSecondWpm,
+  calculateTypingStats,
+  replayKeystrokes,
+  restoreKeystrokes,
+  sampleWindow
+} from './stats';
+
+describe('wpm', () => {
+  test('gross wpm counts five characters as one word', () => {
+    expect(calculateGrossWpm(250, 60000)).toBe(50);
+    expect(calculateGrossWpm(25, 15000)).toBe(20);
+  });
+
+  test('net wpm subtracts uncorrected errors per minute', () => {
+    expect(calculateNetWpm(250, 5, 60000)).toBe(45);
+    expect(calculateNetWpm(250, 10, 30000)).toBe(80);
+  });
+
+  test('net wpm never goes negative', () => {
+    expect(calculateNetWpm(10, 10, 60000)).toBe(0);
+  });
+
+  test('zero elapsed time gives zero wpm', () => {
+    expect(calculateGrossWpm(100, 0)).toBe(0);
+    expect(calculateNetWpm(100, 0, 0)).toBe(0);
+  });
+});
+
+describe('accuracy', () => {
+  test('counts corrected errors against accuracy', () => {
+    const keystrokes = [
+      press('a', 'a', 0, 0),
+      press('x', 'b', 1, 100),
+      backspace(1, 200),
+      press('b', 'b', 1, 300)
+    ];
+    expect(calculateAccuracy(keystrokes)).toBeCloseTo(66.67, 1);
+  });
+
+  test('is 100 when nothing was typed', () => {
+    expect(calculateAccuracy([])).toBe(100);
+  });
+});
+
+describe('consistency', () => {
+  test('is 100 for a perfectly even pace', () => {
+    expect(calculateConsistency([60, 60, 60, 60])).toBe(100);
+  });
+
+  test('drops as the per-second wpm varies', () => {
+    expect(calculateConsistency([40, 80, 40, 80])).toBeCloseTo(66.67, 1);
+    expect(calculateConsistency([0, 120])).toBe(0);
+  });
+
+  test('per-second wpm buckets keystrokes by second and ignores backspaces', () => {
+    const keystrokes = [
+      press('a', 'a', 0, 1000),
+      press('b', 'b', 1, 1500),
+      backspace(1, 1600),
+      press('c', 'c', 1, 2200)
+    ];
+    expect(calculatePerSecondWpm(keystrokes, 1000, 3000)).toEqual([24, 12]);
+  });
+
+  test('scales the final partial second', () => {
+    const keystrokes = [press('a', 'a', 0, 0), press('b', 'b', 1, 1100)];
+    expect(calculatePerSecondWpm(keystrokes, 0, 1500)).toEqual([12, 24]);
+  });
+});
+
+describe('sampleWindow', () => {
+  const keystrokes = [
+    press('a', 'a', 0, 1000),
+    press('x', 'b', 1, 1400),
+    backspace(1, 1600),
+    press('b', 'b', 1, 1800),
+    press('c', 'c', 2, 2000)
+  ];
+
+  test('counts keystrokes from the start of the window up to, not including, its end', () => {
+    expect(sampleWindow(keystrokes, 1000, 0, 1000)).toEqual({ rawWpm: 36, errors: 1 });
+    expect(sampleWindow(keystrokes, 1000, 1000, 2000)).toEqual({ rawWpm: 12, errors: 0 });
+  });
+
+  test('scales raw wpm to the length of a partial window', () => {
+    expect(sampleWindow(keystrokes, 1000, 400, 1000)).toEqual({ rawWpm: 40, errors: 1 });
+  });
+
+  test('a closed window takes the keystroke landing on its end', () => {
+    expect(sampleWindow(keystrokes, 1000, 0, 1000, true)).toEqual({ rawWpm: 48, errors: 1 });
+  });
+});
+
+describe('calculateTypingStats', () => {
+  test('combines net, gross and raw wpm with corrected errors', () => {
+    // "hello" typed over 6 seconds with one corrected and one uncorrected error
+    const keystrokes = [
+      press('h', 'h', 0, 0),
+      press('x', 'e', 1, 1000),
+      backspace(1, 2000),
+      press('e', 'e', 1, 3000),
+      press('l', 'l', 2, 4000),
+      press('l', 'l', 3, 5000),
+      press('p', 'o', 4, 6000)
+    ];
+    const stats = calculateTypingStats({
+      target: 'hello',
+      typed: replayKeystrokes(keystrokes),
+      keystrokes,
+      startTime: 0,
+      endTime: 6000
+    });
+
+    expect(stats.totalChars).toBe(5);
+    expect(stats.correctChars).toBe(4);
+    expect(stats.incorrectChars).toBe(1);
+    expect(stats.correctedErrors).toBe(1);
+    expect(stats.grossWpm).toBe(10);
+    expect(stats.wpm).toBe(0);
+    expect(stats.rawWpm).toBe(12);
+    expect(stats.accuracy).toBe(67);
+    expect(stats.timeTaken).toBe(6);
+  });
+
+  test('leaves auto-filled indentation out of raw wpm but not out of the typed text', () => {
+    const keystrokes = [
+      press('a', 'a', 0, 0),
+      press('\n', '\n', 1, 500),
+      { ...press(' ', ' ', 2, 500), autoFilled: true },
+      { ...press(' ', ' ', 3, 500), autoFilled: true },
+      press('b', 'b', 4, 1000)
+    ];
+    const stats = calculateTypingStats({
+      target: 'a\n  b',
+      typed: replayKeystrokes(keystrokes),
+      keystrokes,
+      startTime: 0,
+      endTime: 1000
+    });
+
+    expect(stats.totalChars).toBe(5);
+    expect(stats.grossWpm).toBe(60);
+    expect(stats.rawWpm).toBe(36);
+  });
+
+  test('replays backspaces when rebuilding typed text', () => {
+    const keystrokes = [press('a', 'a', 0, 0), press('x', 'b', 1, 10), backspace(1, 20), press('b', 'b', 1, 30)];
+    expect(replayKeystrokes(keystrokes)).toBe('ab');
+  });
+
+  test('restores a full keystroke log from the race server copy', () => {
+    const restored = restoreKeystrokes('ab', [
+      { key: 'a', isBackspace: false, time: 0 },
+      { key: 'x', isBackspace: false, time: 10 },
+      { key: 'Backspace', isBackspace: true, time: 20 },
+      { key: 'b', isBackspace: false, time: 30 }
+    ], 1000);
+    expect(restored).toEqual([press('a', 'a', 0, 1000), press('x', 'b', 1, 1010), { ...backspace(1, 1020), expected: 'b' }, press('b', 'b', 1, 1030)]);
+  });
+});
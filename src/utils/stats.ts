@@ -0,0 +1,145 @@
+import { KeystrokeEvent, TypingStats } from '../types/typing';
+
+// A "word" is standardised as five characters, spaces and punctuation included
+export const CHARS_PER_WORD = 5;
+
+interface StatsInput {
+  target: string;
+  typed: string;
+  keystrokes: KeystrokeEvent[];
+  startTime: number;
+  endTime: number;
+}
+
+export const EMPTY_STATS: TypingStats = {
+  wpm: 0,
+  rawWpm: 0,
+  grossWpm: 0,
+  accuracy: 0,
+  consistency: 0,
+  timeTaken: 0,
+  correctChars: 0,
+  incorrectChars: 0,
+  correctedErrors: 0,
+  totalChars: 0
+};
+
+const toMinutes = (ms: number) => ms / 1000 / 60;
+
+// Keys the player actually pressed to type a character
+const isKeyPress = (k: KeystrokeEvent) => !k.isBackspace && !k.autoFilled;
+
+export const calculateGrossWpm = (chars: number, elapsedMs: number) => {
+  const minutes = toMinutes(elapsedMs);
+  return minutes > 0 ? chars / CHARS_PER_WORD / minutes : 0;
+};
+
+// Gross WPM minus one word per uncorrected error per minute
+export const calculateNetWpm = (chars: number, uncorrectedErrors: number, elapsedMs: number) => {
+  const minutes = toMinutes(elapsedMs);
+  if (minutes <= 0) return 0;
+  return Math.max(0, calculateGrossWpm(chars, elapsedMs) - uncorrectedErrors / minutes);
+};
+
+// Share of non-backspace keystrokes that matched the expected character,
+// so errors that were later corrected still count against accuracy
+export const calculateAccuracy = (keystrokes: KeystrokeEvent[]) => {
+  const presses = keystrokes.filter(isKeyPress);
+  if (presses.length === 0) return 100;
+  return (presses.filter(k => k.correct).length / presses.length) * 100;
+};
+
+// Raw WPM for each second of the test, counting every character key pressed
+export const calculatePerSecondWpm = (keystrokes: KeystrokeEvent[], startTime: number, endTime: number) => {
+  const elapsedMs = endTime - startTime;
+  if (elapsedMs <= 0) return [];
+
+  const seconds = Math.ceil(elapsedMs / 1000);
+  const counts = new Array<number>(seconds).fill(0);
+  keystrokes.forEach(k => {
+    if (!isKeyPress(k)) return;
+    const second = Math.min(seconds - 1, Math.max(0, Math.floor((k.timestamp - startTime) / 1000)));
+    counts[second]++;
+  });
+
+  return counts.map((count, second) => {
+    // The last second is usually partial; scale by how much of it elapsed
+    const durationMs = Math.min(1000, elapsedMs - second * 1000);
+    return calculateGrossWpm(count, durationMs);
+  });
+};
+
+// Raw WPM and error count for the keystrokes between two offsets from the start.
+// A closed window also takes keystrokes landing on its end, like the one that finishes a test
+export const sampleWindow = (keystrokes: KeystrokeEvent[], startTime: number, fromMs: number, toMs: number, closed = false) => {
+  const inWindow = keystrokes.filter(k => {
+    const offset = k.timestamp - startTime;
+    return isKeyPress(k) && offset >= fromMs && (offset < toMs || (closed && offset === toMs));
+  });
+  return {
+    rawWpm: calculateGrossWpm(inWindow.length, toMs - fromMs),
+    errors: inWindow.filter(k => !k.correct).length
+  };
+};
+
+// 100 minus the coefficient of variation (as a percentage) of per-second WPM
+export const calculateConsistency = (samples: number[]) => {
+  if (samples.length < 2) return 100;
+  const mean = samples.reduce((sum, value) => sum + value, 0) / samples.length;
+  if (mean === 0) return 0;
+  const variance = samples.reduce((sum, value) => sum + (value - mean) ** 2, 0) / samples.length;
+  const coefficientOfVariation = Math.sqrt(variance) / mean;
+  return Math.max(0, 100 * (1 - coefficientOfVariation));
+};
+
+// Rebuild the typed text from a keystroke log
+export const replayKeystrokes = (keystrokes: KeystrokeEvent[]) => {
+  let typed = '';
+  keystrokes.forEach(k => {
+    typed = k.isBackspace ? typed.slice(0, -1) : typed + k.key;
+  });
+  return typed;
+};
+
+// Rebuild a full keystroke log from the race server's copy, which only keeps
+// each key and when it was pressed
+export const restoreKeystrokes = (
+  target: string,
+  keystrokes: { key: string; isBackspace: boolean; time: number }[],
+  startTime: number
+): KeystrokeEvent[] => {
+  let length = 0;
+  return keystrokes.map(({ key, isBackspace, time }) => {
+    const index = isBackspace ? Math.max(0, length - 1) : length;
+    length = isBackspace ? index : length + 1;
+    return {
+      key,
+      expected: target[index] || '',
+      index,
+      timestamp: startTime + time,
+      correct: !isBackspace && key === target[index],
+      isBackspace
+    };
+  });
+};
+
+export const calculateTypingStats = ({ target, typed, keystrokes, startTime, endTime }: StatsInput): TypingStats => {
+  const elapsedMs = Math.max(0, endTime - startTime);
+  const correctChars = typed.split('').filter((char, idx) => char === target[idx]).length;
+  const incorrectChars = typed.length - correctChars;
+  const presses = keystrokes.filter(isKeyPress);
+  const incorrectPresses = presses.filter(k => !k.correct).length;
+
+  return {
+    wpm: Math.round(calculateNetWpm(typed.length, incorrectChars, elapsedMs)),
+    rawWpm: Math.round(calculateGrossWpm(presses.length, elapsedMs)),
+    grossWpm: Math.round(calculateGrossWpm(typed.length, elapsedMs)),
+    accuracy: Math.round(calculateAccuracy(keystrokes)),
+    consistency: Math.round(calculateConsistency(calculatePerSecondWpm(keystrokes, startTime, endTime))),
+    timeTaken: elapsedMs / 1000,
+    correctChars,
+    incorrectChars,
+    correctedErrors: Math.max(0, incorrectPresses - incorrectChars),
+    totalChars: typed.length
+  };
+};
@@ -0,0 +1,142 @@
+import { CodeLanguage } from '../types/typing';
+import { sanitizeText } from './sanitizeText';
+import { TokenType, highlightCode } from './syntaxHighlight';
+
+// Runs of characters sharing a token type, trimmed, with the blank ones left out
+const tokens = (code: string, language: CodeLanguage) => {
+  const runs: Array<[string, TokenType]> = [];
+  highlightCode(code, language).forEach((type, index) => {
+    const last = runs[runs.length - 1];
+    if (last && last[1] === type) {
+      last[0] += code[index];
+    } else {
+      runs.push([code[index], type]);
+    }
+  });
+  return runs
+    .map(([text, type]): [string, TokenType] => [text.trim(), type])
+    .filter(([text]) => text !== '');
+};
+
+test('gives every character a token type', () => {
+  const code = 'let x = 1;';
+  expect(highlightCode(code, 'javascript')).toHaveLength(code.length);
+});
+
+describe('strings', () => {
+  test('covers both quote styles, escaped quotes included', () => {
+    expect(tokens("a = 'it\\'s' + \"b\"", 'javascript')).toEqual([
+      ['a', 'plain'],
+      ['=', 'punctuation'],
+      ["'it\\'s'", 'string'],
+      ['+', 'punctuation'],
+      ['"b"', 'string']
+    ]);
+  });
+
+  test('an unterminated quote stops at the end of its line', () => {
+    expect(tokens("s = 'open\nx", 'python')).toEqual([
+      ['s', 'plain'],
+      ['=', 'punctuation'],
+      ["'open", 'string'],
+      ['x', 'plain']
+    ]);
+  });
+
+  test('keywords and comment markers inside a string stay part of it', () => {
+    expect(tokens('"return // not a comment"', 'javascript')).toEqual([['"return // not a comment"', 'string']]);
+  });
+});
+
+describe('comments', () => {
+  test('a line comment runs to the end of its line', () => {
+    expect(tokens('x++ // bump\ny', 'javascript')).toEqual([
+      ['x', 'plain'],
+      ['++', 'punctuation'],
+      ['// bump', 'comment'],
+      ['y', 'plain']
+    ]);
+  });
+
+  test('uses the comment marker of the language', () => {
+    expect(tokens('# note', 'python')).toEqual([['# note', 'comment']]);
+    expect(tokens('# note', 'go')).not.toContainEqual(['# note', 'comment']);
+  });
+});
+
+describe('keywords', () => {
+  test('only whole words are keywords', () => {
+    expect(tokens('const constant = null', 'javascript')).toEqual([
+      ['const', 'keyword'],
+      ['constant', 'plain'],
+      ['=', 'punctuation'],
+      ['null', 'keyword']
+    ]);
+  });
+
+  test('each language has its own keywords', () => {
+    expect(tokens('interface', 'typescript')).toEqual([['interface', 'keyword']]);
+    expect(tokens('interface', 'javascript')).toEqual([['interface', 'plain']]);
+    expect(tokens('def f(self):', 'python')).toContainEqual(['self', 'keyword']);
+    expect(tokens('func main()', 'go')).toContainEqual(['func', 'keyword']);
+  });
+
+  test('numbers get their own colour', () => {
+    expect(tokens('x = 3.14', 'python')).toContainEqual(['3.14', 'number']);
+  });
+});
+
+describe('multi-line tokens', () => {
+  test('a block comment spans lines', () => {
+    expect(tokens('/* one\ntwo */ x', 'go')).toEqual([
+      ['/* one\ntwo */', 'comment'],
+      ['x', 'plain']
+    ]);
+  });
+
+  test('a python triple-quoted string spans lines', () => {
+    const types = highlightCode('"""doc\nmore"""\nx', 'python');
+    expect(types.slice(0, 14).every(type => type === 'string')).toBe(true);
+    expect(types[15]).toBe('plain');
+  });
+
+  test('an unterminated block comment runs to the end of the code', () => {
+    expect(highlightCode('/* open\nx', 'javascript').every(type => type === 'comment')).toBe(true);
+  });
+});
+
+describe('backticks', () => {
+  test('a template literal is one string, placeholders and newlines included', () => {
+    const code = `const s = \`hi \${name}\nbye\`;`;
+    const types = highlightCode(code, 'typescript');
+    const start = code.indexOf('`');
+    const end = code.lastIndexOf('`');
+    expect(types.slice(start, end + 1).every(type => type === 'string')).toBe(true);
+    expect(types[end + 1]).toBe('punctuation');
+  });
+
+  test('an escaped backtick does not close the template literal', () => {
+    expect(tokens('`a\\`b` + c', 'javascript')).toEqual([
+      ['`a\\`b`', 'string'],
+      ['+', 'punctuation'],
+      ['c', 'plain']
+    ]);
+  });
+
+  test('a backtick inside a quoted string does not open a template literal', () => {
+    expect(tokens("'`' + x", 'javascript')).toEqual([
+      ["'`'", 'string'],
+      ['+', 'punctuation'],
+      ['x', 'plain']
+    ]);
+  });
+
+  test('go raw strings are backtick quoted', () => {
+    expect(tokens('s := `C:\\path`', 'go')).toContainEqual(['`C:\\path`', 'string']);
+  });
+
+  test('backticks survive sanitising, so pasted code still highlights its template literals', () => {
+    const code = sanitizeText('const url = `/api/` + id;');
+    expect(tokens(code, 'javascript')).toContainEqual(['`/api/`', 'string']);
+  });
+});
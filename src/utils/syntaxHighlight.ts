@@ -0,0 +1,81 @@
+import { CodeLanguage } from '../types/typing';
+
+export type TokenType = 'plain' | 'keyword' | 'string' | 'comment' | 'number' | 'punctuation';
+
+const JS_KEYWORDS = [
+  'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete',
+  'do', 'else', 'export', 'extends', 'false', 'finally', 'for', 'from', 'function', 'if', 'import',
+  'in', 'instanceof', 'let', 'new', 'null', 'of', 'return', 'super', 'switch', 'this', 'throw',
+  'true', 'try', 'typeof', 'undefined', 'var', 'void', 'while', 'yield'
+];
+
+const KEYWORDS: Record<CodeLanguage, Set<string>> = {
+  javascript: new Set(JS_KEYWORDS),
+  typescript: new Set([
+    ...JS_KEYWORDS,
+    'abstract', 'any', 'as', 'boolean', 'enum', 'implements', 'interface', 'keyof', 'never',
+    'number', 'private', 'protected', 'public', 'readonly', 'string', 'type', 'unknown'
+  ]),
+  python: new Set([
+    'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue',
+    'def', 'del', 'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in',
+    'is', 'lambda', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'self', 'try', 'while', 'with', 'yield'
+  ]),
+  go: new Set([
+    'break', 'case', 'chan', 'const', 'continue', 'default', 'defer', 'else', 'fallthrough', 'false',
+    'for', 'func', 'go', 'goto', 'if', 'import', 'interface', 'map', 'nil', 'package', 'range',
+    'return', 'select', 'struct', 'switch', 'true', 'type', 'var'
+  ])
+};
+
+// Ordered alternatives; the first group that matches at a position wins
+const PATTERNS: Record<CodeLanguage, Array<[TokenType, RegExp]>> = {
+  javascript: [
+    ['comment', /\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/y],
+    ['string', /'(?:\\.|[^'\\\n])*'?|"(?:\\.|[^"\\\n])*"?|`(?:\\.|[^`\\])*`?/y]
+  ],
+  typescript: [],
+  python: [
+    ['comment', /#[^\n]*/y],
+    ['string', /"""[\s\S]*?(?:"""|$)|'''[\s\S]*?(?:'''|$)|'(?:\\.|[^'\\\n])*'?|"(?:\\.|[^"\\\n])*"?/y]
+  ],
+  go: [
+    ['comment', /\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/y],
+    ['string', /'(?:\\.|[^'\\\n])*'?|"(?:\\.|[^"\\\n])*"?|`[^`]*`?/y]
+  ]
+};
+PATTERNS.typescript = PATTERNS.javascript;
+
+const COMMON_PATTERNS: Array<[TokenType | 'word', RegExp]> = [
+  ['number', /\b\d+(?:\.\d+)?\b/y],
+  ['word', /[A-Za-z_$][\w$]*/y],
+  ['punctuation', /[{}[\]();,.:<>=+\-*/%!&|^~?@]/y]
+];
+
+// Token type for every character of the code, so each span can be coloured on its own
+export const highlightCode = (code: string, language: CodeLanguage): TokenType[] => {
+  const types: TokenType[] = new Array(code.length).fill('plain');
+  const keywords = KEYWORDS[language];
+  const patterns = [...PATTERNS[language], ...COMMON_PATTERNS];
+  let position = 0;
+
+  while (position < code.length) {
+    let matched = false;
+    for (const [type, pattern] of patterns) {
+      pattern.lastIndex = position;
+      const match = pattern.exec(code);
+      if (match && match[0].length > 0) {
+        const tokenType: TokenType = type === 'word'
+          ? (keywords.has(match[0]) ? 'keyword' : 'plain')
+          : type;
+        types.fill(tokenType, position, position + match[0].length);
+        position += match[0].length;
+        matched = true;
+        break;
+      }
+    }
+    if (!matched) position++;
+  }
+
+  return types;
+};
@@ -0,0 +1,26 @@
+import { TestMode } from '../types/typing';
+
+export const TIME_OPTIONS = [15, 30, 60, 120];
+export const WORD_OPTIONS = [10, 25, 50, 100];
+
+// Words generated up front for a timed test, and per top-up as the user nears the end
+export const TIME_MODE_INITIAL_WORDS = 100;
+export const TIME_MODE_EXTRA_WORDS = 50;
+
+// Characters left in the text before a timed test asks for more
+export const TIME_MODE_LOOKAHEAD = 60;
+
+export const getModeLabel = (mode: TestMode) => {
+  switch (mode.type) {
+    case 'time':
+      return `time ${mode.duration}`;
+    case 'words':
+      return `words ${mode.count}`;
+    case 'code':
+      return 'code';
+    default:
+      return 'passage';
+  }
+};
+
+export const isSameMode = (a: TestMode, b: TestMode) => getModeLabel(a) === getModeLabel(b);
@@ -0,0 +1,119 @@
+import { Tournament, TournamentFormat, TournamentMatch } from '../protocol/events';
+import {
+  BYE,
+  beginTournament,
+  getBracketOrder,
+  getMatchLabel,
+  getReadyMatches,
+  getSwissStandings,
+  overrideMatch,
+  recordHeat
+} from './tournament';
+
+// p1 has the highest rating, so seeds follow the numbers
+const start = (format: TournamentFormat, count: number, bestOf = 1) => beginTournament({
+  id: 'CUP234',
+  name: 'Spring Cup',
+  format,
+  bestOf,
+  textSource: 'quotes',
+  adminId: 'admin',
+  status: 'registering',
+  entrants: Array.from({ length: count }, (_, i) => ({ id: `p${count - i}`, username: `player${count - i}`, seed: 0 })),
+  matches: [],
+  rounds: 0,
+  championId: null
+}, id => 2000 - Number(id.slice(1)));
+
+const match = (tournament: Tournament, id: string) => tournament.matches.find(m => m.id === id) as TournamentMatch;
+
+// Races every ready match until none are left, letting pick choose each winner
+const playOut = (tournament: Tournament, pick: (slots: string[]) => string) => {
+  let current = tournament;
+  for (let ready = getReadyMatches(current)[0]; ready; ready = getReadyMatches(current)[0]) {
+    current = recordHeat(current, ready.id, [pick(ready.slots as string[])]);
+  }
+  return current;
+};
+
+const lowerSeed = (slots: string[]) => slots.reduce((a, b) => (Number(a.slice(1)) < Number(b.slice(1)) ? a : b));
+
+test('orders seeds so the favourites meet last', () => {
+  expect(getBracketOrder(8)).toEqual([1, 8, 4, 5, 2, 7, 3, 6]);
+});
+
+test('seeds by rating and gives the top seeds the byes', () => {
+  const tournament = start('single-elimination', 5);
+  expect(tournament.entrants.map(entrant => [entrant.id, entrant.seed])).toContainEqual(['p1', 1]);
+  expect(match(tournament, 'W1-1').slots).toEqual(['p1', BYE]);
+  expect(match(tournament, 'W2-1').slots).toEqual(['p1', null]);
+  expect(getReadyMatches(tournament).map(m => m.slots)).toEqual([['p4', 'p5'], ['p2', 'p3']]);
+  expect(tournament.rounds).toBe(3);
+});
+
+test('advances the first to win a majority of heats', () => {
+  let tournament = start('single-elimination', 4, 3);
+  tournament = recordHeat(tournament, 'W1-1', ['p4', 'p1']);
+  // A heat neither player finished doesn't count
+  tournament = recordHeat(tournament, 'W1-1', []);
+  expect(match(tournament, 'W1-1')).toMatchObject({ wins: [0, 1], winnerId: null });
+  tournament = recordHeat(tournament, 'W1-1', ['p4']);
+  expect(match(tournament, 'W1-1').winnerId).toBe('p4');
+  expect(match(tournament, 'W2-1').slots).toEqual(['p4', null]);
+
+  const finished = playOut(tournament, lowerSeed);
+  expect(finished).toMatchObject({ status: 'finished', championId: 'p2' });
+});
+
+test('gives everyone a second life in double elimination', () => {
+  const tournament = start('double-elimination', 4);
+  expect(tournament.matches.map(m => m.id)).toEqual(['W1-1', 'W1-2', 'W2-1', 'L1-1', 'L2-1', 'GF']);
+
+  // The top seed loses their first race, then wins everything else
+  let upset = recordHeat(tournament, 'W1-1', ['p4']);
+  expect(match(upset, 'L1-1').slots).toEqual(['p1', null]);
+  upset = playOut(upset, slots => (slots.includes('p1') ? 'p1' : lowerSeed(slots)));
+  expect(match(upset, 'GF').slots).toEqual(['p2', 'p1']);
+  expect(upset).toMatchObject({ status: 'finished', championId: 'p1' });
+});
+
+test('plays Swiss rounds between players on the same score', () => {
+  const tournament = start('swiss', 4);
+  expect(tournament.rounds).toBe(2);
+  expect(tournament.matches.map(m => m.slots)).toEqual([['p1', 'p3'], ['p2', 'p4']]);
+
+  const finished = playOut(tournament, lowerSeed);
+  expect(finished.matches.filter(m => m.round === 2).map(m => m.slots)).toEqual([['p1', 'p2'], ['p3', 'p4']]);
+  expect(getSwissStandings(finished).map(standing => [standing.entrant.id, standing.points])).toEqual([
+    ['p1', 2], ['p2', 1], ['p3', 1], ['p4', 0]
+  ]);
+  expect(finished.championId).toBe('p1');
+});
+
+test('hands the odd player out a Swiss bye', () => {
+  const tournament = start('swiss', 3);
+  expect(match(tournament, 'S1-2')).toMatchObject({ slots: ['p3', BYE], winnerId: 'p3' });
+});
+
+test('lets the admin override a result until later matches are raced', () => {
+  const tournament = playOut(start('single-elimination', 4), lowerSeed);
+  expect(overrideMatch(tournament, 'W1-1', 'p3')).toMatchObject({ code: 'INVALID_TOURNAMENT' });
+  expect(overrideMatch(tournament, 'W1-1', 'p4')).toMatchObject({ code: 'MATCH_LOCKED' });
+
+  const overridden = overrideMatch(tournament, 'W2-1', 'p2') as Tournament;
+  expect(match(overridden, 'W2-1')).toMatchObject({ winnerId: 'p2', overridden: true });
+  expect(overridden.championId).toBe('p2');
+
+  // A semifinal can still change while the final is unraced
+  const early = recordHeat(start('single-elimination', 4), 'W1-1', ['p1']);
+  const swapped = overrideMatch(early, 'W1-1', 'p4') as Tournament;
+  expect(match(swapped, 'W2-1').slots).toEqual(['p4', null]);
+});
+
+test('names rounds after how far they are from the final', () => {
+  const single = start('single-elimination', 8);
+  expect(['W1-1', 'W2-1', 'W3-1'].map(id => getMatchLabel(single, match(single, id)))).toEqual(['Quarterfinal', 'Semifinal', 'Final']);
+  const double = start('double-elimination', 4);
+  expect(['W2-1', 'L1-1', 'L2-1', 'GF'].map(id => getMatchLabel(double, match(double, id))))
+    .toEqual(['Winners final', 'Losers round 1', 'Losers final', 'Grand final']);
+});
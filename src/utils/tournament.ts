@@ -0,0 +1,319 @@
+import {
+  BracketSide,
+  MatchSlotRef,
+  ProtocolError,
+  Tournament,
+  TournamentEntrant,
+  TournamentFormat,
+  TournamentMatch
+} from '../protocol/events';
+
+// Tournament brackets, shared by the race server, which runs them, and the
+// bracket view. Every function returns a new tournament rather than changing
+// the one it is given.
+
+// Fills a slot nobody will play from, so the other player goes through
+export const BYE = 'bye';
+
+export interface SwissStanding {
+  entrant: TournamentEntrant;
+  // Matches won, byes included
+  points: number;
+  // Heats won, the first tiebreak
+  heats: number;
+}
+
+export const TOURNAMENT_FORMAT_LABELS: Record<TournamentFormat, string> = {
+  'single-elimination': 'Single elimination',
+  'double-elimination': 'Double elimination',
+  swiss: 'Swiss'
+};
+
+export const isEntrantId = (id: string | null): id is string => id !== null && id !== BYE;
+
+export const getWinsNeeded = (bestOf: number) => Math.ceil(bestOf / 2);
+
+// Seeds in bracket order, so the top seeds only meet late: 1 v 8, 4 v 5, 2 v 7, 3 v 6
+export const getBracketOrder = (size: number) => {
+  let order = [1];
+  while (order.length < size) {
+    const pairSum = order.length * 2 + 1;
+    order = order.flatMap(seed => [seed, pairSum - seed]);
+  }
+  return order;
+};
+
+// Stronger players get the better seeds; ties keep sign-up order
+export const seedEntrants = (entrants: TournamentEntrant[], getRating: (id: string) => number) =>
+  entrants
+    .map((entrant, index) => ({ entrant, index, rating: getRating(entrant.id) }))
+    .sort((a, b) => b.rating - a.rating || a.index - b.index)
+    .map(({ entrant }, index) => ({ ...entrant, seed: index + 1 }));
+
+const createMatch = (id: string, side: BracketSide, round: number, slots: (string | null)[] = [null, null]): TournamentMatch => ({
+  id,
+  side,
+  round,
+  slots,
+  wins: [0, 0],
+  winnerId: null,
+  overridden: false,
+  winnerTo: null,
+  loserTo: null,
+  roomCode: null
+});
+
+const cloneTournament = (tournament: Tournament): Tournament => ({
+  ...tournament,
+  entrants: [...tournament.entrants],
+  matches: tournament.matches.map(match => ({ ...match, slots: [...match.slots], wins: [...match.wins] }))
+});
+
+const findMatch = (tournament: Tournament, matchId: string) =>
+  tournament.matches.find(match => match.id === matchId);
+
+const winnersId = (round: number, index: number) => `W${round}-${index + 1}`;
+const losersId = (round: number, index: number) => `L${round}-${index + 1}`;
+const GRAND_FINAL_ID = 'GF';
+
+// Losers drop into the losers bracket, whose final winner meets the winners
+// bracket's in a single grand final
+const buildElimination = (entrants: TournamentEntrant[], double: boolean) => {
+  const size = Math.max(2, 2 ** Math.ceil(Math.log2(entrants.length)));
+  const rounds = Math.log2(size);
+  const bySeed = [...entrants].sort((a, b) => a.seed - b.seed);
+  const order = getBracketOrder(size);
+  const matches: TournamentMatch[] = [];
+
+  for (let round = 1; round <= rounds; round++) {
+    const count = size / 2 ** round;
+    for (let i = 0; i < count; i++) {
+      const match = createMatch(winnersId(round, i), 'winners', round);
+      if (round === 1) {
+        match.slots = [order[2 * i], order[2 * i + 1]].map(seed => bySeed[seed - 1]?.id ?? BYE);
+      }
+      if (round < rounds) {
+        match.winnerTo = { matchId: winnersId(round + 1, Math.floor(i / 2)), slot: i % 2 };
+      } else if (double) {
+        match.winnerTo = { matchId: GRAND_FINAL_ID, slot: 0 };
+      }
+      matches.push(match);
+    }
+  }
+  if (!double) return { matches, rounds };
+
+  // Odd losers rounds pair up the survivors; even ones bring in the next round's losers from the winners bracket
+  const losersRounds = 2 * (rounds - 1);
+  for (let round = 1; round <= losersRounds; round++) {
+    const count = size / 2 ** (Math.floor((round + 1) / 2) + 1);
+    for (let i = 0; i < count; i++) {
+      const match = createMatch(losersId(round, i), 'losers', round);
+      match.winnerTo = round === losersRounds
+        ? { matchId: GRAND_FINAL_ID, slot: 1 }
+        : round % 2 === 1
+          ? { matchId: losersId(round + 1, i), slot: 0 }
+          : { matchId: losersId(round + 1, Math.floor(i / 2)), slot: i % 2 };
+      matches.push(match);
+    }
+  }
+  matches.filter(match => match.side === 'winners').forEach(match => {
+    const index = Number(match.id.split('-')[1]) - 1;
+    if (losersRounds === 0) {
+      match.loserTo = { matchId: GRAND_FINAL_ID, slot: 1 };
+    } else if (match.round === 1) {
+      match.loserTo = { matchId: losersId(1, Math.floor(index / 2)), slot: index % 2 };
+    } else {
+      // Crossed over, so players who met early don't meet again straight away
+      const count = size / 2 ** match.round;
+      match.loserTo = { matchId: losersId(2 * (match.round - 1), count - 1 - index), slot: 1 };
+    }
+  });
+  matches.push(createMatch(GRAND_FINAL_ID, 'final', 1));
+  return { matches, rounds };
+};
+
+export const getSwissStandings = (tournament: Tournament): SwissStanding[] =>
+  tournament.entrants
+    .map(entrant => {
+      const played = tournament.matches.filter(match => match.slots.includes(entrant.id));
+      return {
+        entrant,
+        points: played.filter(match => match.winnerId === entrant.id).length,
+        heats: played.reduce((sum, match) => sum + match.wins[match.slots.indexOf(entrant.id)], 0)
+      };
+    })
+    .sort((a, b) => b.points - a.points || b.heats - a.heats || a.entrant.seed - b.entrant.seed);
+
+// Players on the same score meet where they can, avoiding rematches. The
+// first round sets the top half of the seeds against the bottom half.
+const pairSwissRound = (tournament: Tournament, round: number) => {
+  let waiting = getSwissStandings(tournament).map(standing => standing.entrant.id);
+  const hasMet = (a: string, b: string) => tournament.matches.some(match => match.slots.includes(a) && match.slots.includes(b));
+
+  // An odd player out gets a bye, at most once each while that can be helped
+  let byeId: string | null = null;
+  if (waiting.length % 2 === 1) {
+    byeId = [...waiting].reverse().find(id => !hasMet(id, BYE)) ?? waiting[waiting.length - 1];
+    waiting = waiting.filter(id => id !== byeId);
+  }
+  if (round === 1) {
+    const half = waiting.length / 2;
+    waiting = waiting.slice(0, half).flatMap((id, i) => [id, waiting[half + i]]);
+  }
+
+  const pairs: string[][] = [];
+  while (waiting.length > 0) {
+    const [first, ...rest] = waiting;
+    const opponent = rest.find(id => !hasMet(first, id)) ?? rest[0];
+    pairs.push([first, opponent]);
+    waiting = rest.filter(id => id !== opponent);
+  }
+  if (byeId) pairs.push([byeId, BYE]);
+  return pairs.map((slots, i) => createMatch(`S${round}-${i + 1}`, 'swiss', round, slots));
+};
+
+const getCurrentRound = (tournament: Tournament) =>
+  Math.max(0, ...tournament.matches.map(match => match.round));
+
+const placeIn = (tournament: Tournament, ref: MatchSlotRef | null, id: string) => {
+  const target = ref && findMatch(tournament, ref.matchId);
+  if (target && ref) target.slots[ref.slot] = id;
+};
+
+const decide = (tournament: Tournament, match: TournamentMatch, winnerId: string) => {
+  match.winnerId = winnerId;
+  placeIn(tournament, match.winnerTo, winnerId);
+  placeIn(tournament, match.loserTo, match.slots.find(id => id !== winnerId) ?? BYE);
+};
+
+const isUndecidedBye = (match: TournamentMatch) =>
+  match.winnerId === null && !match.slots.includes(null) && match.slots.includes(BYE);
+
+// Walks byes through the bracket, pairs the next Swiss round once one is
+// over, and crowns the champion when there is nothing left to play
+const settle = (tournament: Tournament) => {
+  for (let bye = tournament.matches.find(isUndecidedBye); bye; bye = tournament.matches.find(isUndecidedBye)) {
+    decide(tournament, bye, bye.slots.find(isEntrantId) ?? BYE);
+  }
+
+  const isOver = tournament.matches.every(match => match.winnerId !== null);
+  const round = getCurrentRound(tournament);
+  if (tournament.format === 'swiss' && isOver && round < tournament.rounds) {
+    tournament.matches.push(...pairSwissRound(tournament, round + 1));
+    settle(tournament);
+    return;
+  }
+
+  tournament.status = isOver ? 'finished' : 'running';
+  const final = tournament.format === 'swiss' ? undefined : tournament.matches.find(match => match.winnerTo === null);
+  tournament.championId = !isOver
+    ? null
+    : tournament.format === 'swiss'
+      ? getSwissStandings(tournament)[0]?.entrant.id ?? null
+      : final?.winnerId ?? null;
+};
+
+export const beginTournament = (tournament: Tournament, getRating: (id: string) => number): Tournament => {
+  const next = cloneTournament(tournament);
+  next.entrants = seedEntrants(tournament.entrants, getRating);
+  if (next.format === 'swiss') {
+    next.rounds = Math.max(1, Math.ceil(Math.log2(next.entrants.length)));
+    next.matches = pairSwissRound(next, 1);
+  } else {
+    const bracket = buildElimination(next.entrants, next.format === 'double-elimination');
+    next.rounds = bracket.rounds;
+    next.matches = bracket.matches;
+  }
+  settle(next);
+  return next;
+};
+
+// Matches with both players known and no winner yet
+export const getReadyMatches = (tournament: Tournament) =>
+  tournament.matches.filter(match => match.winnerId === null && match.slots.every(isEntrantId));
+
+// The heat goes to whichever of the match's players finished first; a heat
+// neither of them finished doesn't count
+export const recordHeat = (tournament: Tournament, matchId: string, finishOrder: string[]): Tournament => {
+  const match = findMatch(tournament, matchId);
+  const heatWinner = match && finishOrder.find(id => match.slots.includes(id));
+  if (!match || !heatWinner || match.winnerId !== null || !match.slots.every(isEntrantId)) return tournament;
+
+  const next = cloneTournament(tournament);
+  const target = findMatch(next, matchId) as TournamentMatch;
+  const slot = target.slots.indexOf(heatWinner);
+  target.wins[slot] += 1;
+  if (target.wins[slot] >= getWinsNeeded(next.bestOf)) {
+    decide(next, target, heatWinner);
+    settle(next);
+  }
+  return next;
+};
+
+// A match someone has raced in or an admin has decided. Matches decided by
+// a bye only count if the player they sent on has.
+const hasStarted = (tournament: Tournament, ref: MatchSlotRef | null): boolean => {
+  const match = ref && findMatch(tournament, ref.matchId);
+  if (!match) return false;
+  if (match.overridden || match.wins.some(wins => wins > 0)) return true;
+  return match.winnerId !== null && (hasStarted(tournament, match.winnerTo) || hasStarted(tournament, match.loserTo));
+};
+
+// Swaps a player for another in the slot they were sent to, following them
+// on through any byes
+const replaceIn = (tournament: Tournament, ref: MatchSlotRef | null, oldId: string, newId: string) => {
+  const match = ref && findMatch(tournament, ref.matchId);
+  if (!match || !ref) return;
+  match.slots[ref.slot] = newId;
+  if (match.winnerId === oldId) {
+    match.winnerId = newId;
+    replaceIn(tournament, match.winnerTo, oldId, newId);
+  }
+};
+
+export const overrideMatch = (tournament: Tournament, matchId: string, winnerId: string): Tournament | ProtocolError => {
+  const match = findMatch(tournament, matchId);
+  if (!match || !match.slots.every(isEntrantId) || !match.slots.includes(winnerId)) {
+    return { message: 'Pick one of the two players in that match.', code: 'INVALID_TOURNAMENT' };
+  }
+  const isLocked = tournament.format === 'swiss'
+    ? match.round < getCurrentRound(tournament)
+    : hasStarted(tournament, match.winnerTo) || hasStarted(tournament, match.loserTo);
+  if (match.winnerId !== null && isLocked) {
+    return { message: 'Later matches have already been played, so that result can no longer change.', code: 'MATCH_LOCKED' };
+  }
+
+  const next = cloneTournament(tournament);
+  const target = findMatch(next, matchId) as TournamentMatch;
+  target.overridden = true;
+  if (target.winnerId === null) {
+    decide(next, target, winnerId);
+  } else if (target.winnerId !== winnerId) {
+    const previousWinner = target.winnerId;
+    target.winnerId = winnerId;
+    replaceIn(next, target.winnerTo, previousWinner, winnerId);
+    replaceIn(next, target.loserTo, winnerId, previousWinner);
+  }
+  settle(next);
+  return next;
+};
+
+export const getMatchLabel = (tournament: Tournament, match: TournamentMatch) => {
+  const lastRound = Math.max(...tournament.matches.filter(other => other.side === match.side).map(other => other.round));
+  switch (match.side) {
+    case 'final':
+      return 'Grand final';
+    case 'swiss':
+      return `Round ${match.round}`;
+    case 'losers':
+      return match.round === lastRound ? 'Losers final' : `Losers round ${match.round}`;
+    default:
+      if (tournament.format === 'double-elimination') {
+        return match.round === lastRound ? 'Winners final' : `Winners round ${match.round}`;
+      }
+      return ['Final', 'Semifinal', 'Quarterfinal'][lastRound - match.round] ?? `Round ${match.round}`;
+  }
+};
+
+export const getEntrantName = (tournament: Tournament, id: string | null) =>
+  id === null ? 'TBD' : id === BYE ? 'Bye' : tournament.entrants.find(entrant => entrant.id === id)?.username ?? 'Unknown';